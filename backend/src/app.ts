@@ -12,6 +12,7 @@ import { checkinRoutes } from "./routes/checkinRoutes.js";
 import { analyticsRoutes } from "./routes/analyticsRoutes.js";
 import { chatRoutes } from "./routes/chatRoutes.js";
 import { copingRoutes } from "./routes/copingRoutes.js";
+import { copingToolRoutes } from "./routes/copingToolRoutes.js";
 import { notificationRoutes } from "./routes/notificationRoutes.js";
 import { communityRoutes } from "./routes/communityRoutes.js";
 import { journalRoutes } from "./routes/journalRoutes.js";
@@ -19,6 +20,11 @@ import { safetyPlanRoutes } from "./routes/safetyPlanRoutes.js";
 import { weeklyGoalRoutes } from "./routes/weeklyGoalRoutes.js";
 import { configRoutes } from "./routes/configRoutes.js";
 import { adminRoutes } from "./routes/adminRoutes.js";
+import { crisisRoutes } from "./routes/crisisRoutes.js";
+import { jobRoutes } from "./routes/jobRoutes.js";
+import { searchRoutes } from "./routes/searchRoutes.js";
+import { assessmentRoutes } from "./routes/assessmentRoutes.js";
+import { earlyWarningRoutes } from "./routes/earlyWarningRoutes.js";
 
 export const app = express();
 
@@ -65,6 +71,12 @@ app.use("/api/journals", journalRoutes);
 app.use("/api/safety-plan", safetyPlanRoutes);
 app.use("/api/weekly-goal", weeklyGoalRoutes);
 app.use("/api/config", configRoutes);
+app.use("/api/crisis", crisisRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/assessments", assessmentRoutes);
+app.use("/api/early-warnings", earlyWarningRoutes);
+app.use("/api/admin/coping-tools", copingToolRoutes);
 app.use("/admin", adminRoutes);
 
 app.use(errorHandler);
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { env } from "./env.js";
+import type { LlmProviderName } from "../services/ai/providers/types.js";
+
+export type AiPurpose =
+  | "chat_analysis"
+  | "chat_emotion"
+  | "chat_crisis"
+  | "chat_response"
+  | "chat_daily_summary"
+  | "chat_memory"
+  | "chat_thread_summary"
+  | "checkin_emotion";
+
+export interface ModelTarget {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface PurposeConfig {
+  chain: ModelTarget[];
+  temperature: number;
+  timeoutMs: number;
+  /** Upper bound on estimated prompt tokens when a caller assembles conversation context. */
+  maxContextTokens: number;
+}
+
+const OPENAI_FALLBACK_MODELS = ["gpt-4.1-mini", "gpt-4o-mini", "gpt-3.5-turbo"];
+
+const defaultChain = (): ModelTarget[] => {
+  switch (env.LLM_PROVIDER) {
+    case "local":
+      return [{ provider: "local", model: env.LOCAL_LLM_MODEL }];
+    case "mock":
+      return [{ provider: "mock", model: "mock" }];
+    default:
+      return OPENAI_FALLBACK_MODELS.map((model) => ({ provider: "openai" as const, model }));
+  }
+};
+
+const DEFAULT_CONFIG: Omit<PurposeConfig, "chain"> = { temperature: 0.2, timeoutMs: 15000, maxContextTokens: 4000 };
+
+const PURPOSE_DEFAULTS: Record<AiPurpose, Omit<PurposeConfig, "chain">> = {
+  chat_analysis: { temperature: 0, timeoutMs: 12000, maxContextTokens: 1000 },
+  chat_emotion: { temperature: 0.2, timeoutMs: 10000, maxContextTokens: 1000 },
+  chat_crisis: { temperature: 0, timeoutMs: 10000, maxContextTokens: 1000 },
+  chat_response: { temperature: 0.2, timeoutMs: 30000, maxContextTokens: 3000 },
+  chat_daily_summary: { temperature: 0.2, timeoutMs: 20000, maxContextTokens: 6000 },
+  chat_memory: { temperature: 0, timeoutMs: 15000, maxContextTokens: 2000 },
+  chat_thread_summary: { temperature: 0.2, timeoutMs: 20000, maxContextTokens: 6000 },
+  checkin_emotion: { temperature: 0.2, timeoutMs: 10000, maxContextTokens: 1000 },
+};
+
+const overrideSchema = z.record(
+  z.object({
+    chain: z
+      .array(z.object({ provider: z.enum(["openai", "local", "mock"]), model: z.string().min(1) }))
+      .min(1)
+      .optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+    maxContextTokens: z.number().int().positive().optional(),
+  }),
+);
+
+/**
+ * LLM_PURPOSE_CONFIG takes JSON keyed by purpose, e.g.
+ * {"chat_response":{"chain":[{"provider":"local","model":"llama3.1"}],"temperature":0.6}}
+ */
+const parseOverrides = () => {
+  if (!env.LLM_PURPOSE_CONFIG) return {};
+  try {
+    return overrideSchema.parse(JSON.parse(env.LLM_PURPOSE_CONFIG));
+  } catch (err) {
+    throw new Error(`Invalid LLM_PURPOSE_CONFIG: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+const overrides = parseOverrides();
+
+export const getPurposeConfig = (purpose?: string): PurposeConfig => {
+  const base = (purpose && PURPOSE_DEFAULTS[purpose as AiPurpose]) || DEFAULT_CONFIG;
+  const override = purpose ? overrides[purpose] : undefined;
+  return {
+    chain: override?.chain ?? defaultChain(),
+    temperature: override?.temperature ?? base.temperature,
+    timeoutMs: override?.timeoutMs ?? base.timeoutMs,
+    maxContextTokens: override?.maxContextTokens ?? base.maxContextTokens,
+  };
+};
@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { env } from "./env.js";
+
+const configSchema = z.object({
+  enabled: z.boolean().default(true),
+  // How often the detector sweeps recently active users.
+  intervalMinutes: z.number().int().positive().default(60),
+  // A rule that fired stays quiet this long, so one bad week is one nudge.
+  cooldownHours: z.number().positive().default(72),
+  decline: z
+    .object({
+      // Check-in days looked at, ending with the most recent one.
+      windowDays: z.number().int().min(2).default(5),
+      minCheckInDays: z.number().int().min(2).default(3),
+      // Mood points (0-10) lost per day across the window.
+      minDropPerDay: z.number().positive().default(0.5),
+      // The latest day must also be at or below this, so a dip from a great week is left alone.
+      maxLatestMood: z.number().min(0).max(10).default(5),
+    })
+    .default({}),
+  missedAfterLow: z
+    .object({
+      lowMood: z.number().min(0).max(10).default(3),
+      lowDays: z.number().int().min(1).default(2),
+      silentDays: z.number().int().min(1).default(2),
+    })
+    .default({}),
+  repeatedCrisis: z
+    .object({
+      minSignals: z.number().int().min(2).default(2),
+      windowDays: z.number().int().min(1).default(7),
+    })
+    .default({}),
+});
+
+export type EarlyWarningConfig = z.infer<typeof configSchema>;
+
+/**
+ * EARLY_WARNING_CONFIG takes JSON overriding any of the defaults above, e.g.
+ * {"cooldownHours":48,"decline":{"windowDays":7,"minDropPerDay":0.4}}
+ */
+const parseConfig = () => {
+  try {
+    return configSchema.parse(env.EARLY_WARNING_CONFIG ? JSON.parse(env.EARLY_WARNING_CONFIG) : {});
+  } catch (err) {
+    throw new Error(`Invalid EARLY_WARNING_CONFIG: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+export const earlyWarningConfig = parseConfig();
@@ -9,9 +9,18 @@ const envSchema = z.object({
   CORS_ORIGIN: z.string().default("http://localhost:5173"),
   SESSION_COOKIE_NAME: z.string().default("sahaay_session"),
   SESSION_TTL_HOURS: z.coerce.number().default(168),
-  OPENAI_API_KEY: z.string().min(1),
+  LLM_PROVIDER: z.enum(["openai", "local", "mock"]).default("openai"),
+  LLM_PURPOSE_CONFIG: z.string().optional(),
+  OPENAI_API_KEY: z.string().min(1).optional(),
   OPENAI_ORG_ID: z.string().optional(),
   OPENAI_PROJECT_ID: z.string().optional(),
+  LOCAL_LLM_BASE_URL: z.string().default("http://localhost:11434/v1"),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODEL: z.string().default("llama3.1"),
+  EMBEDDING_PROVIDER: z.enum(["openai", "local", "hashing"]).default("hashing"),
+  EMBEDDING_MODEL: z.string().default("text-embedding-3-small"),
+  JOB_QUEUE_DRIVER: z.enum(["firestore", "memory"]).default("firestore"),
+  JOB_POLL_INTERVAL_MS: z.coerce.number().default(5000),
   FIREBASE_PROJECT_ID: z.string().optional(),
   FIREBASE_SERVICE_ACCOUNT_JSON: z.string().optional(),
   VAPID_PUBLIC_KEY: z.string().optional(),
@@ -19,6 +28,10 @@ const envSchema = z.object({
   VAPID_SUBJECT: z.string().optional(),
   ADMIN_EMAIL: z.string().optional(),
   ADMIN_PASSWORD: z.string().optional(),
+  EARLY_WARNING_CONFIG: z.string().optional(),
+}).refine((value) => value.LLM_PROVIDER !== "openai" || Boolean(value.OPENAI_API_KEY), {
+  message: "OPENAI_API_KEY is required when LLM_PROVIDER is openai",
+  path: ["OPENAI_API_KEY"],
 });
 
 export const env = envSchema.parse({
@@ -27,9 +40,18 @@ export const env = envSchema.parse({
   CORS_ORIGIN: process.env.CORS_ORIGIN,
   SESSION_COOKIE_NAME: process.env.SESSION_COOKIE_NAME,
   SESSION_TTL_HOURS: process.env.SESSION_TTL_HOURS,
+  LLM_PROVIDER: process.env.LLM_PROVIDER,
+  LLM_PURPOSE_CONFIG: process.env.LLM_PURPOSE_CONFIG,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY,
   OPENAI_ORG_ID: process.env.OPENAI_ORG_ID,
   OPENAI_PROJECT_ID: process.env.OPENAI_PROJECT_ID,
+  LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+  LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY,
+  LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL,
+  EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER,
+  EMBEDDING_MODEL: process.env.EMBEDDING_MODEL,
+  JOB_QUEUE_DRIVER: process.env.JOB_QUEUE_DRIVER,
+  JOB_POLL_INTERVAL_MS: process.env.JOB_POLL_INTERVAL_MS,
   FIREBASE_PROJECT_ID: process.env.FIREBASE_PROJECT_ID,
   FIREBASE_SERVICE_ACCOUNT_JSON: process.env.FIREBASE_SERVICE_ACCOUNT_JSON,
   VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
@@ -37,4 +59,5 @@ export const env = envSchema.parse({
   VAPID_SUBJECT: process.env.VAPID_SUBJECT,
   ADMIN_EMAIL: process.env.ADMIN_EMAIL,
   ADMIN_PASSWORD: process.env.ADMIN_PASSWORD,
+  EARLY_WARNING_CONFIG: process.env.EARLY_WARNING_CONFIG,
 });
@@ -4,7 +4,7 @@ import { env } from "../config/env.js";
 import { createSession } from "../services/auth/sessionService.js";
 import { getFirestore } from "../config/firebase.js";
 
-const htmlPage = (title: string, body: string) => `<!doctype html>
+export const htmlPage = (title: string, body: string) => `<!doctype html>
 <html lang="en">
 <head>
   <meta charset="utf-8" />
@@ -25,6 +25,13 @@ const htmlPage = (title: string, body: string) => `<!doctype html>
     details { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 10px; padding: 8px 10px; }
     summary { cursor: pointer; font-weight: 600; color: #0f172a; }
     pre { margin: 8px 0 0; white-space: pre-wrap; word-break: break-word; font-size: 11px; color: #1e293b; }
+    a { color: #4f46e5; }
+    label { display: block; margin: 12px 0 4px; font-size: 12px; font-weight: 600; color: #334155; }
+    input[type="text"], input[type="number"], select, textarea { width: 100%; box-sizing: border-box; padding: 8px; border: 1px solid #cbd5e1; border-radius: 8px; font: inherit; font-size: 13px; }
+    textarea { font-family: ui-monospace, Menlo, monospace; font-size: 12px; }
+    .inline label { display: inline-block; margin: 4px 12px 4px 0; font-weight: 400; }
+    .actions { display: flex; gap: 8px; flex-wrap: wrap; align-items: center; margin-top: 16px; }
+    .errors { background: #fef2f2; border: 1px solid #fecaca; color: #991b1b; border-radius: 10px; padding: 8px 12px 8px 28px; font-size: 12px; }
   </style>
 </head>
 <body>
@@ -78,6 +85,9 @@ export const adminDashboard = async (_req: AuthRequest, res: Response) => {
     chats,
     reports,
     usage,
+    crisisEvents,
+    guardEvents,
+    jobs,
   ] = await Promise.all([
     db.collection("users").limit(50).get(),
     db.collection("profiles").limit(50).get(),
@@ -87,6 +97,9 @@ export const adminDashboard = async (_req: AuthRequest, res: Response) => {
     db.collection("chatMessages").limit(50).get(),
     db.collection("reports").limit(50).get(),
     db.collection("openaiUsage").limit(50).get(),
+    db.collection("crisisEvents").limit(50).get(),
+    db.collection("responseGuardEvents").limit(50).get(),
+    db.collection("jobs").limit(50).get(),
   ]);
 
   const toRows = (snap: FirebaseFirestore.QuerySnapshot) =>
@@ -109,7 +122,7 @@ export const adminDashboard = async (_req: AuthRequest, res: Response) => {
   const body = `
 <div class="card">
   <h1>Admin Overview</h1>
-  <p class="muted">Showing last 50 records per section.</p>
+  <p class="muted">Showing last 50 records per section. <a href="/admin/coping-tools">Manage coping tools</a></p>
 </div>
 <div class="section"><h2>Users</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(users)}</table></div>
 <div class="section"><h2>Profiles</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(profiles)}</table></div>
@@ -119,6 +132,9 @@ export const adminDashboard = async (_req: AuthRequest, res: Response) => {
 <div class="section"><h2>Chat Messages</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(chats)}</table></div>
 <div class="section"><h2>Reports</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(reports)}</table></div>
 <div class="section"><h2>OpenAI Usage</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(usage)}</table></div>
+<div class="section"><h2>Crisis Events</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(crisisEvents)}</table></div>
+<div class="section"><h2>Response Guard Interventions</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(guardEvents)}</table></div>
+<div class="section"><h2>Background Jobs</h2><table><tr><th>ID</th><th>Data</th></tr>${toRows(jobs)}</table></div>
 `;
 
   res.send(htmlPage("Admin", body));
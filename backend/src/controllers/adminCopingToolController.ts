@@ -0,0 +1,248 @@
+import type { Response } from "express";
+import { COPING_CATEGORIES, COPING_TOOLS, INTENSITY_LEVELS, MOODS } from "@sahaay/shared";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { htmlPage } from "./adminController.js";
+import {
+  createTool,
+  deleteTool,
+  getToolRecord,
+  listToolRecords,
+  publishTool,
+  saveToolDraft,
+  toolStatus,
+  unpublishTool,
+} from "../services/coping/toolCatalogService.js";
+import type { CopingToolContent, CopingToolRecord } from "../services/coping/toolCatalogService.js";
+import { AppError } from "../utils/appError.js";
+import { copingToolContentSchema, toolIdSchema } from "../validators/copingSchemas.js";
+
+// Fields exactly as the admin typed them, so a rejected save is shown again unchanged.
+interface ToolFormValues {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  supportedMoods: string[];
+  intensityLevel: string;
+  durationMinutes: string;
+  type: string;
+  script: string;
+  translations: string;
+}
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const EMPTY_FORM: ToolFormValues = {
+  id: "",
+  title: "",
+  description: "",
+  category: COPING_CATEGORIES[0],
+  supportedMoods: [],
+  intensityLevel: INTENSITY_LEVELS[0],
+  durationMinutes: "5",
+  type: "",
+  script: "",
+  translations: "{}",
+};
+
+const contentToForm = (id: string, content: CopingToolContent): ToolFormValues => ({
+  id,
+  title: content.title,
+  description: content.description,
+  category: content.category,
+  supportedMoods: content.supportedMoods,
+  intensityLevel: content.intensityLevel,
+  durationMinutes: String(content.durationMinutes),
+  type: content.type,
+  script: content.script ? JSON.stringify(content.script, null, 2) : "",
+  translations: JSON.stringify(content.translations ?? {}, null, 2),
+});
+
+const readForm = (body: Record<string, unknown>, id = ""): ToolFormValues => {
+  const field = (name: string) => (typeof body[name] === "string" ? (body[name] as string) : "");
+  const moods = body.supportedMoods;
+  return {
+    id: id || field("id").trim(),
+    title: field("title"),
+    description: field("description"),
+    category: field("category"),
+    supportedMoods: Array.isArray(moods) ? moods.map(String) : typeof moods === "string" ? [moods] : [],
+    intensityLevel: field("intensityLevel"),
+    durationMinutes: field("durationMinutes"),
+    type: field("type"),
+    script: field("script"),
+    translations: field("translations"),
+  };
+};
+
+const parseJsonField = (value: string, label: string, errors: string[]) => {
+  if (!value.trim()) return undefined;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    errors.push(`${label} is not valid JSON`);
+    return undefined;
+  }
+};
+
+const parseForm = (values: ToolFormValues) => {
+  const errors: string[] = [];
+  const script = parseJsonField(values.script, "Script", errors);
+  const translations = parseJsonField(values.translations, "Translations", errors) ?? {};
+  if (errors.length) return { errors };
+
+  const result = copingToolContentSchema.safeParse({
+    title: values.title,
+    description: values.description,
+    category: values.category,
+    supportedMoods: values.supportedMoods,
+    intensityLevel: values.intensityLevel,
+    durationMinutes: Number(values.durationMinutes),
+    type: values.type,
+    script,
+    translations,
+  });
+  if (!result.success) {
+    return { errors: result.error.issues.map((issue) => `${issue.path.join(".") || "Tool"}: ${issue.message}`) };
+  }
+  return { content: result.data as CopingToolContent, errors };
+};
+
+const options = (values: readonly string[], selected: string) =>
+  values.map((value) => `<option value="${value}"${value === selected ? " selected" : ""}>${value}</option>`).join("");
+
+const renderErrors = (errors: string[]) =>
+  errors.length ? `<ul class="errors">${errors.map((error) => `<li>${escapeHtml(error)}</li>`).join("")}</ul>` : "";
+
+const renderToolForm = (values: ToolFormValues, record: CopingToolRecord | null, errors: string[] = []) => {
+  const action = record ? `/admin/coping-tools/${record.id}` : "/admin/coping-tools";
+  const moods = MOODS.map(
+    (mood) =>
+      `<label><input type="checkbox" name="supportedMoods" value="${mood}"${values.supportedMoods.includes(mood) ? " checked" : ""} /> ${mood}</label>`,
+  ).join("");
+
+  const status = record
+    ? `<p><span class="badge">${toolStatus(record)}</span> <span class="muted">${record.source}${record.publishedAt ? ` · last published ${record.publishedAt}` : ""}</span></p>`
+    : "";
+
+  // Plain form posts: the admin pages run under helmet's CSP, which blocks inline scripts.
+  const lifecycle = record
+    ? `<div class="actions">
+  <form method="post" action="/admin/coping-tools/${record.id}/publish"><button type="submit">Publish draft</button></form>
+  ${record.published ? `<form method="post" action="/admin/coping-tools/${record.id}/unpublish"><button type="submit">Hide from users</button></form>` : ""}
+  ${
+    record.source === "stored"
+      ? `<form method="post" action="/admin/coping-tools/${record.id}/delete">
+    <label class="muted"><input type="checkbox" name="confirm" required /> I'm sure</label>
+    <button type="submit">${COPING_TOOLS.some((tool) => tool.id === record.id) ? "Revert to built-in" : "Delete"}</button>
+  </form>`
+      : ""
+  }
+</div>`
+    : "";
+
+  return `
+<p><a href="/admin/coping-tools">&larr; All coping tools</a></p>
+<div class="card">
+  <h1>${record ? escapeHtml(values.title || record.id) : "New coping tool"}</h1>
+  ${status}
+  ${renderErrors(errors)}
+  <form method="post" action="${action}">
+    ${record ? "" : `<label>Id</label><input type="text" name="id" value="${escapeHtml(values.id)}" placeholder="e.g. box-breathing" required />`}
+    <label>Title</label><input type="text" name="title" value="${escapeHtml(values.title)}" required />
+    <label>Description</label><textarea name="description" rows="2" required>${escapeHtml(values.description)}</textarea>
+    <label>Category</label><select name="category">${options(COPING_CATEGORIES, values.category)}</select>
+    <label>Supported moods</label><div class="inline">${moods}</div>
+    <label>Intensity level</label><select name="intensityLevel">${options(INTENSITY_LEVELS, values.intensityLevel)}</select>
+    <label>Duration (minutes)</label><input type="number" name="durationMinutes" min="1" max="60" value="${escapeHtml(values.durationMinutes)}" required />
+    <label>Type</label><input type="text" name="type" value="${escapeHtml(values.type)}" placeholder="e.g. breathing" required />
+    <label>Script (JSON, optional)</label>
+    <p class="muted">{ "intro"?, "steps": [{ "label", "prompt", "durationSeconds"?, "animation"?, "cue"? }], "repetitions", "outro"? }</p>
+    <textarea name="script" rows="12">${escapeHtml(values.script)}</textarea>
+    <label>Translations (JSON)</label>
+    <p class="muted">Keyed by language tag: { "hi": { "title", "description", "script"?: { "intro"?, "outro"?, "steps": [{ "label", "prompt" }] } } }. Users whose locale has no translation see the text above.</p>
+    <textarea name="translations" rows="10">${escapeHtml(values.translations)}</textarea>
+    <div class="actions"><button type="submit">${record ? "Save draft" : "Create draft"}</button></div>
+  </form>
+  ${lifecycle}
+</div>`;
+};
+
+export const adminCopingToolList = async (_req: AuthRequest, res: Response) => {
+  const tools = await listToolRecords();
+  const rows = tools
+    .map(
+      (tool) => `<tr>
+        <td><a href="/admin/coping-tools/${tool.id}">${escapeHtml(tool.draft.title)}</a><div class="muted">${tool.id}</div></td>
+        <td>${tool.draft.category}</td>
+        <td><span class="badge">${tool.status}</span></td>
+        <td>${tool.source}</td>
+        <td>${Object.keys(tool.draft.translations ?? {}).join(", ") || "—"}</td>
+        <td>${tool.updatedAt ?? "—"}</td>
+      </tr>`,
+    )
+    .join("");
+
+  const body = `
+<p><a href="/admin">&larr; Admin overview</a></p>
+<div class="card section">
+  <h1>Coping tools</h1>
+  <p class="muted">Edits are saved as drafts. Users only see a tool's published version, from their next request. <a href="/admin/coping-tools/new">New tool</a></p>
+</div>
+<table><tr><th>Tool</th><th>Category</th><th>Status</th><th>Source</th><th>Translations</th><th>Updated</th></tr>${rows}</table>`;
+
+  res.send(htmlPage("Coping tools", body));
+};
+
+export const adminCopingToolNewForm = async (_req: AuthRequest, res: Response) => {
+  res.send(htmlPage("New coping tool", renderToolForm(EMPTY_FORM, null)));
+};
+
+export const adminCopingToolEditForm = async (req: AuthRequest, res: Response) => {
+  const record = await getToolRecord(req.params.id);
+  res.send(htmlPage(`Coping tool: ${record.id}`, renderToolForm(contentToForm(record.id, record.draft), record)));
+};
+
+export const adminCopingToolCreate = async (req: AuthRequest, res: Response) => {
+  const values = readForm(req.body);
+  const { content, errors } = parseForm(values);
+  const id = toolIdSchema.safeParse(values.id);
+  if (!id.success) errors.unshift(`Id: ${id.error.issues[0].message}`);
+  if (!content || !id.success) {
+    return res.status(400).send(htmlPage("New coping tool", renderToolForm(values, null, errors)));
+  }
+
+  try {
+    await createTool(id.data, content);
+  } catch (error) {
+    if (!(error instanceof AppError)) throw error;
+    return res.status(error.statusCode).send(htmlPage("New coping tool", renderToolForm(values, null, [error.message])));
+  }
+  return res.redirect(`/admin/coping-tools/${id.data}`);
+};
+
+export const adminCopingToolSave = async (req: AuthRequest, res: Response) => {
+  const record = await getToolRecord(req.params.id);
+  const values = readForm(req.body, record.id);
+  const { content, errors } = parseForm(values);
+  if (!content) {
+    return res.status(400).send(htmlPage(`Coping tool: ${record.id}`, renderToolForm(values, record, errors)));
+  }
+  await saveToolDraft(record.id, content);
+  return res.redirect(`/admin/coping-tools/${record.id}`);
+};
+
+export const adminCopingToolPublish = async (req: AuthRequest, res: Response) => {
+  await publishTool(req.params.id);
+  return res.redirect(`/admin/coping-tools/${req.params.id}`);
+};
+
+export const adminCopingToolUnpublish = async (req: AuthRequest, res: Response) => {
+  await unpublishTool(req.params.id);
+  return res.redirect(`/admin/coping-tools/${req.params.id}`);
+};
+
+export const adminCopingToolDelete = async (req: AuthRequest, res: Response) => {
+  await deleteTool(req.params.id);
+  return res.redirect("/admin/coping-tools");
+};
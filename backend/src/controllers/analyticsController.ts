@@ -1,9 +1,22 @@
 import type { Response } from "express";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
 import { buildAnalytics } from "../services/analytics/analyticsService.js";
+import type { AnalyticsGranularity, AnalyticsRange } from "../services/analytics/analyticsService.js";
+import { buildInsights } from "../services/analytics/insightService.js";
 
 export const getAnalytics = async (req: AuthRequest, res: Response) => {
-  const timezone = (req.query.timezone as string) || "UTC";
-  const analytics = await buildAnalytics(req.userId as string, timezone);
+  const { timezone, range, granularity, from, to } = req.query as Record<string, string | undefined>;
+  const analytics = await buildAnalytics(req.userId as string, timezone || "UTC", {
+    range: range as AnalyticsRange | undefined,
+    granularity: granularity as AnalyticsGranularity | undefined,
+    from,
+    to,
+  });
   return res.json({ analytics });
 };
+
+export const getInsights = async (req: AuthRequest, res: Response) => {
+  const { timezone, days } = req.query as Record<string, string | undefined>;
+  const insights = await buildInsights(req.userId as string, timezone || "UTC", days ? Number(days) : undefined);
+  return res.json(insights);
+};
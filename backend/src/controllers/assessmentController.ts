@@ -0,0 +1,21 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { listAssessments, submitAssessment, summarizeAssessments } from "../services/assessment/assessmentService.js";
+import { ASSESSMENT_TYPES, QUESTIONNAIRES } from "../services/assessment/questionnaires.js";
+import type { AssessmentType } from "../services/assessment/questionnaires.js";
+
+export const listQuestionnaires = async (_req: AuthRequest, res: Response) => {
+  return res.json({ questionnaires: ASSESSMENT_TYPES.map((type) => QUESTIONNAIRES[type]) });
+};
+
+export const listAssessmentHistory = async (req: AuthRequest, res: Response) => {
+  const { type } = req.query as { type?: AssessmentType };
+  const assessments = await listAssessments(req.userId as string, type);
+  return res.json({ assessments, summary: summarizeAssessments(assessments) });
+};
+
+export const createAssessment = async (req: AuthRequest, res: Response) => {
+  const { type, answers, remind } = req.body as { type: AssessmentType; answers: number[]; remind: boolean };
+  const result = await submitAssessment(req.userId as string, type, answers, remind);
+  return res.json(result);
+};
@@ -1,41 +1,50 @@
 import type { Response } from "express";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
 import { getFirestore } from "../config/firebase.js";
-import { buildMoodLabel, classifyEmotion } from "../services/emotion/emotionEngine.js";
-import { detectCrisis } from "../services/emotion/crisisService.js";
-import { generateSupportResponse } from "../services/ai/responseService.js";
+import { buildMoodLabel } from "../services/emotion/emotionEngine.js";
+import { analyzeMessage } from "../services/emotion/messageAnalysisService.js";
+import { generateSupportResponse, streamSupportResponse } from "../services/ai/responseService.js";
 import { upsertDailyCheckIn } from "../services/checkin/checkinService.js";
-import { generateDailySummary, getDailySummary } from "../services/chat/chatSummaryService.js";
+import { getDailySummary } from "../services/chat/chatSummaryService.js";
+import type { DailyChatSummary } from "../services/chat/chatSummaryService.js";
+import { recordCrisisSignal } from "../services/crisis/crisisEventService.js";
+import { buildConversationContext } from "../services/chat/conversationContextService.js";
+import { getThread, listThreadMessages, listThreadsForDays, recordThreadMessage, resolveThread } from "../services/chat/threadService.js";
+import type { ChatThread } from "../services/chat/threadService.js";
+import { enqueueJob } from "../services/jobs/jobQueue.js";
+import type { GuardResult } from "../services/safety/responseGuardService.js";
 import { getDayKey } from "../utils/date.js";
+import { openSseStream, wantsEventStream, writeSseEvent } from "../utils/sse.js";
 
 const messagesCollection = () => getFirestore().collection("chatMessages");
 const settingsCollection = () => getFirestore().collection("settings");
 
+// Long enough for the assistant's reply to land, so a burst of messages yields one summary that includes it.
+const SUMMARY_DEBOUNCE_MS = 30 * 1000;
+// Thread summaries also retitle the thread, so wait for the topic to settle a little longer.
+const THREAD_SUMMARY_DEBOUNCE_MS = 2 * 60 * 1000;
+// Someone who keeps chatting still gets a fresh thread summary and title this often.
+const THREAD_SUMMARY_MAX_DELAY_MS = 10 * 60 * 1000;
+// Chat adds an entry per message; one rebuild after a burst keeps analytics current without slowing each reply.
+const AGGREGATE_DEBOUNCE_MS = 10 * 1000;
+// Analytics lag continuous chat by at most this much.
+const AGGREGATE_MAX_DELAY_MS = 60 * 1000;
+
 const getUserTimezone = async (userId: string) => {
   const doc = await settingsCollection().doc(userId).get();
   const data = doc.data() as { timezone?: string } | undefined;
   return data?.timezone || "UTC";
 };
 
-const extractTags = (text: string) => {
-  const lower = text.toLowerCase();
-  const tags: string[] = [];
-  if (lower.includes("work") || lower.includes("boss")) tags.push("work stress");
-  if (lower.includes("sleep")) tags.push("sleep");
-  if (lower.includes("family")) tags.push("family");
-  if (lower.includes("lonely") || lower.includes("alone")) tags.push("loneliness");
-  if (lower.includes("anxious") || lower.includes("anxiety")) tags.push("anxiety");
-  if (lower.includes("sad") || lower.includes("down")) tags.push("low mood");
-  return tags;
-};
-
 export const sendMessage = async (req: AuthRequest, res: Response) => {
-  const { text } = req.body as { text: string };
+  const { text, threadId } = req.body as { text: string; threadId?: string };
   const userId = req.userId as string;
-  const emotion = await classifyEmotion(text, { userId, purpose: "chat_emotion" });
-  const crisis = await detectCrisis(text, { userId: req.userId as string, purpose: "chat_crisis" });
-  const tags = extractTags(text);
   const timezone = await getUserTimezone(userId);
+  const [analysis, thread] = await Promise.all([
+    analyzeMessage(text, { userId, purpose: "chat_analysis" }),
+    resolveThread(userId, timezone, threadId),
+  ]);
+  const { emotion, crisis, tags, triggers } = analysis;
   const moodLabel = buildMoodLabel(emotion);
   const dayKey = getDayKey(new Date(), timezone);
 
@@ -44,28 +53,74 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
     sender: "user",
     text,
     tags,
+    triggers,
     emotion,
     crisis,
+    analysis: { model: analysis.model, usedFallback: analysis.usedFallback },
+    threadId: thread.id,
     dayKey,
     timezone,
     createdAt: new Date().toISOString(),
   });
+  await recordThreadMessage(thread, { sender: "user", text });
+
+  const crisisEvent = await recordCrisisSignal(userId, { messageId: doc.id, ...crisis });
 
-  await upsertDailyCheckIn(userId, timezone, {
+  const checkIn = await upsertDailyCheckIn(userId, timezone, {
     mood: emotion.primary,
     moodLabel,
     note: text,
     sentimentScore: emotion.sentimentScore,
+    source: "chat",
   });
 
-  await generateDailySummary(userId, timezone, emotion);
-
-  return res.json({ messageId: doc.id, emotion, crisis, tags });
+  // Summaries, memory extraction and analytics run on the job queue so the reply never waits on them.
+  const [summaryJob] = await Promise.all([
+    enqueueJob("chat_summary", {
+      key: `${userId}_${dayKey}`,
+      userId,
+      payload: { timezone, dayKey, latestEmotion: emotion },
+      debounceMs: SUMMARY_DEBOUNCE_MS,
+    }),
+    enqueueJob("thread_summary", {
+      key: thread.id,
+      userId,
+      payload: { threadId: thread.id },
+      debounceMs: THREAD_SUMMARY_DEBOUNCE_MS,
+      maxDelayMs: THREAD_SUMMARY_MAX_DELAY_MS,
+    }),
+    // Only the id: job documents outlive the run, and the message text belongs with the message.
+    enqueueJob("memory_extraction", { key: doc.id, userId, payload: { messageId: doc.id } }),
+    enqueueJob("search_index", { key: `message_${doc.id}`, userId, payload: { source: "message", sourceId: doc.id } }),
+    enqueueJob("aggregate_refresh", {
+      key: `${userId}_${checkIn.dayKey}`,
+      userId,
+      payload: { dayKey: checkIn.dayKey },
+      debounceMs: AGGREGATE_DEBOUNCE_MS,
+      maxDelayMs: AGGREGATE_MAX_DELAY_MS,
+    }),
+  ]);
+
+  return res.json({
+    messageId: doc.id,
+    emotion,
+    crisis,
+    tags,
+    triggers,
+    crisisEvent,
+    threadId: thread.id,
+    summaryJob: { id: summaryJob.id, status: summaryJob.status, runAt: summaryJob.runAt },
+  });
 };
 
 export const listMessages = async (req: AuthRequest, res: Response) => {
-  const { dayKey } = req.query as { dayKey?: string };
+  const { dayKey, threadId } = req.query as { dayKey?: string; threadId?: string };
   const userId = req.userId as string;
+  if (threadId) {
+    await getThread(userId, threadId);
+    return res.json({ messages: await listThreadMessages(userId, threadId) });
+  }
+
   const timezone = await getUserTimezone(userId);
   const targetDayKey = dayKey || getDayKey(new Date(), timezone);
 
@@ -93,33 +148,103 @@ export const listHistory = async (req: AuthRequest, res: Response) => {
     .where("userId", "==", userId)
     .get();
 
-  const history = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() as any }));
+  const days: DailyChatSummary[] = snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Omit<DailyChatSummary, "id">) }));
 
   // Sort in-memory: Newest day first
-  history.sort((a, b) => b.dayKey.localeCompare(a.dayKey));
+  days.sort((a, b) => b.dayKey.localeCompare(a.dayKey));
+  const recent = days.slice(0, 50);
+
+  const threads = await listThreadsForDays(userId, recent.map((day) => day.dayKey));
+  const history = recent.map((day) => {
+    // Each day stays one entry; its threads ride along so the view can drill into a topic.
+    const dayThreads = threads
+      .filter((thread) => thread.dayKey === day.dayKey)
+      .map(({ id, title, startedAt, messageCount }) => ({ id, title, startedAt, messageCount }));
+    return { ...day, threads: dayThreads };
+  });
 
-  return res.json({ history: history.slice(0, 50) });
+  return res.json({ history });
 };
 
-export const generateResponse = async (req: AuthRequest, res: Response) => {
-  const { text } = req.body as { text: string };
-  const userId = req.userId as string;
-  const recent = await messagesCollection().where("userId", "==", userId).limit(5).get();
-  const recentMessages = recent.docs.map((doc) => doc.data());
-  recentMessages.sort((a: any, b: any) => (a.createdAt < b.createdAt ? 1 : -1));
-  const context = recentMessages.map((doc: any) => doc.text).join(" ");
-  const response = await generateSupportResponse(text, context, { userId, purpose: "chat_response" });
-  const timezone = await getUserTimezone(userId);
+const saveAiMessage = async (
+  userId: string,
+  timezone: string,
+  thread: ChatThread,
+  text: string,
+  extra: Record<string, unknown> = {},
+) => {
   const dayKey = getDayKey(new Date(), timezone);
-  await messagesCollection().add({
-    userId: req.userId,
+  const doc = await messagesCollection().add({
+    userId,
     sender: "ai",
-    text: response.text,
+    text,
+    ...extra,
+    threadId: thread.id,
     dayKey,
     timezone,
     createdAt: new Date().toISOString(),
   });
-  return res.json({ response });
+  await recordThreadMessage(thread, { sender: "ai", text });
+  return doc;
+};
+
+// Only replies the guard changed carry a record of what it did.
+const guardFields = ({ guard }: { guard: GuardResult }) => (guard.action !== "none" ? { guard } : {});
+
+const streamResponse = async (req: AuthRequest, res: Response) => {
+  const { text, threadId } = req.body as { text: string; threadId?: string };
+  const userId = req.userId as string;
+  const timezone = await getUserTimezone(userId);
+  const thread = await resolveThread(userId, timezone, threadId);
+  const conversation = await buildConversationContext(userId, text, timezone, { threadId: thread.id });
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  openSseStream(res);
+
+  try {
+    const response = await streamSupportResponse(
+      conversation,
+      {
+        signal: controller.signal,
+        onToken: (token) => writeSseEvent(res, "token", { text: token }),
+      },
+      { userId, purpose: "chat_response" },
+    );
+
+    // A reply cut off by the user is still kept so the history matches what they saw.
+    const extra = {
+      ...(response.aborted ? { interrupted: true } : {}),
+      ...guardFields(response),
+    };
+    const doc = response.text && (!response.aborted || !response.usedFallback)
+      ? await saveAiMessage(userId, timezone, thread, response.text, extra)
+      : null;
+
+    writeSseEvent(res, "done", { messageId: doc?.id ?? null, threadId: thread.id, response });
+  } catch (err) {
+    writeSseEvent(res, "error", { message: err instanceof Error ? err.message : "Unknown error" });
+  }
+
+  res.end();
+};
+
+export const generateResponse = async (req: AuthRequest, res: Response) => {
+  if (wantsEventStream(req.headers.accept)) {
+    return streamResponse(req, res);
+  }
+
+  const { text, threadId } = req.body as { text: string; threadId?: string };
+  const userId = req.userId as string;
+  const timezone = await getUserTimezone(userId);
+  const thread = await resolveThread(userId, timezone, threadId);
+  const conversation = await buildConversationContext(userId, text, timezone, { threadId: thread.id });
+  const response = await generateSupportResponse(conversation, { userId, purpose: "chat_response" });
+  await saveAiMessage(userId, timezone, thread, response.text, guardFields(response));
+  return res.json({ response, threadId: thread.id });
 };
 
 export const getTodaySummary = async (req: AuthRequest, res: Response) => {
@@ -1,13 +1,22 @@
 import type { Response } from "express";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
-import { upsertDailyCheckIn, getDailyCheckIns } from "../services/checkin/checkinService.js";
+import {
+  deleteCheckInEntry,
+  getDailyCheckIns,
+  updateCheckInEntry,
+  upsertDailyCheckIn,
+} from "../services/checkin/checkinService.js";
+import type { CheckInInput } from "../services/checkin/checkinService.js";
+import { refreshDayAggregate } from "../services/analytics/aggregateService.js";
 import { classifyEmotion } from "../services/emotion/emotionEngine.js";
+import { checkInChangesSchema } from "../validators/checkinSchemas.js";
 
 export const createCheckIn = async (req: AuthRequest, res: Response) => {
-  const { mood, note, timezone, createdAt } = req.body as { mood: any; note?: string; timezone: string; createdAt?: string };
-  const emotion = note ? await classifyEmotion(note, { userId: req.userId as string, purpose: "checkin_emotion" }) : null;
+  const { timezone, ...input } = req.body as Omit<CheckInInput, "source" | "sentimentScore" | "moodLabel"> & { timezone: string };
+  const emotion = input.note ? await classifyEmotion(input.note, { userId: req.userId as string, purpose: "checkin_emotion" }) : null;
   const sentimentScore = emotion?.sentimentScore ?? 0.5;
-  const result = await upsertDailyCheckIn(req.userId as string, timezone, { mood, note, sentimentScore, createdAt });
+  const result = await upsertDailyCheckIn(req.userId as string, timezone, { ...input, sentimentScore, source: "manual" });
+  await refreshDayAggregate(req.userId as string, result.dayKey);
   return res.json({ result, emotion });
 };
 
@@ -15,3 +24,26 @@ export const listCheckIns = async (req: AuthRequest, res: Response) => {
   const checkIns = await getDailyCheckIns(req.userId as string);
   return res.json({ checkIns });
 };
+
+export const updateCheckIn = async (req: AuthRequest, res: Response) => {
+  const { dayKey, entryId } = req.params;
+  const changes = checkInChangesSchema.parse(req.body);
+  // A rewritten note needs a fresh sentiment score, just like a new check-in.
+  let sentimentScore: number | undefined;
+  if (changes.note !== undefined) {
+    const emotion = changes.note
+      ? await classifyEmotion(changes.note, { userId: req.userId as string, purpose: "checkin_emotion" })
+      : null;
+    sentimentScore = emotion?.sentimentScore ?? 0.5;
+  }
+  const result = await updateCheckInEntry(req.userId as string, dayKey, entryId, changes, sentimentScore);
+  await refreshDayAggregate(req.userId as string, dayKey);
+  return res.json({ result });
+};
+
+export const deleteCheckIn = async (req: AuthRequest, res: Response) => {
+  const { dayKey, entryId } = req.params;
+  const result = await deleteCheckInEntry(req.userId as string, dayKey, entryId);
+  await refreshDayAggregate(req.userId as string, dayKey);
+  return res.json({ result });
+};
@@ -1,38 +1,98 @@
 import type { Response } from "express";
+import { getRecommendedCopingTools } from "@sahaay/shared";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
-import { getFirestore } from "../config/firebase.js";
-import { getRecommendedCopingTools, getMoodIntensity, analyzeChatSentiment } from "../services/coping/recommendationService.js";
-import type { CopingTool, RecommendationContext } from "../services/coping/recommendationService.js";
-import { DEFAULT_COPING_TOOLS } from "../services/coping/defaultTools.js";
+import { listCopingSessions, logCopingSession, summarizeToolEffectiveness } from "../services/coping/sessionService.js";
+import type { CopingSessionInput } from "../services/coping/sessionService.js";
+import { listPublishedTools } from "../services/coping/toolCatalogService.js";
+import { loadRecommendationContext } from "../services/coping/contextService.js";
+import { createCustomTool, deleteCustomTool, listCustomTools, updateCustomTool } from "../services/coping/customToolService.js";
+import { listFavoriteToolIds, rankFavoritesFirst, setFavorite } from "../services/coping/favoriteService.js";
+import { collectEvidence, listToolFeedback, personalizeRecommendations, setToolFeedback } from "../services/coping/learningService.js";
+import type { ToolVote } from "../services/coping/learningService.js";
+import { AppError } from "../utils/appError.js";
+import { customCopingToolInputSchema } from "../validators/copingSchemas.js";
 
-const toolsCollection = () => getFirestore().collection("copingTools");
-const messagesCollection = () => getFirestore().collection("chatMessages");
-const checkinsCollection = () => getFirestore().collection("checkinsDaily");
+// The published catalog plus the tools this user made.
+const loadUserTools = async (userId: string, locale?: string) => {
+  const [published, custom] = await Promise.all([listPublishedTools(locale), listCustomTools(userId)]);
+  return [...published, ...custom];
+};
+
+const assertKnownTool = async (userId: string, toolId: string) => {
+  const tools = await loadUserTools(userId);
+  if (!tools.some((tool) => tool.id === toolId)) {
+    throw new AppError("Unknown coping tool", 400);
+  }
+};
 
 export const getRecommendations = async (req: AuthRequest, res: Response) => {
   const userId = req.userId as string;
-  const toolsSnap = await toolsCollection().get();
-  const tools = toolsSnap.empty ? DEFAULT_COPING_TOOLS : (toolsSnap.docs.map((doc) => doc.data()) as CopingTool[]);
-
-  const checkinsSnap = await checkinsCollection().where("userId", "==", userId).limit(1).get();
-  const checkins = checkinsSnap.docs.map((doc) => doc.data());
-  checkins.sort((a: any, b: any) => (a.dayKey < b.dayKey ? 1 : -1));
-  const latestCheckin = checkins[0];
-  const currentMood = latestCheckin?.lastMood ?? null;
-
-  const messagesSnap = await messagesCollection().where("userId", "==", userId).limit(5).get();
-  const messages = messagesSnap.docs.map((doc) => doc.data());
-  messages.sort((a: any, b: any) => (a.createdAt < b.createdAt ? 1 : -1));
-  const recentChatSummary = messages.map((doc: any) => doc.text).join(" ");
-  const { keywords } = analyzeChatSentiment(recentChatSummary);
-
-  const context: RecommendationContext = {
-    currentMood,
-    moodIntensity: getMoodIntensity(currentMood),
-    recentChatSummary,
-    chatKeywords: keywords,
-  };
-
-  const recommendations = getRecommendedCopingTools(tools, context);
-  return res.json({ recommendations, context });
+  const { locale, minutes } = req.query as { locale?: string; minutes?: string };
+  const [tools, sessions, feedback, favorites] = await Promise.all([
+    loadUserTools(userId, locale),
+    listCopingSessions(userId),
+    listToolFeedback(userId),
+    listFavoriteToolIds(userId),
+  ]);
+
+  const context = await loadRecommendationContext(userId, sessions, minutes ? Number(minutes) : null);
+
+  const evidence = collectEvidence(sessions, feedback);
+  const recommendations = rankFavoritesFirst(personalizeRecommendations(getRecommendedCopingTools(tools, context), evidence), favorites);
+  return res.json({ recommendations, context, personalized: Object.keys(evidence).length > 0 });
+};
+
+export const createSession = async (req: AuthRequest, res: Response) => {
+  const input = req.body as CopingSessionInput;
+  await assertKnownTool(req.userId as string, input.toolId);
+  const session = await logCopingSession(req.userId as string, {
+    toolId: input.toolId,
+    durationSeconds: input.durationSeconds,
+    completed: input.completed,
+    preMood: input.preMood,
+    postMood: input.postMood,
+    startedAt: input.startedAt,
+  });
+  return res.json({ session });
+};
+
+export const listSessions = async (req: AuthRequest, res: Response) => {
+  const sessions = await listCopingSessions(req.userId as string);
+  return res.json({ sessions: sessions.slice(0, 50), stats: summarizeToolEffectiveness(sessions) });
+};
+
+export const saveFeedback = async (req: AuthRequest, res: Response) => {
+  const { toolId, vote } = req.body as { toolId: string; vote: ToolVote | null };
+  await assertKnownTool(req.userId as string, toolId);
+  const feedback = await setToolFeedback(req.userId as string, toolId, vote);
+  return res.json({ feedback });
+};
+
+export const saveFavorite = async (req: AuthRequest, res: Response) => {
+  const { toolId, favorite } = req.body as { toolId: string; favorite: boolean };
+  // Un-favoriting skips the check so a tool that has since been removed can still be cleared.
+  if (favorite) await assertKnownTool(req.userId as string, toolId);
+  const saved = await setFavorite(req.userId as string, toolId, favorite);
+  return res.json({ toolId, favorite: saved });
+};
+
+export const listUserCustomTools = async (req: AuthRequest, res: Response) => {
+  const tools = await listCustomTools(req.userId as string);
+  return res.json({ tools });
+};
+
+// validate() has already checked the body; parsing again drops unknown fields and applies defaults.
+export const createUserCustomTool = async (req: AuthRequest, res: Response) => {
+  const tool = await createCustomTool(req.userId as string, customCopingToolInputSchema.parse(req.body));
+  return res.json({ tool });
+};
+
+export const updateUserCustomTool = async (req: AuthRequest, res: Response) => {
+  const tool = await updateCustomTool(req.userId as string, req.params.id, customCopingToolInputSchema.parse(req.body));
+  return res.json({ tool });
+};
+
+export const deleteUserCustomTool = async (req: AuthRequest, res: Response) => {
+  await deleteCustomTool(req.userId as string, req.params.id);
+  return res.json({ ok: true });
 };
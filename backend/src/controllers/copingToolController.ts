@@ -0,0 +1,50 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import {
+  createTool,
+  deleteTool,
+  getToolRecord,
+  listToolRecords,
+  publishTool,
+  saveToolDraft,
+  toolStatus,
+  unpublishTool,
+} from "../services/coping/toolCatalogService.js";
+import { copingToolContentSchema } from "../validators/copingSchemas.js";
+
+export const listCopingTools = async (_req: AuthRequest, res: Response) => {
+  const tools = await listToolRecords();
+  return res.json({ tools });
+};
+
+export const getCopingTool = async (req: AuthRequest, res: Response) => {
+  const record = await getToolRecord(req.params.id);
+  return res.json({ tool: { ...record, status: toolStatus(record) } });
+};
+
+// validate() has already checked the body; parsing again drops unknown fields and applies defaults.
+export const createCopingTool = async (req: AuthRequest, res: Response) => {
+  const { id, ...content } = req.body as { id: string };
+  const tool = await createTool(id, copingToolContentSchema.parse(content));
+  return res.json({ tool });
+};
+
+export const updateCopingTool = async (req: AuthRequest, res: Response) => {
+  const tool = await saveToolDraft(req.params.id, copingToolContentSchema.parse(req.body));
+  return res.json({ tool });
+};
+
+export const publishCopingTool = async (req: AuthRequest, res: Response) => {
+  const tool = await publishTool(req.params.id);
+  return res.json({ tool });
+};
+
+export const unpublishCopingTool = async (req: AuthRequest, res: Response) => {
+  const tool = await unpublishTool(req.params.id);
+  return res.json({ tool });
+};
+
+export const deleteCopingTool = async (req: AuthRequest, res: Response) => {
+  await deleteTool(req.params.id);
+  return res.json({ ok: true });
+};
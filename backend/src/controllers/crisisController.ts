@@ -0,0 +1,19 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { getActiveCrisisEvent, listCrisisEvents, resolveCrisisEvent } from "../services/crisis/crisisEventService.js";
+
+export const getActiveEvent = async (req: AuthRequest, res: Response) => {
+  const event = await getActiveCrisisEvent(req.userId as string);
+  return res.json({ event });
+};
+
+export const listEvents = async (req: AuthRequest, res: Response) => {
+  const events = await listCrisisEvents(req.userId as string);
+  return res.json({ events });
+};
+
+export const resolveEvent = async (req: AuthRequest, res: Response) => {
+  const { note } = req.body as { note?: string };
+  const event = await resolveCrisisEvent(req.userId as string, req.params.id, note);
+  return res.json({ event });
+};
@@ -0,0 +1,13 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { dismissWarning, listActiveWarnings } from "../services/analytics/earlyWarningService.js";
+
+export const listWarnings = async (req: AuthRequest, res: Response) => {
+  const warnings = await listActiveWarnings(req.userId as string);
+  return res.json({ warnings });
+};
+
+export const dismiss = async (req: AuthRequest, res: Response) => {
+  await dismissWarning(req.userId as string, req.params.id);
+  return res.json({ ok: true });
+};
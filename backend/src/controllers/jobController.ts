@@ -0,0 +1,13 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { getJobForUser, listJobsForUser } from "../services/jobs/jobQueue.js";
+
+export const listJobs = async (req: AuthRequest, res: Response) => {
+  const jobs = await listJobsForUser(req.userId as string);
+  return res.json({ jobs });
+};
+
+export const getJob = async (req: AuthRequest, res: Response) => {
+  const job = await getJobForUser(req.userId as string, req.params.id);
+  return res.json({ job });
+};
@@ -1,6 +1,7 @@
 import type { Response } from "express";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
 import { createJournalEntry, listJournalEntries } from "../services/journal/journalService.js";
+import { enqueueJob } from "../services/jobs/jobQueue.js";
 
 export const listJournals = async (req: AuthRequest, res: Response) => {
   const entries = await listJournalEntries(req.userId as string);
@@ -10,5 +11,10 @@ export const listJournals = async (req: AuthRequest, res: Response) => {
 export const createJournal = async (req: AuthRequest, res: Response) => {
   const { prompt, entry, createdAt } = req.body as { prompt: string; entry: string; createdAt?: string };
   const created = await createJournalEntry(req.userId as string, { prompt, entry, createdAt });
+  await enqueueJob("search_index", {
+    key: `journal_${created.id}`,
+    userId: req.userId as string,
+    payload: { source: "journal", sourceId: created.id },
+  });
   return res.json({ entry: created });
 };
@@ -0,0 +1,31 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { clearMemories, createMemory, deleteMemory, listMemories, updateMemory } from "../services/memory/memoryService.js";
+import type { MemoryCategory } from "../services/memory/memoryService.js";
+
+export const listMemoryItems = async (req: AuthRequest, res: Response) => {
+  const memories = await listMemories(req.userId as string);
+  return res.json({ memories });
+};
+
+export const createMemoryItem = async (req: AuthRequest, res: Response) => {
+  const { text, category } = req.body as { text: string; category?: MemoryCategory };
+  const memory = await createMemory(req.userId as string, { text, category });
+  return res.json({ memory });
+};
+
+export const updateMemoryItem = async (req: AuthRequest, res: Response) => {
+  const { text, category } = req.body as { text?: string; category?: MemoryCategory };
+  const memory = await updateMemory(req.userId as string, req.params.id, { text, category });
+  return res.json({ memory });
+};
+
+export const deleteMemoryItem = async (req: AuthRequest, res: Response) => {
+  await deleteMemory(req.userId as string, req.params.id);
+  return res.json({ ok: true });
+};
+
+export const clearMemoryItems = async (req: AuthRequest, res: Response) => {
+  await clearMemories(req.userId as string);
+  return res.json({ ok: true });
+};
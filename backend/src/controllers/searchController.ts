@@ -0,0 +1,27 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { enqueueJob } from "../services/jobs/jobQueue.js";
+import { getSearchIndexState, searchUserContent } from "../services/search/searchService.js";
+import type { SearchSource } from "../services/search/searchService.js";
+
+export const search = async (req: AuthRequest, res: Response) => {
+  const userId = req.userId as string;
+  const { q, from, to, emotion, source, sort, limit } = req.query as Record<string, string | undefined>;
+
+  // History from before search existed is indexed once in the background; results fill in as it runs.
+  const state = await getSearchIndexState(userId);
+  if (!state) {
+    await enqueueJob("search_backfill", { key: userId, userId, payload: {} });
+  }
+
+  const results = await searchUserContent(userId, {
+    query: q as string,
+    from,
+    to,
+    emotion,
+    sources: source ? (source.split(",") as SearchSource[]) : undefined,
+    sort: sort as "relevance" | "recent" | undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+  return res.json({ results, indexing: !state });
+};
@@ -0,0 +1,33 @@
+import type { Response } from "express";
+import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { getFirestore } from "../config/firebase.js";
+import { createThread, getThread, listThreads, updateThread } from "../services/chat/threadService.js";
+
+const getUserTimezone = async (userId: string) => {
+  const doc = await getFirestore().collection("settings").doc(userId).get();
+  return (doc.data() as { timezone?: string } | undefined)?.timezone || "UTC";
+};
+
+export const listChatThreads = async (req: AuthRequest, res: Response) => {
+  const { dayKey } = req.query as { dayKey?: string };
+  const threads = await listThreads(req.userId as string, { dayKey });
+  return res.json({ threads });
+};
+
+export const getChatThread = async (req: AuthRequest, res: Response) => {
+  const thread = await getThread(req.userId as string, req.params.id);
+  return res.json({ thread });
+};
+
+export const createChatThread = async (req: AuthRequest, res: Response) => {
+  const { title } = req.body as { title?: string };
+  const userId = req.userId as string;
+  const thread = await createThread(userId, await getUserTimezone(userId), title);
+  return res.json({ thread });
+};
+
+export const updateChatThread = async (req: AuthRequest, res: Response) => {
+  const { title, status } = req.body as { title?: string; status?: "ended" };
+  const thread = await updateThread(req.userId as string, req.params.id, { title, status });
+  return res.json({ thread });
+};
@@ -1,6 +1,7 @@
 import type { Response } from "express";
 import { getFirestore } from "../config/firebase.js";
 import type { AuthRequest } from "../middlewares/authMiddleware.js";
+import { forgetUserIndex } from "../services/search/vectorIndex.js";
 
 const profilesCollection = () => getFirestore().collection("profiles");
 const settingsCollection = () => getFirestore().collection("settings");
@@ -29,13 +30,14 @@ export const updateSettings = async (req: AuthRequest, res: Response) => {
 
 export const exportUserData = async (req: AuthRequest, res: Response) => {
   const userId = req.userId as string;
-  const [profileDoc, settingsDoc, weeklyDoc, safetyDoc, checkinsSnap, journalsSnap] = await Promise.all([
+  const [profileDoc, settingsDoc, weeklyDoc, safetyDoc, checkinsSnap, journalsSnap, customToolsSnap] = await Promise.all([
     profilesCollection().doc(userId).get(),
     settingsCollection().doc(userId).get(),
     getFirestore().collection("weeklyGoals").doc(userId).get(),
     getFirestore().collection("safetyPlans").doc(userId).get(),
     getFirestore().collection("checkinsDaily").where("userId", "==", userId).get(),
     getFirestore().collection("journals").where("userId", "==", userId).get(),
+    getFirestore().collection("customCopingTools").where("userId", "==", userId).get(),
   ]);
 
   return res.json({
@@ -45,6 +47,7 @@ export const exportUserData = async (req: AuthRequest, res: Response) => {
     safetyPlan: safetyDoc.data() ?? null,
     checkins: checkinsSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
     journals: journalsSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
+    customCopingTools: customToolsSnap.docs.map((doc) => ({ id: doc.id, ...doc.data() })),
   });
 };
 
@@ -64,15 +67,34 @@ export const deleteUserData = async (req: AuthRequest, res: Response) => {
     getFirestore().collection("weeklyGoals").doc(userId).delete(),
     getFirestore().collection("safetyPlans").doc(userId).delete(),
     getFirestore().collection("reminders").doc(userId).delete(),
+    getFirestore().collection("searchIndexState").doc(userId).delete(),
+    getFirestore().collection("analyticsState").doc(userId).delete(),
+    getFirestore().collection("earlyWarningState").doc(userId).delete(),
   ]);
 
   await Promise.all([
     deleteByQuery("journals", userId),
     deleteByQuery("checkinsDaily", userId),
     deleteByQuery("chatMessages", userId),
+    deleteByQuery("chatThreads", userId),
     deleteByQuery("notificationSubscriptions", userId),
     deleteByQuery("reports", userId),
+    deleteByQuery("crisisEvents", userId),
+    deleteByQuery("chatMemories", userId),
+    deleteByQuery("responseGuardEvents", userId),
+    deleteByQuery("jobs", userId),
+    deleteByQuery("searchIndex", userId),
+    deleteByQuery("assessments", userId),
+    deleteByQuery("assessmentReminders", userId),
+    deleteByQuery("analyticsDaily", userId),
+    deleteByQuery("analyticsWeekly", userId),
+    deleteByQuery("earlyWarnings", userId),
+    deleteByQuery("copingSessions", userId),
+    deleteByQuery("copingFeedback", userId),
+    deleteByQuery("copingFavorites", userId),
+    deleteByQuery("customCopingTools", userId),
   ]);
+  forgetUserIndex(userId);
 
   return res.json({ ok: true });
 };
@@ -1,5 +1,15 @@
 import { Router } from "express";
 import { adminDashboard, adminLogin, adminLoginForm } from "../controllers/adminController.js";
+import {
+  adminCopingToolCreate,
+  adminCopingToolDelete,
+  adminCopingToolEditForm,
+  adminCopingToolList,
+  adminCopingToolNewForm,
+  adminCopingToolPublish,
+  adminCopingToolSave,
+  adminCopingToolUnpublish,
+} from "../controllers/adminCopingToolController.js";
 import { requireAuth } from "../middlewares/authMiddleware.js";
 import { requireAdmin } from "../middlewares/adminMiddleware.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
@@ -9,3 +19,11 @@ export const adminRoutes = Router();
 adminRoutes.get("/login", asyncHandler(adminLoginForm));
 adminRoutes.post("/login", asyncHandler(adminLogin));
 adminRoutes.get("/", requireAuth, requireAdmin, asyncHandler(adminDashboard));
+adminRoutes.get("/coping-tools", requireAuth, requireAdmin, asyncHandler(adminCopingToolList));
+adminRoutes.post("/coping-tools", requireAuth, requireAdmin, asyncHandler(adminCopingToolCreate));
+adminRoutes.get("/coping-tools/new", requireAuth, requireAdmin, asyncHandler(adminCopingToolNewForm));
+adminRoutes.get("/coping-tools/:id", requireAuth, requireAdmin, asyncHandler(adminCopingToolEditForm));
+adminRoutes.post("/coping-tools/:id", requireAuth, requireAdmin, asyncHandler(adminCopingToolSave));
+adminRoutes.post("/coping-tools/:id/publish", requireAuth, requireAdmin, asyncHandler(adminCopingToolPublish));
+adminRoutes.post("/coping-tools/:id/unpublish", requireAuth, requireAdmin, asyncHandler(adminCopingToolUnpublish));
+adminRoutes.post("/coping-tools/:id/delete", requireAuth, requireAdmin, asyncHandler(adminCopingToolDelete));
@@ -1,8 +1,11 @@
 import { Router } from "express";
-import { getAnalytics } from "../controllers/analyticsController.js";
+import { getAnalytics, getInsights } from "../controllers/analyticsController.js";
 import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { analyticsSchema, insightsSchema } from "../validators/analyticsSchemas.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
 
 export const analyticsRoutes = Router();
 
-analyticsRoutes.get("/", requireAuth, asyncHandler(getAnalytics));
+analyticsRoutes.get("/", requireAuth, validate(analyticsSchema), asyncHandler(getAnalytics));
+analyticsRoutes.get("/insights", requireAuth, validate(insightsSchema), asyncHandler(getInsights));
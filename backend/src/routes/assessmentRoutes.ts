@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { createAssessment, listAssessmentHistory, listQuestionnaires } from "../controllers/assessmentController.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { listAssessmentsSchema, submitAssessmentSchema } from "../validators/assessmentSchemas.js";
+
+export const assessmentRoutes = Router();
+
+assessmentRoutes.get("/questionnaires", requireAuth, asyncHandler(listQuestionnaires));
+assessmentRoutes.get("/", requireAuth, validate(listAssessmentsSchema), asyncHandler(listAssessmentHistory));
+assessmentRoutes.post("/", requireAuth, validate(submitAssessmentSchema), asyncHandler(createAssessment));
@@ -3,12 +3,36 @@ import { sendMessage, listMessages, generateResponse, getTodaySummary, listHisto
 import { requireAuth } from "../middlewares/authMiddleware.js";
 import { validate } from "../middlewares/validate.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
-import { sendMessageSchema } from "../validators/chatSchemas.js";
+import {
+  createThreadSchema,
+  listMessagesSchema,
+  listThreadsSchema,
+  sendMessageSchema,
+  updateThreadSchema,
+} from "../validators/chatSchemas.js";
+import { createChatThread, getChatThread, listChatThreads, updateChatThread } from "../controllers/threadController.js";
+import {
+  clearMemoryItems,
+  createMemoryItem,
+  deleteMemoryItem,
+  listMemoryItems,
+  updateMemoryItem,
+} from "../controllers/memoryController.js";
+import { createMemorySchema, updateMemorySchema } from "../validators/memorySchemas.js";
 
 export const chatRoutes = Router();
 
-chatRoutes.get("/", requireAuth, asyncHandler(listMessages));
+chatRoutes.get("/", requireAuth, validate(listMessagesSchema), asyncHandler(listMessages));
 chatRoutes.get("/history", requireAuth, asyncHandler(listHistory));
 chatRoutes.get("/summary/today", requireAuth, asyncHandler(getTodaySummary));
 chatRoutes.post("/", requireAuth, validate(sendMessageSchema), asyncHandler(sendMessage));
 chatRoutes.post("/respond", requireAuth, validate(sendMessageSchema), asyncHandler(generateResponse));
+chatRoutes.get("/memory", requireAuth, asyncHandler(listMemoryItems));
+chatRoutes.post("/memory", requireAuth, validate(createMemorySchema), asyncHandler(createMemoryItem));
+chatRoutes.put("/memory/:id", requireAuth, validate(updateMemorySchema), asyncHandler(updateMemoryItem));
+chatRoutes.delete("/memory/:id", requireAuth, asyncHandler(deleteMemoryItem));
+chatRoutes.delete("/memory", requireAuth, asyncHandler(clearMemoryItems));
+chatRoutes.get("/threads", requireAuth, validate(listThreadsSchema), asyncHandler(listChatThreads));
+chatRoutes.post("/threads", requireAuth, validate(createThreadSchema), asyncHandler(createChatThread));
+chatRoutes.get("/threads/:id", requireAuth, asyncHandler(getChatThread));
+chatRoutes.patch("/threads/:id", requireAuth, validate(updateThreadSchema), asyncHandler(updateChatThread));
@@ -1,11 +1,13 @@
 import { Router } from "express";
-import { createCheckIn, listCheckIns } from "../controllers/checkinController.js";
+import { createCheckIn, deleteCheckIn, listCheckIns, updateCheckIn } from "../controllers/checkinController.js";
 import { requireAuth } from "../middlewares/authMiddleware.js";
 import { validate } from "../middlewares/validate.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
-import { createCheckInSchema } from "../validators/checkinSchemas.js";
+import { createCheckInSchema, deleteCheckInSchema, updateCheckInSchema } from "../validators/checkinSchemas.js";
 
 export const checkinRoutes = Router();
 
 checkinRoutes.get("/", requireAuth, asyncHandler(listCheckIns));
 checkinRoutes.post("/", requireAuth, validate(createCheckInSchema), asyncHandler(createCheckIn));
+checkinRoutes.put("/:dayKey/entries/:entryId", requireAuth, validate(updateCheckInSchema), asyncHandler(updateCheckIn));
+checkinRoutes.delete("/:dayKey/entries/:entryId", requireAuth, validate(deleteCheckInSchema), asyncHandler(deleteCheckIn));
@@ -1,8 +1,36 @@
 import { Router } from "express";
-import { getRecommendations } from "../controllers/copingController.js";
+import {
+  createSession,
+  createUserCustomTool,
+  deleteUserCustomTool,
+  getRecommendations,
+  listSessions,
+  listUserCustomTools,
+  saveFavorite,
+  saveFeedback,
+  updateUserCustomTool,
+} from "../controllers/copingController.js";
 import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
 import { asyncHandler } from "../utils/asyncHandler.js";
+import {
+  createCustomToolSchema,
+  customToolIdSchema,
+  favoriteToolSchema,
+  logCopingSessionSchema,
+  recommendationsSchema,
+  toolFeedbackSchema,
+  updateCustomToolSchema,
+} from "../validators/copingSchemas.js";
 
 export const copingRoutes = Router();
 
-copingRoutes.get("/recommendations", requireAuth, asyncHandler(getRecommendations));
+copingRoutes.get("/recommendations", requireAuth, validate(recommendationsSchema), asyncHandler(getRecommendations));
+copingRoutes.get("/sessions", requireAuth, asyncHandler(listSessions));
+copingRoutes.post("/sessions", requireAuth, validate(logCopingSessionSchema), asyncHandler(createSession));
+copingRoutes.post("/feedback", requireAuth, validate(toolFeedbackSchema), asyncHandler(saveFeedback));
+copingRoutes.post("/favorites", requireAuth, validate(favoriteToolSchema), asyncHandler(saveFavorite));
+copingRoutes.get("/custom-tools", requireAuth, asyncHandler(listUserCustomTools));
+copingRoutes.post("/custom-tools", requireAuth, validate(createCustomToolSchema), asyncHandler(createUserCustomTool));
+copingRoutes.put("/custom-tools/:id", requireAuth, validate(updateCustomToolSchema), asyncHandler(updateUserCustomTool));
+copingRoutes.delete("/custom-tools/:id", requireAuth, validate(customToolIdSchema), asyncHandler(deleteUserCustomTool));
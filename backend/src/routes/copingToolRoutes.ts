@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  createCopingTool,
+  deleteCopingTool,
+  getCopingTool,
+  listCopingTools,
+  publishCopingTool,
+  unpublishCopingTool,
+  updateCopingTool,
+} from "../controllers/copingToolController.js";
+import { requireAdmin } from "../middlewares/adminMiddleware.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { copingToolIdSchema, createCopingToolSchema, updateCopingToolSchema } from "../validators/copingSchemas.js";
+
+export const copingToolRoutes = Router();
+
+copingToolRoutes.get("/", requireAuth, requireAdmin, asyncHandler(listCopingTools));
+copingToolRoutes.post("/", requireAuth, requireAdmin, validate(createCopingToolSchema), asyncHandler(createCopingTool));
+copingToolRoutes.get("/:id", requireAuth, requireAdmin, validate(copingToolIdSchema), asyncHandler(getCopingTool));
+copingToolRoutes.put("/:id", requireAuth, requireAdmin, validate(updateCopingToolSchema), asyncHandler(updateCopingTool));
+copingToolRoutes.post("/:id/publish", requireAuth, requireAdmin, validate(copingToolIdSchema), asyncHandler(publishCopingTool));
+copingToolRoutes.post("/:id/unpublish", requireAuth, requireAdmin, validate(copingToolIdSchema), asyncHandler(unpublishCopingTool));
+copingToolRoutes.delete("/:id", requireAuth, requireAdmin, validate(copingToolIdSchema), asyncHandler(deleteCopingTool));
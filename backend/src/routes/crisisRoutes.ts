@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { getActiveEvent, listEvents, resolveEvent } from "../controllers/crisisController.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { resolveCrisisSchema } from "../validators/crisisSchemas.js";
+
+export const crisisRoutes = Router();
+
+crisisRoutes.get("/", requireAuth, asyncHandler(listEvents));
+crisisRoutes.get("/active", requireAuth, asyncHandler(getActiveEvent));
+crisisRoutes.post("/:id/resolve", requireAuth, validate(resolveCrisisSchema), asyncHandler(resolveEvent));
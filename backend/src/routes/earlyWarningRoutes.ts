@@ -0,0 +1,11 @@
+import { Router } from "express";
+import { dismiss, listWarnings } from "../controllers/earlyWarningController.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { dismissWarningSchema } from "../validators/earlyWarningSchemas.js";
+
+export const earlyWarningRoutes = Router();
+
+earlyWarningRoutes.get("/", requireAuth, asyncHandler(listWarnings));
+earlyWarningRoutes.post("/:id/dismiss", requireAuth, validate(dismissWarningSchema), asyncHandler(dismiss));
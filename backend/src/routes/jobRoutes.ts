@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getJob, listJobs } from "../controllers/jobController.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+export const jobRoutes = Router();
+
+jobRoutes.get("/", requireAuth, asyncHandler(listJobs));
+jobRoutes.get("/:id", requireAuth, asyncHandler(getJob));
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { search } from "../controllers/searchController.js";
+import { requireAuth } from "../middlewares/authMiddleware.js";
+import { validate } from "../middlewares/validate.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+import { searchSchema } from "../validators/searchSchemas.js";
+
+export const searchRoutes = Router();
+
+searchRoutes.get("/", requireAuth, validate(searchSchema), asyncHandler(search));
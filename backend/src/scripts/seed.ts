@@ -1,5 +1,4 @@
 import { getFirestore } from "../config/firebase.js";
-import { DEFAULT_COPING_TOOLS } from "../services/coping/defaultTools.js";
 
 const communitySeed = [
   {
@@ -48,19 +47,6 @@ const communitySeed = [
   },
 ];
 
-const seedCopingTools = async () => {
-  const db = getFirestore();
-  const batch = db.batch();
-  const collection = db.collection("copingTools");
-
-  DEFAULT_COPING_TOOLS.forEach((tool) => {
-    const docRef = collection.doc(tool.id);
-    batch.set(docRef, tool, { merge: true });
-  });
-
-  await batch.commit();
-};
-
 const seedCommunityPosts = async () => {
   const db = getFirestore();
   const batch = db.batch();
@@ -83,7 +69,6 @@ const seedCommunityPosts = async () => {
 };
 
 const run = async () => {
-  await seedCopingTools();
   await seedCommunityPosts();
   const db = getFirestore();
   await db.collection("appConfig").doc("helplines").set({
@@ -92,6 +77,8 @@ const run = async () => {
       { name: "Vandrevala Foundation", number: "1860-2662-345" },
     ],
   });
+  // Only overrides go here; anything omitted falls back to the defaults in responseGuardService.
+  await db.collection("appConfig").doc("responseGuard").set({ enabled: true, categories: {} }, { merge: true });
   console.log("Seed completed");
 };
 
@@ -1,49 +1,70 @@
-import { openaiClient } from "./openaiClient.js";
+import { getPurposeConfig } from "../../config/ai.js";
+import { getProvider } from "./providers/index.js";
+import type { LlmMessage, LlmUsage } from "./providers/index.js";
 import { logOpenAiUsage } from "./openaiUsageService.js";
-
-const FALLBACK_MODELS = ["gpt-4.1-mini", "gpt-4o-mini", "gpt-3.5-turbo"] as const;
+import { createStreamRestorer, loadRedactor, redactMessages } from "./redaction.js";
 
 const isRetryable = (err: unknown) => {
-  const anyErr = err as { status?: number; code?: string; message?: string };
+  const anyErr = err as { status?: number; code?: string; message?: string; name?: string };
   const status = anyErr?.status ?? 0;
   if (status === 429 || status === 408 || status === 500 || status === 502 || status === 503 || status === 504) {
     return true;
   }
-  if (anyErr?.code && ["rate_limit_exceeded", "insufficient_quota", "ETIMEDOUT", "ENOTFOUND"].includes(anyErr.code)) {
+  if (anyErr?.code && ["rate_limit_exceeded", "insufficient_quota", "ETIMEDOUT", "ENOTFOUND", "ECONNREFUSED"].includes(anyErr.code)) {
+    return true;
+  }
+  if (anyErr?.name === "APIConnectionTimeoutError" || anyErr?.name === "APIConnectionError") {
     return true;
   }
   return false;
 };
 
+const logUsage = async (
+  usage: LlmUsage | null,
+  target: { provider: string; model: string },
+  meta?: { userId?: string; purpose?: string },
+) => {
+  // Mock completions cost nothing and should not pollute the usage log.
+  if (!usage || !meta?.purpose || target.provider === "mock") return;
+  await logOpenAiUsage({
+    userId: meta.userId,
+    purpose: meta.purpose,
+    provider: target.provider,
+    model: target.model,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    createdAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Completes a prompt against the purpose's model chain. Personal details are
+ * masked before the prompt leaves the server and restored in the reply.
+ */
 export const runWithFallback = async (
-  messages: Array<{ role: "system" | "user"; content: string }>,
+  messages: LlmMessage[],
   responseFormat?: { type: "json_object" },
   meta?: { userId?: string; purpose?: string },
 ) => {
+  const config = getPurposeConfig(meta?.purpose);
+  const redactor = await loadRedactor(meta?.userId);
+  const redacted = redactMessages(redactor, messages);
   let lastError: unknown = null;
 
-  for (const model of FALLBACK_MODELS) {
+  for (const target of config.chain) {
     try {
-      const response = await openaiClient.chat.completions.create({
-        model,
-        messages,
-        temperature: 0.2,
-        response_format: responseFormat,
+      const response = await getProvider(target.provider).complete({
+        model: target.model,
+        messages: redacted,
+        temperature: config.temperature,
+        timeoutMs: config.timeoutMs,
+        responseFormat,
+        purpose: meta?.purpose,
       });
-      const content = response.choices[0]?.message?.content ?? "";
-      if (content) {
-        if (response.usage && meta?.purpose) {
-          await logOpenAiUsage({
-            userId: meta.userId,
-            purpose: meta.purpose,
-            model,
-            promptTokens: response.usage.prompt_tokens,
-            completionTokens: response.usage.completion_tokens,
-            totalTokens: response.usage.total_tokens,
-            createdAt: new Date().toISOString(),
-          });
-        }
-        return { content, model, error: null, usage: response.usage };
+      if (response.content) {
+        await logUsage(response.usage, target, meta);
+        return { content: redactor.restore(response.content), model: target.model, error: null, usage: response.usage };
       }
     } catch (err) {
       lastError = err;
@@ -56,6 +77,71 @@ export const runWithFallback = async (
   return { content: "", model: null, error: lastError };
 };
 
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onToken: (token: string) => void;
+}
+
+/**
+ * Streams a completion token by token. A model is only abandoned for the next
+ * one in the purpose's chain while nothing has been emitted yet; once tokens
+ * have reached the caller, a failure ends the stream with whatever was produced.
+ * Prompts are redacted the same way as runWithFallback.
+ */
+export const streamWithFallback = async (
+  messages: LlmMessage[],
+  options: StreamOptions,
+  meta?: { userId?: string; purpose?: string },
+) => {
+  const config = getPurposeConfig(meta?.purpose);
+  const redactor = await loadRedactor(meta?.userId);
+  const redacted = redactMessages(redactor, messages);
+  let lastError: unknown = null;
+
+  for (const target of config.chain) {
+    let content = "";
+    const restorer = createStreamRestorer(redactor, options.onToken);
+    try {
+      const response = await getProvider(target.provider).stream(
+        {
+          model: target.model,
+          messages: redacted,
+          temperature: config.temperature,
+          timeoutMs: config.timeoutMs,
+          purpose: meta?.purpose,
+          signal: options.signal,
+        },
+        (token) => {
+          content += token;
+          restorer.push(token);
+        },
+      );
+      restorer.flush();
+
+      if (content) {
+        await logUsage(response.usage, target, meta);
+        return { content: redactor.restore(content), model: target.model, error: null, aborted: false };
+      }
+    } catch (err) {
+      lastError = err;
+      if (content || options.signal?.aborted) {
+        restorer.flush();
+        return {
+          content: redactor.restore(content),
+          model: target.model,
+          error: err,
+          aborted: Boolean(options.signal?.aborted),
+        };
+      }
+      if (!isRetryable(err)) {
+        break;
+      }
+    }
+  }
+
+  return { content: "", model: null, error: lastError, aborted: Boolean(options.signal?.aborted) };
+};
+
 export const safeDefaultResponse = (fallbackText: string) => {
   return {
     text: fallbackText,
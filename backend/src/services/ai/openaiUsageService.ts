@@ -3,6 +3,7 @@ import { getFirestore } from "../../config/firebase.js";
 export interface OpenAiUsageLog {
   userId?: string;
   purpose: string;
+  provider?: string;
   model: string;
   promptTokens?: number;
   completionTokens?: number;
@@ -0,0 +1,40 @@
+import { env } from "../../../config/env.js";
+import { createMockProvider } from "./mockProvider.js";
+import { createOpenAiProvider } from "./openaiProvider.js";
+import type { LlmProvider, LlmProviderName } from "./types.js";
+
+const providers = new Map<LlmProviderName, LlmProvider>();
+
+const createProvider = (name: LlmProviderName): LlmProvider => {
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is required for the openai provider");
+      }
+      return createOpenAiProvider({
+        name,
+        apiKey: env.OPENAI_API_KEY,
+        organization: env.OPENAI_ORG_ID,
+        project: env.OPENAI_PROJECT_ID,
+      });
+    case "local":
+      return createOpenAiProvider({
+        name,
+        apiKey: env.LOCAL_LLM_API_KEY || "local",
+        baseURL: env.LOCAL_LLM_BASE_URL,
+      });
+    case "mock":
+      return createMockProvider();
+  }
+};
+
+export const getProvider = (name: LlmProviderName) => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+export type { LlmCompletion, LlmMessage, LlmProvider, LlmProviderName, LlmRequest, LlmUsage } from "./types.js";
@@ -0,0 +1,71 @@
+import type { LlmProvider, LlmRequest } from "./types.js";
+
+const MOCK_JSON_RESPONSES: Record<string, unknown> = {
+  chat_analysis: {
+    emotion: { primary: "neutral", secondary: [], confidence: 0.8, sentimentScore: 0.5 },
+    crisis: { severity: "none", rationale: "Mock provider" },
+    topics: [],
+    triggers: [],
+  },
+  chat_emotion: { primary: "neutral", secondary: [], confidence: 0.8, sentimentScore: 0.5 },
+  checkin_emotion: { primary: "neutral", secondary: [], confidence: 0.8, sentimentScore: 0.5 },
+  chat_crisis: { severity: "none", rationale: "Mock provider" },
+  chat_memory: { facts: [] },
+  chat_daily_summary: {
+    summary: "You shared some thoughts with me today. It's great that you're checking in with yourself.",
+    topEmotions: ["neutral"],
+  },
+  chat_thread_summary: {
+    title: "A quick check-in",
+    summary: "You talked through what was on your mind. Thank you for sharing it with me.",
+    topEmotions: ["neutral"],
+  },
+};
+
+const lastUserMessage = (request: LlmRequest) => {
+  const user = [...request.messages].reverse().find((message) => message.role === "user");
+  return user?.content.split("\n")[0]?.trim() ?? "";
+};
+
+const buildContent = (request: LlmRequest) => {
+  if (request.responseFormat?.type === "json_object") {
+    return JSON.stringify(MOCK_JSON_RESPONSES[request.purpose ?? ""] ?? {});
+  }
+  const said = lastUserMessage(request);
+  return said
+    ? `I hear you: "${said.slice(0, 120)}". I am here with you. What feels most important right now?`
+    : "I am here with you. What feels most important right now?";
+};
+
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Deterministic, network-free provider for local development and tests.
+ * The same request always produces the same reply.
+ */
+export const createMockProvider = (): LlmProvider => {
+  const complete = async (request: LlmRequest) => {
+    const content = buildContent(request);
+    const promptTokens = countTokens(request.messages.map((message) => message.content).join(" "));
+    const completionTokens = countTokens(content);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  };
+
+  return {
+    name: "mock",
+    complete,
+    stream: async (request, onToken) => {
+      const result = await complete(request);
+      for (const token of result.content.match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) {
+          throw new Error("Request was aborted.");
+        }
+        onToken(token);
+      }
+      return result;
+    },
+  };
+};
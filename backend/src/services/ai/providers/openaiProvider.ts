@@ -0,0 +1,75 @@
+import OpenAI from "openai";
+import type { LlmProvider, LlmProviderName, LlmUsage } from "./types.js";
+
+interface OpenAiProviderOptions {
+  name: LlmProviderName;
+  apiKey: string;
+  baseURL?: string;
+  organization?: string;
+  project?: string;
+}
+
+const toUsage = (usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null): LlmUsage | null => {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+};
+
+/**
+ * Works for the hosted OpenAI API and for any server speaking the same
+ * chat-completions protocol (Ollama, LM Studio, vLLM) via `baseURL`.
+ */
+export const createOpenAiProvider = (options: OpenAiProviderOptions): LlmProvider => {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    organization: options.organization,
+    project: options.project,
+  });
+
+  return {
+    name: options.name,
+    complete: async (request) => {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          response_format: request.responseFormat,
+        },
+        { timeout: request.timeoutMs, maxRetries: 0, signal: request.signal },
+      );
+      return {
+        content: response.choices[0]?.message?.content ?? "",
+        usage: toUsage(response.usage),
+      };
+    },
+    stream: async (request, onToken) => {
+      const stream = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { timeout: request.timeoutMs, maxRetries: 0, signal: request.signal },
+      );
+
+      let content = "";
+      let usage: LlmUsage | null = null;
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content ?? "";
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        if (chunk.usage) usage = toUsage(chunk.usage);
+      }
+      return { content, usage };
+    },
+  };
+};
@@ -0,0 +1,34 @@
+export type LlmProviderName = "openai" | "local" | "mock";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  timeoutMs: number;
+  responseFormat?: { type: "json_object" };
+  purpose?: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+  content: string;
+  usage: LlmUsage | null;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  complete: (request: LlmRequest) => Promise<LlmCompletion>;
+  /** Emits tokens through `onToken` and resolves with the full text once the stream ends. */
+  stream: (request: LlmRequest, onToken: (token: string) => void) => Promise<LlmCompletion>;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { createRedactor, createStreamRestorer, redactMessages } from "./redaction.js";
+
+describe("createRedactor", () => {
+  it("masks phone numbers", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("Call me on 98765 43210 or +91-9876543211")).toBe("Call me on [PHONE_1] or [PHONE_2]");
+    expect(redactor.redact("My number is +44 20 7946 0958")).toBe("My number is [PHONE_3]");
+  });
+
+  it("masks email addresses", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("Write to asha.k@example.co.in")).toBe("Write to [EMAIL_1]");
+  });
+
+  it("masks Aadhaar and PAN numbers", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("Aadhaar 2345 6789 0123, PAN ABCDE1234F")).toBe("Aadhaar [ID_1], PAN [ID_2]");
+  });
+
+  it("masks address lines", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("I live at Flat 12, Shanti Apartments, MG Road")).toBe("I live at [ADDRESS_1]");
+  });
+
+  it("masks PIN codes only in an address context", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("Indiranagar, Bengaluru 560038")).toBe("Indiranagar, Bengaluru [ADDRESS_1]");
+    expect(redactor.redact("pincode: 400 001")).toBe("pincode: [ADDRESS_2]");
+    expect(redactor.redact("I owe him 250000 rupees and my OTP was 482913")).toBe("I owe him 250000 rupees and my OTP was 482913");
+  });
+
+  it("masks safety-plan contact names, longest first and whole words only", () => {
+    const redactor = createRedactor(["Priya", "Priya Sharma", " "]);
+    expect(redactor.redact("Priya Sharma said to call priya later")).toBe("[CONTACT_1] said to call [CONTACT_2] later");
+    expect(redactor.redact("Priyanka is someone else")).toBe("Priyanka is someone else");
+  });
+
+  it("reuses the placeholder for a value it has already seen", () => {
+    const redactor = createRedactor();
+    expect(redactor.redact("a@b.com and again a@b.com")).toBe("[EMAIL_1] and again [EMAIL_1]");
+  });
+
+  it("restores the real values and leaves unknown placeholders alone", () => {
+    const redactor = createRedactor(["Ravi"]);
+    const masked = redactor.redact("Ravi's number is 9876543210");
+    expect(redactor.restore(`You could text ${masked.split(" ").pop()}, or ask [CONTACT_1]. [PHONE_9]`)).toBe(
+      "You could text 9876543210, or ask Ravi. [PHONE_9]",
+    );
+  });
+});
+
+describe("redactMessages", () => {
+  it("redacts every message and keeps the roles", () => {
+    const redactor = createRedactor();
+    const messages = redactMessages(redactor, [
+      { role: "system", content: "Be kind." },
+      { role: "user", content: "Email me at me@example.com" },
+    ]);
+    expect(messages).toEqual([
+      { role: "system", content: "Be kind." },
+      { role: "user", content: "Email me at [EMAIL_1]" },
+    ]);
+  });
+});
+
+describe("createStreamRestorer", () => {
+  const collect = (names: string[], input: string, chunks: string[]) => {
+    const redactor = createRedactor(names);
+    redactor.redact(input);
+    const tokens: string[] = [];
+    const restorer = createStreamRestorer(redactor, (token) => tokens.push(token));
+    chunks.forEach((chunk) => restorer.push(chunk));
+    restorer.flush();
+    return tokens;
+  };
+
+  it("holds back a placeholder split across two chunks until it is complete", () => {
+    const tokens = collect(["Meera"], "Meera", ["Maybe call [CONT", "ACT_1] tonight."]);
+    expect(tokens).toEqual(["Maybe call ", "Meera tonight."]);
+  });
+
+  it("passes ordinary brackets through once they can no longer be a placeholder", () => {
+    const tokens = collect([], "", ["Try this [a longer aside that is not a placeholder", "] now"]);
+    expect(tokens.join("")).toBe("Try this [a longer aside that is not a placeholder] now");
+  });
+
+  it("flushes an unfinished placeholder as it is", () => {
+    const tokens = collect([], "", ["Ends with [PHO"]);
+    expect(tokens.join("")).toBe("Ends with [PHO");
+  });
+});
@@ -0,0 +1,146 @@
+import { getSafetyPlan } from "../safety/safetyPlanService.js";
+import type { LlmMessage } from "./providers/index.js";
+
+type PiiKind = "EMAIL" | "ID" | "PHONE" | "ADDRESS" | "CONTACT";
+
+// Cities and states a PIN code usually follows in a written address.
+const PLACE_NAMES = [
+  "mumbai",
+  "delhi",
+  "new delhi",
+  "bengaluru",
+  "bangalore",
+  "chennai",
+  "kolkata",
+  "hyderabad",
+  "pune",
+  "ahmedabad",
+  "jaipur",
+  "lucknow",
+  "maharashtra",
+  "karnataka",
+  "tamil nadu",
+  "kerala",
+  "gujarat",
+  "rajasthan",
+  "uttar pradesh",
+  "west bengal",
+  "telangana",
+  "punjab",
+];
+
+// Order matters: Aadhaar numbers look like phone numbers, so IDs are masked first.
+const PATTERNS: Array<{ kind: PiiKind; pattern: RegExp }> = [
+  { kind: "EMAIL", pattern: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi },
+  // Aadhaar: 12 digits, never starting with 0 or 1, often grouped 4-4-4.
+  { kind: "ID", pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g },
+  // PAN: five letters, four digits, one letter.
+  { kind: "ID", pattern: /\b[a-z]{5}\d{4}[a-z]\b/gi },
+  { kind: "PHONE", pattern: /(?:\+?91[\s-]?|\b0)?\b[6-9]\d{4}[\s-]?\d{5}\b/g },
+  { kind: "PHONE", pattern: /\+\d{1,3}[\s-]?\d[\d\s-]{6,13}\d/g },
+  // Address lines run to the last street word in reach, so "Flat 12, Shanti Apartments, MG Road" is masked whole.
+  {
+    kind: "ADDRESS",
+    pattern:
+      /(?:\b(?:flat|house|h\.?\s?no|plot|door|apt|apartment)\b\.?|#)\s*[\w/-]+,?(?:[\s,]+[\w.'/-]+){0,8}[\s,]+(?:road|rd|street|st|lane|nagar|colony|sector|cross|main|layout|marg|block|society|apartments?)\b/gi,
+  },
+  // Six-digit PIN codes only where they read as part of an address; on their own they are as likely an amount or an OTP.
+  {
+    kind: "ADDRESS",
+    pattern: new RegExp(
+      `(?<=\\b(?:pin|pin\\s?code|pincode|postal\\s?code|${PLACE_NAMES.join("|")})\\b[\\s,:.-]*)[1-9]\\d{2}\\s?\\d{3}\\b`,
+      "gi",
+    ),
+  },
+];
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|ID|PHONE|ADDRESS|CONTACT)_\d+\]/g;
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export interface Redactor {
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+}
+
+/**
+ * Masks personal details with stable placeholders ("[PHONE_1]") and keeps the
+ * mapping so model output can be put back into the user's own words. The same
+ * value always maps to the same placeholder within one redactor.
+ */
+export const createRedactor = (contactNames: string[] = []): Redactor => {
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, string>();
+  const counters: Partial<Record<PiiKind, number>> = {};
+
+  const placeholderFor = (kind: PiiKind, value: string) => {
+    const key = `${kind}:${value.toLowerCase()}`;
+    const existing = byValue.get(key);
+    if (existing) return existing;
+    counters[kind] = (counters[kind] ?? 0) + 1;
+    const placeholder = `[${kind}_${counters[kind]}]`;
+    byValue.set(key, placeholder);
+    byPlaceholder.set(placeholder, value);
+    return placeholder;
+  };
+
+  const names = Array.from(new Set(contactNames.map((name) => name.trim()).filter((name) => name.length > 1)))
+    // Longest first so "Priya Sharma" is masked before "Priya".
+    .sort((a, b) => b.length - a.length)
+    .map((name) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, "giu"));
+
+  return {
+    redact: (text) => {
+      let output = text;
+      for (const { kind, pattern } of PATTERNS) {
+        output = output.replace(pattern, (match) => placeholderFor(kind, match));
+      }
+      for (const pattern of names) {
+        output = output.replace(pattern, (match) => placeholderFor("CONTACT", match));
+      }
+      return output;
+    },
+    restore: (text) => text.replace(PLACEHOLDER_PATTERN, (placeholder) => byPlaceholder.get(placeholder) ?? placeholder),
+  };
+};
+
+export const redactMessages = (redactor: Redactor, messages: LlmMessage[]): LlmMessage[] =>
+  messages.map((message) => ({ ...message, content: redactor.redact(message.content) }));
+
+/**
+ * Wraps a token callback so placeholders split across streamed chunks are
+ * held back until complete and restored before the caller sees them.
+ */
+export const createStreamRestorer = (redactor: Redactor, onToken: (token: string) => void) => {
+  let pending = "";
+
+  const emit = (text: string) => {
+    if (text) onToken(redactor.restore(text));
+  };
+
+  return {
+    push: (token: string) => {
+      pending += token;
+      const open = pending.lastIndexOf("[");
+      if (open === -1 || pending.includes("]", open) || pending.length - open > MAX_PLACEHOLDER_LENGTH) {
+        emit(pending);
+        pending = "";
+        return;
+      }
+      emit(pending.slice(0, open));
+      pending = pending.slice(open);
+    },
+    flush: () => {
+      emit(pending);
+      pending = "";
+    },
+  };
+};
+
+export const loadRedactor = async (userId?: string) => {
+  if (!userId) return createRedactor();
+  const plan = await getSafetyPlan(userId).catch(() => null);
+  const contacts = (Array.isArray(plan?.contacts) ? plan.contacts : []) as Array<{ name?: string }>;
+  return createRedactor(contacts.map((contact) => contact.name ?? ""));
+};
@@ -1,18 +1,58 @@
-import { runWithFallback, safeDefaultResponse } from "./aiService.js";
-
-export const generateSupportResponse = async (text: string, context: string, meta?: { userId?: string; purpose?: string }) => {
-  const messages = [
-    {
-      role: "system" as const,
-      content: "You are a supportive mental wellness assistant. Respond with empathy, avoid medical claims, and keep it concise.",
-    },
-    { role: "user" as const, content: `${text}\n\nContext: ${context}` },
-  ];
-
-  const result = await runWithFallback(messages, undefined, meta);
+import { runWithFallback, safeDefaultResponse, streamWithFallback } from "./aiService.js";
+import type { StreamOptions } from "./aiService.js";
+import type { LlmMessage } from "./providers/index.js";
+import { createResponseGuard, getResponseGuardConfig, recordGuardIntervention } from "../safety/responseGuardService.js";
+import type { GuardResult } from "../safety/responseGuardService.js";
+
+const FALLBACK_TEXT = "I am here with you. Do you want to share a little more about what you are feeling?";
+const NO_INTERVENTION: GuardResult = { action: "none", categories: [] };
+
+const buildSupportMessages = (conversation: LlmMessage[]): LlmMessage[] => [
+  {
+    role: "system",
+    content:
+      "You are a supportive mental wellness assistant. Respond with empathy, avoid medical claims, and keep it concise. " +
+      "Continue the conversation naturally, building on what the user has already shared.",
+  },
+  ...conversation,
+];
+
+export const generateSupportResponse = async (conversation: LlmMessage[], meta?: { userId?: string; purpose?: string }) => {
+  const result = await runWithFallback(buildSupportMessages(conversation), undefined, meta);
+  if (!result.content) {
+    return { ...safeDefaultResponse(FALLBACK_TEXT), guard: NO_INTERVENTION };
+  }
+
+  const guard = createResponseGuard(await getResponseGuardConfig());
+  guard.push(result.content);
+  const reviewed = await guard.finish();
+  await recordGuardIntervention({ ...meta, streamed: false, guard: reviewed.guard, originalText: result.content, finalText: reviewed.text });
+
+  return { text: reviewed.text, usedFallback: false, model: result.model, guard: reviewed.guard };
+};
+
+/**
+ * Streams a support reply through the response guard, so only reviewed
+ * sentences reach options.onToken. The returned text is what should be shown
+ * and stored; it can differ from the streamed tokens when the guard replaced
+ * the reply part-way through.
+ */
+export const streamSupportResponse = async (
+  conversation: LlmMessage[],
+  options: StreamOptions,
+  meta?: { userId?: string; purpose?: string },
+) => {
+  const guard = createResponseGuard(await getResponseGuardConfig(), options.onToken);
+  const result = await streamWithFallback(buildSupportMessages(conversation), { ...options, onToken: guard.push }, meta);
   if (!result.content) {
-    return safeDefaultResponse("I am here with you. Do you want to share a little more about what you are feeling?");
+    if (!result.aborted) {
+      options.onToken(FALLBACK_TEXT);
+    }
+    return { ...safeDefaultResponse(FALLBACK_TEXT), aborted: result.aborted, guard: NO_INTERVENTION };
   }
 
-  return { text: result.content, usedFallback: false, model: result.model };
+  const reviewed = await guard.finish();
+  await recordGuardIntervention({ ...meta, streamed: true, guard: reviewed.guard, originalText: result.content, finalText: reviewed.text });
+
+  return { text: reviewed.text, usedFallback: false, model: result.model, aborted: result.aborted, guard: reviewed.guard };
 };
@@ -0,0 +1,30 @@
+import type { LlmMessage } from "./providers/index.js";
+
+// Rough but provider-agnostic: ~4 characters per token for English, plus per-message overhead.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const estimateMessageTokens = (messages: LlmMessage[]) =>
+  messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+export const truncateToTokens = (text: string, maxTokens: number) => {
+  const maxChars = Math.max(0, maxTokens * 4);
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+};
+
+/**
+ * Keeps the newest messages that fit in `budget`, returned oldest first.
+ */
+export const takeNewestWithinBudget = (messages: LlmMessage[], budget: number) => {
+  const kept: LlmMessage[] = [];
+  let used = 0;
+  for (let index = messages.length - 1; index >= 0; index -= 1) {
+    const cost = estimateMessageTokens([messages[index]]);
+    if (used + cost > budget) break;
+    kept.unshift(messages[index]);
+    used += cost;
+  }
+  return kept;
+};
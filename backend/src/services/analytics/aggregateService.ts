@@ -0,0 +1,364 @@
+import { DateTime } from "luxon";
+import { getFirestore } from "../../config/firebase.js";
+import { getDailyCheckIns, normalizeEntry, resolveDayMood } from "../checkin/checkinService.js";
+import type { CheckInEntry, CheckInSource, Mood } from "../checkin/checkinService.js";
+
+const checkinsCollection = () => getFirestore().collection("checkinsDaily");
+const dailyAggregatesCollection = () => getFirestore().collection("analyticsDaily");
+const weeklyAggregatesCollection = () => getFirestore().collection("analyticsWeekly");
+const aggregateStateCollection = () => getFirestore().collection("analyticsState");
+
+// Bump when the aggregate shape or formulas change; each user is rebuilt on their next analytics request.
+const AGGREGATE_VERSION = 1;
+const GET_ALL_CHUNK = 100;
+const BATCH_LIMIT = 400;
+
+export const MOODS: Mood[] = ["happy", "calm", "neutral", "sad", "anxious", "frustrated"];
+
+/**
+ * Everything here is a sum, so any mix of day and week documents can be
+ * added together and averages are only taken at read time.
+ */
+export interface AggregateTotals {
+  // Days with at least one entry.
+  days: number;
+  entryCount: number;
+  manualCount: number;
+  chatCount: number;
+  // Days counted by the mood each day resolved to.
+  moodCounts: Record<Mood, number>;
+  sentimentSum: number;
+  // 0-10 scale, one value per day.
+  moodScoreSum: number;
+  stressSum: number;
+  intensitySum: number;
+  intensityCount: number;
+  energySum: number;
+  energyCount: number;
+  sleepSum: number;
+  sleepCount: number;
+  activityCounts: Record<string, number>;
+  peopleCounts: Record<string, number>;
+}
+
+export interface DayAggregate extends AggregateTotals {
+  userId: string;
+  dayKey: string;
+  weekKey: string;
+  mood: Mood;
+  moodSource: CheckInSource | null;
+  sentiment: number;
+  moodScore10: number;
+  stressScore: number;
+  updatedAt: string;
+}
+
+export interface WeekAggregate extends AggregateTotals {
+  userId: string;
+  // Monday of the ISO week, as a day key.
+  weekKey: string;
+  updatedAt: string;
+}
+
+export const moodScore = (mood: string) => {
+  switch (mood) {
+    case "happy":
+      return 5;
+    case "calm":
+      return 4;
+    case "neutral":
+      return 3;
+    case "sad":
+      return 2;
+    case "anxious":
+    case "frustrated":
+      return 1;
+    default:
+      return 3;
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const weekKeyOf = (dayKey: string) => DateTime.fromISO(dayKey).startOf("week").toFormat("yyyy-LL-dd");
+
+const emptyMoodCounts = () => Object.fromEntries(MOODS.map((mood) => [mood, 0])) as Record<Mood, number>;
+
+export const emptyTotals = (): AggregateTotals => ({
+  days: 0,
+  entryCount: 0,
+  manualCount: 0,
+  chatCount: 0,
+  moodCounts: emptyMoodCounts(),
+  sentimentSum: 0,
+  moodScoreSum: 0,
+  stressSum: 0,
+  intensitySum: 0,
+  intensityCount: 0,
+  energySum: 0,
+  energyCount: 0,
+  sleepSum: 0,
+  sleepCount: 0,
+  activityCounts: {},
+  peopleCounts: {},
+});
+
+const addCounts = (target: Record<string, number>, source: Record<string, number> | undefined) => {
+  Object.entries(source ?? {}).forEach(([key, count]) => {
+    target[key] = (target[key] ?? 0) + count;
+  });
+};
+
+export const addTotals = (target: AggregateTotals, source: AggregateTotals) => {
+  target.days += source.days;
+  target.entryCount += source.entryCount;
+  target.manualCount += source.manualCount;
+  target.chatCount += source.chatCount;
+  addCounts(target.moodCounts, source.moodCounts);
+  target.sentimentSum += source.sentimentSum;
+  target.moodScoreSum += source.moodScoreSum;
+  target.stressSum += source.stressSum;
+  target.intensitySum += source.intensitySum;
+  target.intensityCount += source.intensityCount;
+  target.energySum += source.energySum;
+  target.energyCount += source.energyCount;
+  target.sleepSum += source.sleepSum;
+  target.sleepCount += source.sleepCount;
+  addCounts(target.activityCounts, source.activityCounts);
+  addCounts(target.peopleCounts, source.peopleCounts);
+  return target;
+};
+
+const countTags = (entries: CheckInEntry[], field: "activities" | "people") => {
+  const counts: Record<string, number> = {};
+  entries.forEach((entry) => entry[field].forEach((tag) => (counts[tag] = (counts[tag] ?? 0) + 1)));
+  return counts;
+};
+
+/**
+ * Reduces one day's entries to its aggregate. The mood, sentiment and
+ * stress formulas are the ones the analytics charts have always used.
+ */
+export const summarizeDay = (userId: string, dayKey: string, entries: CheckInEntry[]): DayAggregate => {
+  const sentiment = entries.reduce((sum, entry) => sum + (entry.sentimentScore ?? 0.5), 0) / (entries.length || 1);
+  const dayMood = resolveDayMood(entries);
+  const moodScore10 = Math.round((moodScore(dayMood.mood) / 5) * 10);
+  const blendedMood = Math.round(0.6 * Math.round(sentiment * 10) + 0.4 * moodScore10);
+  const stressScore = clamp(10 - blendedMood, 0, 10);
+  const manualCount = entries.filter((entry) => entry.source === "manual").length;
+  const intensities = entries.flatMap((entry) => (entry.intensity === null ? [] : [entry.intensity]));
+  const energies = entries.flatMap((entry) => (entry.energy === null ? [] : [entry.energy]));
+  // Sleep is reported for the night before, so only the latest report for the day counts.
+  const sleepEntry = entries
+    .filter((entry) => entry.sleepHours !== null)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))[0];
+
+  return {
+    userId,
+    dayKey,
+    weekKey: weekKeyOf(dayKey),
+    mood: dayMood.mood,
+    moodSource: dayMood.source,
+    sentiment,
+    moodScore10,
+    stressScore,
+    days: 1,
+    entryCount: entries.length,
+    manualCount,
+    chatCount: entries.length - manualCount,
+    moodCounts: { ...emptyMoodCounts(), [dayMood.mood]: 1 },
+    sentimentSum: sentiment,
+    moodScoreSum: moodScore10,
+    stressSum: stressScore,
+    intensitySum: intensities.reduce((sum, value) => sum + value, 0),
+    intensityCount: intensities.length,
+    energySum: energies.reduce((sum, value) => sum + value, 0),
+    energyCount: energies.length,
+    sleepSum: sleepEntry?.sleepHours ?? 0,
+    sleepCount: sleepEntry ? 1 : 0,
+    activityCounts: countTags(entries, "activities"),
+    peopleCounts: countTags(entries, "people"),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const dayDocId = (userId: string, dayKey: string) => `${userId}_${dayKey}`;
+
+const weekDayKeys = (weekKey: string) =>
+  Array.from({ length: 7 }, (_, index) => DateTime.fromISO(weekKey).plus({ days: index }).toFormat("yyyy-LL-dd"));
+
+const sumWeek = (userId: string, weekKey: string, days: AggregateTotals[]): WeekAggregate => ({
+  ...days.reduce(addTotals, emptyTotals()),
+  userId,
+  weekKey,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Recomputes the aggregate for one day and the week it falls in. Called
+ * after every write to that day's check-ins; each step is a transaction so
+ * concurrent writers cannot leave an older picture behind.
+ */
+export const refreshDayAggregate = async (userId: string, dayKey: string) => {
+  const db = getFirestore();
+  await db.runTransaction(async (tx) => {
+    const snap = await tx.get(checkinsCollection().doc(dayDocId(userId, dayKey)));
+    const entries = ((snap.data()?.entries as Partial<CheckInEntry>[] | undefined) ?? []).map(normalizeEntry);
+    const ref = dailyAggregatesCollection().doc(dayDocId(userId, dayKey));
+    if (entries.length) {
+      tx.set(ref, summarizeDay(userId, dayKey, entries));
+    } else {
+      tx.delete(ref);
+    }
+  });
+
+  const weekKey = weekKeyOf(dayKey);
+  await db.runTransaction(async (tx) => {
+    const refs = weekDayKeys(weekKey).map((key) => dailyAggregatesCollection().doc(dayDocId(userId, key)));
+    const docs = await tx.getAll(...refs);
+    const days = docs.filter((doc) => doc.exists).map((doc) => doc.data() as DayAggregate);
+    const ref = weeklyAggregatesCollection().doc(dayDocId(userId, weekKey));
+    if (days.length) {
+      tx.set(ref, sumWeek(userId, weekKey, days));
+    } else {
+      tx.delete(ref);
+    }
+  });
+};
+
+const deleteUserAggregates = async (userId: string) => {
+  const snapshots = await Promise.all([
+    dailyAggregatesCollection().where("userId", "==", userId).get(),
+    weeklyAggregatesCollection().where("userId", "==", userId).get(),
+  ]);
+  const refs = snapshots.flatMap((snapshot) => snapshot.docs.map((doc) => doc.ref));
+  for (let index = 0; index < refs.length; index += BATCH_LIMIT) {
+    const batch = getFirestore().batch();
+    refs.slice(index, index + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+/**
+ * Builds every aggregate for a user from their check-ins when they have
+ * none yet, or were built with an older version. Afterwards only
+ * refreshDayAggregate keeps them current.
+ */
+export const ensureAggregates = async (userId: string) => {
+  const state = await aggregateStateCollection().doc(userId).get();
+  if (state.data()?.version === AGGREGATE_VERSION) return;
+
+  await deleteUserAggregates(userId);
+  const records = await getDailyCheckIns(userId);
+  const days = records.map((record) => summarizeDay(userId, record.dayKey, record.entries));
+  const weeks = new Map<string, DayAggregate[]>();
+  days.forEach((day) => weeks.set(day.weekKey, [...(weeks.get(day.weekKey) ?? []), day]));
+
+  const writes: Array<[FirebaseFirestore.DocumentReference, DayAggregate | WeekAggregate]> = [
+    ...days.map((day) => [dailyAggregatesCollection().doc(dayDocId(userId, day.dayKey)), day] as [FirebaseFirestore.DocumentReference, DayAggregate]),
+    ...Array.from(weeks.entries()).map(
+      ([weekKey, weekDays]) =>
+        [weeklyAggregatesCollection().doc(dayDocId(userId, weekKey)), sumWeek(userId, weekKey, weekDays)] as [
+          FirebaseFirestore.DocumentReference,
+          WeekAggregate,
+        ],
+    ),
+  ];
+  for (let index = 0; index < writes.length; index += BATCH_LIMIT) {
+    const batch = getFirestore().batch();
+    writes.slice(index, index + BATCH_LIMIT).forEach(([ref, data]) => batch.set(ref, data));
+    await batch.commit();
+  }
+
+  await aggregateStateCollection().doc(userId).set({ userId, version: AGGREGATE_VERSION, builtAt: new Date().toISOString() });
+};
+
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+export const daysInRange = ({ from, to }: DayRange) => {
+  const keys: string[] = [];
+  for (let cursor = DateTime.fromISO(from); cursor <= DateTime.fromISO(to); cursor = cursor.plus({ days: 1 })) {
+    keys.push(cursor.toFormat("yyyy-LL-dd"));
+  }
+  return keys;
+};
+
+/**
+ * Splits a range into whole ISO weeks, read from the weekly documents, and
+ * the leftover days at either end, read from the daily ones.
+ */
+const coverRange = ({ from, to }: DayRange) => {
+  const end = DateTime.fromISO(to);
+  const weekKeys: string[] = [];
+  const dayKeys: string[] = [];
+  let cursor = DateTime.fromISO(from);
+  while (cursor <= end) {
+    if (cursor.weekday === 1 && cursor.plus({ days: 6 }) <= end) {
+      weekKeys.push(cursor.toFormat("yyyy-LL-dd"));
+      cursor = cursor.plus({ weeks: 1 });
+    } else {
+      dayKeys.push(cursor.toFormat("yyyy-LL-dd"));
+      cursor = cursor.plus({ days: 1 });
+    }
+  }
+  return { weekKeys, dayKeys };
+};
+
+const readDocs = async <T>(collection: FirebaseFirestore.CollectionReference, ids: string[]) => {
+  const found = new Map<string, T>();
+  for (let index = 0; index < ids.length; index += GET_ALL_CHUNK) {
+    const refs = ids.slice(index, index + GET_ALL_CHUNK).map((id) => collection.doc(id));
+    if (!refs.length) continue;
+    const docs = await getFirestore().getAll(...refs);
+    docs.filter((doc) => doc.exists).forEach((doc) => found.set(doc.id, doc.data() as T));
+  }
+  return found;
+};
+
+/**
+ * Totals for each range, fetching every document they need in one pass.
+ * With `byDay`, the ranges are read day by day and the day documents are
+ * returned too.
+ */
+export const loadRangeTotals = async (userId: string, ranges: DayRange[], options: { byDay?: boolean } = {}) => {
+  const covers = ranges.map((range) => (options.byDay ? { weekKeys: [] as string[], dayKeys: daysInRange(range) } : coverRange(range)));
+  const [days, weeks] = await Promise.all([
+    readDocs<DayAggregate>(dailyAggregatesCollection(), Array.from(new Set(covers.flatMap((cover) => cover.dayKeys))).map((key) => dayDocId(userId, key))),
+    readDocs<WeekAggregate>(weeklyAggregatesCollection(), Array.from(new Set(covers.flatMap((cover) => cover.weekKeys))).map((key) => dayDocId(userId, key))),
+  ]);
+
+  const totals = covers.map((cover) => {
+    const sum = emptyTotals();
+    cover.weekKeys.forEach((key) => {
+      const week = weeks.get(dayDocId(userId, key));
+      if (week) addTotals(sum, week);
+    });
+    cover.dayKeys.forEach((key) => {
+      const day = days.get(dayDocId(userId, key));
+      if (day) addTotals(sum, day);
+    });
+    return sum;
+  });
+  return { totals, days: Array.from(days.values()) };
+};
+
+/**
+ * Consecutive days with a check-in, ending today. Reads a month of day
+ * documents at a time.
+ */
+export const countStreak = async (userId: string, today: string) => {
+  let streak = 0;
+  let cursor = DateTime.fromISO(today);
+  for (;;) {
+    const keys = Array.from({ length: 30 }, (_, index) => cursor.minus({ days: index }).toFormat("yyyy-LL-dd"));
+    const found = await readDocs<DayAggregate>(dailyAggregatesCollection(), keys.map((key) => dayDocId(userId, key)));
+    for (const key of keys) {
+      if (!found.has(dayDocId(userId, key))) return streak;
+      streak += 1;
+    }
+    cursor = cursor.minus({ days: 30 });
+  }
+};
@@ -1,66 +1,185 @@
 import { DateTime } from "luxon";
-import { getDailyCheckIns } from "../checkin/checkinService.js";
-
-const moodScore = (mood: string) => {
-  switch (mood) {
-    case "happy":
-      return 5;
-    case "calm":
-      return 4;
-    case "neutral":
-      return 3;
-    case "sad":
-      return 2;
-    case "anxious":
-    case "frustrated":
-      return 1;
-    default:
-      return 3;
-  }
+import { AppError } from "../../utils/appError.js";
+import { countStreak, ensureAggregates, loadRangeTotals, MOODS } from "./aggregateService.js";
+import type { AggregateTotals, DayRange } from "./aggregateService.js";
+import type { Mood } from "../checkin/checkinService.js";
+
+export type AnalyticsRange = "week" | "month" | "quarter" | "year" | "custom";
+export type AnalyticsGranularity = "day" | "week" | "month";
+
+export interface AnalyticsQuery {
+  range?: AnalyticsRange;
+  granularity?: AnalyticsGranularity;
+  from?: string;
+  to?: string;
+}
+
+// Rolling windows ending today, so "week" always means the last seven days.
+const RANGE_DAYS: Record<Exclude<AnalyticsRange, "custom">, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90,
+  year: 365,
 };
+const MAX_CUSTOM_DAYS = 366;
+
+const round1 = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+const ratio = (sum: number, count: number) => (count ? sum / count : null);
+
+const toKey = (date: DateTime) => date.toFormat("yyyy-LL-dd");
 
-const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const defaultGranularity = (days: number): AnalyticsGranularity => (days <= 31 ? "day" : days <= 120 ? "week" : "month");
 
-export const buildAnalytics = async (userId: string, timezone: string) => {
-  const daily = await getDailyCheckIns(userId);
-  const dayKeys = new Set(daily.map((item) => item.dayKey));
-  const now = DateTime.now().setZone(timezone);
+const resolvePeriod = (query: AnalyticsQuery, timezone: string) => {
+  const range = query.range ?? "week";
+  const today = DateTime.now().setZone(timezone).startOf("day");
+  let from: DateTime;
+  let to: DateTime;
+  if (range === "custom") {
+    if (!query.from || !query.to) {
+      throw new AppError("A custom range needs both from and to", 400);
+    }
+    from = DateTime.fromISO(query.from);
+    to = DateTime.fromISO(query.to);
+  } else {
+    to = today;
+    from = today.minus({ days: RANGE_DAYS[range] - 1 });
+  }
 
-  let streak = 0;
-  let cursor = now.startOf("day");
-  while (dayKeys.has(cursor.toFormat("yyyy-LL-dd"))) {
-    streak += 1;
-    cursor = cursor.minus({ days: 1 });
+  const days = Math.round(to.diff(from, "days").days) + 1;
+  if (!from.isValid || !to.isValid || days < 1 || days > MAX_CUSTOM_DAYS) {
+    throw new AppError(`Ranges must run forwards and cover at most ${MAX_CUSTOM_DAYS} days`, 400);
   }
 
-  const sentimentByDay = daily.map((item) => {
-    const entries = Array.isArray(item.entries) ? item.entries : [];
-    const sentiment = entries.reduce((sum: number, entry: any) => sum + (entry.sentimentScore ?? 0.5), 0) / (entries.length || 1);
-    const latestEntry = entries
-      .slice()
-      .sort((a: any, b: any) => (a.createdAt < b.createdAt ? 1 : -1))[0];
-    const normalizedMood = latestEntry?.mood || "neutral";
-    const moodScoreValue = moodScore(normalizedMood);
-    const moodScore10 = Math.round((moodScoreValue / 5) * 10);
-    const sentiment10 = Math.round(sentiment * 10);
-    const blendedMood = Math.round(0.6 * sentiment10 + 0.4 * moodScore10);
-    const stressScore = clamp(10 - blendedMood, 0, 10);
-    return {
-      dayKey: item.dayKey,
-      sentiment,
-      normalizedMood,
-      moodScore: moodScoreValue,
-      moodScore10,
-      stressScore,
-      entryCount: entries.length,
-    };
-  });
-
-  const averageSentiment = sentimentByDay.reduce((sum, day) => sum + day.sentiment, 0) / (sentimentByDay.length || 1);
+  // The previous period is the same number of days immediately before.
+  const previousTo = from.minus({ days: 1 });
+  const previousFrom = previousTo.minus({ days: days - 1 });
+  return {
+    range,
+    granularity: query.granularity ?? defaultGranularity(days),
+    today: toKey(today),
+    from,
+    to,
+    current: { from: toKey(from), to: toKey(to) },
+    previous: { from: toKey(previousFrom), to: toKey(previousTo) },
+  };
+};
+
+const bucketRanges = (from: DateTime, to: DateTime, granularity: AnalyticsGranularity) => {
+  const unit = granularity === "day" ? "day" : granularity === "week" ? "week" : "month";
+  const buckets: Array<DayRange & { label: string }> = [];
+  let cursor = from;
+  while (cursor <= to) {
+    const end = DateTime.min(cursor.endOf(unit).startOf("day"), to);
+    const label =
+      granularity === "day"
+        ? cursor.toFormat(to.diff(from, "days").days < 7 ? "ccc" : "LLL d")
+        : granularity === "week"
+          ? cursor.toFormat("LLL d")
+          : cursor.toFormat("LLL yyyy");
+    buckets.push({ from: toKey(cursor), to: toKey(end), label });
+    cursor = end.plus({ days: 1 });
+  }
+  return buckets;
+};
+
+const topTags = (counts: Record<string, number>, limit = 5) =>
+  Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([tag, count]) => ({ tag, count }));
+
+/**
+ * Turns summed totals into the averages and distribution the charts show.
+ * Averages are per day with a check-in, so quiet days do not drag them down.
+ */
+const describeTotals = (totals: AggregateTotals) => {
+  const dominantMood = MOODS.reduce<Mood | null>(
+    (best, mood) => ((totals.moodCounts[mood] ?? 0) > (best ? totals.moodCounts[best] : 0) ? mood : best),
+    null,
+  );
+  return {
+    days: totals.days,
+    entryCount: totals.entryCount,
+    manualCount: totals.manualCount,
+    chatCount: totals.chatCount,
+    averageMood: round1(ratio(totals.moodScoreSum, totals.days)),
+    averageStress: round1(ratio(totals.stressSum, totals.days)),
+    averageSentiment: totals.days ? Math.round((totals.sentimentSum / totals.days) * 100) / 100 : null,
+    averageIntensity: round1(ratio(totals.intensitySum, totals.intensityCount)),
+    averageEnergy: round1(ratio(totals.energySum, totals.energyCount)),
+    averageSleepHours: round1(ratio(totals.sleepSum, totals.sleepCount)),
+    dominantMood,
+    moodDistribution: MOODS.map((mood) => ({
+      mood,
+      days: totals.moodCounts[mood] ?? 0,
+      share: totals.days ? Math.round(((totals.moodCounts[mood] ?? 0) / totals.days) * 100) / 100 : 0,
+    })),
+  };
+};
+
+type PeriodSummary = ReturnType<typeof describeTotals>;
+
+const COMPARED_FIELDS = [
+  "days",
+  "entryCount",
+  "averageMood",
+  "averageStress",
+  "averageSentiment",
+  "averageEnergy",
+  "averageSleepHours",
+] as const;
+
+const compare = (current: PeriodSummary, previous: PeriodSummary) =>
+  Object.fromEntries(
+    COMPARED_FIELDS.map((field) => {
+      const now = current[field];
+      const before = previous[field];
+      return [field, now === null || before === null ? null : Math.round((now - before) * 100) / 100];
+    }),
+  ) as Record<(typeof COMPARED_FIELDS)[number], number | null>;
+
+export const buildAnalytics = async (userId: string, timezone: string, query: AnalyticsQuery = {}) => {
+  await ensureAggregates(userId);
+  const period = resolvePeriod(query, timezone);
+  const buckets = bucketRanges(period.from, period.to, period.granularity);
+
+  const [{ totals, days }, streak] = await Promise.all([
+    loadRangeTotals(userId, [period.current, period.previous, ...buckets], { byDay: period.granularity === "day" }),
+    countStreak(userId, period.today),
+  ]);
+  const [current, previous, ...bucketTotals] = totals;
+  const summary = describeTotals(current);
+  const previousSummary = describeTotals(previous);
 
   return {
     streak,
-    averageSentiment,
-    sentimentByDay,
+    range: {
+      range: period.range,
+      granularity: period.granularity,
+      ...period.current,
+      previousFrom: period.previous.from,
+      previousTo: period.previous.to,
+    },
+    summary,
+    previous: previousSummary,
+    change: compare(summary, previousSummary),
+    buckets: buckets.map((bucket, index) => ({ ...bucket, ...describeTotals(bucketTotals[index]) })),
+    // Per-day detail is only included at day granularity, where it is already loaded.
+    days: days
+      .filter((day) => day.dayKey >= period.current.from && day.dayKey <= period.current.to)
+      .sort((a, b) => (a.dayKey < b.dayKey ? 1 : -1))
+      .map((day) => ({
+        dayKey: day.dayKey,
+        mood: day.mood,
+        moodSource: day.moodSource,
+        moodScore10: day.moodScore10,
+        stressScore: day.stressScore,
+        sentiment: day.sentiment,
+        entryCount: day.entryCount,
+      })),
+    averageSentiment: summary.averageSentiment ?? 0,
+    topActivities: topTags(current.activityCounts),
+    topPeople: topTags(current.peopleCounts),
   };
 };
@@ -0,0 +1,229 @@
+import { DateTime } from "luxon";
+import { getFirestore } from "../../config/firebase.js";
+import { earlyWarningConfig } from "../../config/earlyWarning.js";
+import type { EarlyWarningConfig } from "../../config/earlyWarning.js";
+import { AppError } from "../../utils/appError.js";
+import { dispatchToUser } from "../notification/notificationService.js";
+import { ensureAggregates, loadRangeTotals } from "./aggregateService.js";
+import type { DayAggregate } from "./aggregateService.js";
+
+const warningsCollection = () => getFirestore().collection("earlyWarnings");
+const stateCollection = () => getFirestore().collection("earlyWarningState");
+const dailyAggregatesCollection = () => getFirestore().collection("analyticsDaily");
+const crisisEventsCollection = () => getFirestore().collection("crisisEvents");
+const settingsCollection = () => getFirestore().collection("settings");
+
+// Days of aggregates each sweep looks back over; wide enough for every rule's window.
+const LOOKBACK_DAYS = 21;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type EarlyWarningRule = "decline" | "missedAfterLow" | "repeatedCrisis";
+
+export interface EarlyWarning {
+  id: string;
+  userId: string;
+  rule: EarlyWarningRule;
+  title: string;
+  message: string;
+  // What the detector saw, next to the thresholds it was held against.
+  metrics: Record<string, number | string>;
+  thresholds: Record<string, number>;
+  notified: boolean;
+  status: "active" | "dismissed";
+  createdAt: string;
+  dismissedAt: string | null;
+}
+
+interface Detection {
+  rule: EarlyWarningRule;
+  metrics: EarlyWarning["metrics"];
+  thresholds: EarlyWarning["thresholds"];
+}
+
+const NUDGES: Record<EarlyWarningRule, { title: string; message: string }> = {
+  decline: {
+    title: "Checking in on you",
+    message: "Your last few check-ins have been getting heavier. Be gentle with yourself today; your safety plan is there if you need it.",
+  },
+  missedAfterLow: {
+    title: "Thinking of you",
+    message: "We haven't heard from you in a couple of days, and things felt hard last time. A quick check-in is welcome whenever you're ready.",
+  },
+  repeatedCrisis: {
+    title: "You don't have to carry this alone",
+    message: "It's been a tough stretch. Your safety plan and helplines are one tap away, and reaching out to someone you trust can help.",
+  },
+};
+
+// Mood on 0-10 as the charts show it: the day's stress score turned around.
+const dayMood = (day: DayAggregate) => 10 - day.stressScore;
+
+const dayNumber = (dayKey: string) => DateTime.fromISO(dayKey).toMillis() / (24 * HOUR_MS);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Least-squares slope of mood per calendar day, so gaps between check-ins count as time passing. */
+const moodSlope = (days: DayAggregate[]) => {
+  const xs = days.map((day) => dayNumber(day.dayKey));
+  const ys = days.map(dayMood);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const numerator = xs.reduce((sum, x, index) => sum + (x - meanX) * (ys[index] - meanY), 0);
+  const denominator = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  return denominator ? numerator / denominator : 0;
+};
+
+const detectDecline = (days: DayAggregate[], today: string, config: EarlyWarningConfig["decline"]): Detection | null => {
+  // Old check-ins say nothing about now; the window may stretch to twice its length to allow for skipped days.
+  const earliest = dayNumber(today) - config.windowDays * 2;
+  const recent = days.filter((day) => dayNumber(day.dayKey) > earliest).slice(-config.windowDays);
+  if (recent.length < config.minCheckInDays) return null;
+  const slope = moodSlope(recent);
+  const latest = dayMood(recent[recent.length - 1]);
+  if (slope > -config.minDropPerDay || latest > config.maxLatestMood) return null;
+  return {
+    rule: "decline",
+    metrics: { slopePerDay: round2(slope), latestMood: latest, checkInDays: recent.length, from: recent[0].dayKey, to: recent[recent.length - 1].dayKey },
+    thresholds: { ...config },
+  };
+};
+
+const detectMissedAfterLow = (days: DayAggregate[], today: string, config: EarlyWarningConfig["missedAfterLow"]): Detection | null => {
+  const last = days[days.length - 1];
+  if (!last) return null;
+  const daysSince = Math.round(dayNumber(today) - dayNumber(last.dayKey));
+  // Today still has time for a check-in, so only whole days since the last one count as missed.
+  const missedDays = daysSince - 1;
+  const lowRun = days.slice(-config.lowDays);
+  if (missedDays < config.silentDays || lowRun.length < config.lowDays) return null;
+  if (lowRun.some((day) => dayMood(day) > config.lowMood)) return null;
+  return {
+    rule: "missedAfterLow",
+    metrics: { lastCheckIn: last.dayKey, missedDays, lowDays: lowRun.length, lastMood: dayMood(last) },
+    thresholds: { ...config },
+  };
+};
+
+const detectRepeatedCrisis = async (userId: string, config: EarlyWarningConfig["repeatedCrisis"]): Promise<Detection | null> => {
+  const since = new Date(Date.now() - config.windowDays * 24 * HOUR_MS).toISOString();
+  const snapshot = await crisisEventsCollection().where("userId", "==", userId).get();
+  const recent = snapshot.docs.map((doc) => doc.data()).filter((event) => (event.createdAt as string) >= since);
+  const signals = recent.reduce((sum, event) => sum + (Number(event.signalCount) || 1), 0);
+  if (signals < config.minSignals) return null;
+  return {
+    rule: "repeatedCrisis",
+    metrics: { signals, events: recent.length, since },
+    thresholds: { ...config },
+  };
+};
+
+const getTimezone = async (userId: string) => {
+  const doc = await settingsCollection().doc(userId).get();
+  return (doc.data()?.timezone as string | undefined) || "UTC";
+};
+
+/**
+ * Runs every rule for one user and nudges them for each that fired and is
+ * out of its cooldown. Each nudge is stored as an early-warning record,
+ * which is both the audit log and what the Dashboard shows.
+ */
+export const evaluateUser = async (userId: string, config: EarlyWarningConfig = earlyWarningConfig) => {
+  await ensureAggregates(userId);
+  const timezone = await getTimezone(userId);
+  const today = DateTime.now().setZone(timezone).startOf("day");
+  const from = today.minus({ days: LOOKBACK_DAYS - 1 }).toFormat("yyyy-LL-dd");
+  const todayKey = today.toFormat("yyyy-LL-dd");
+
+  const [{ days }, crisis, stateDoc] = await Promise.all([
+    loadRangeTotals(userId, [{ from, to: todayKey }], { byDay: true }),
+    detectRepeatedCrisis(userId, config.repeatedCrisis),
+    stateCollection().doc(userId).get(),
+  ]);
+  const ordered = days.slice().sort((a, b) => (a.dayKey < b.dayKey ? -1 : 1));
+  const detections = [detectDecline(ordered, todayKey, config.decline), detectMissedAfterLow(ordered, todayKey, config.missedAfterLow), crisis].filter(
+    (item): item is Detection => Boolean(item),
+  );
+
+  const lastTriggered = (stateDoc.data()?.lastTriggered ?? {}) as Partial<Record<EarlyWarningRule, string>>;
+  const now = new Date();
+  const fired = detections.filter((detection) => {
+    const last = lastTriggered[detection.rule];
+    return !last || now.getTime() - new Date(last).getTime() >= config.cooldownHours * HOUR_MS;
+  });
+
+  const warnings: EarlyWarning[] = [];
+  for (const detection of fired) {
+    const nudge = NUDGES[detection.rule];
+    const ref = warningsCollection().doc();
+    const warning: EarlyWarning = {
+      id: ref.id,
+      userId,
+      rule: detection.rule,
+      ...nudge,
+      metrics: detection.metrics,
+      thresholds: detection.thresholds,
+      notified: false,
+      status: "active",
+      createdAt: now.toISOString(),
+      dismissedAt: null,
+    };
+    try {
+      warning.notified = (await dispatchToUser(userId, nudge.title, nudge.message)).delivered > 0;
+    } catch {
+      // The Dashboard card still carries the nudge when push delivery fails.
+    }
+    const { id: _id, ...data } = warning;
+    await ref.set(data);
+    lastTriggered[detection.rule] = warning.createdAt;
+    warnings.push(warning);
+  }
+
+  await stateCollection().doc(userId).set({ userId, lastTriggered, lastEvaluatedAt: now.toISOString() }, { merge: true });
+  return warnings;
+};
+
+/**
+ * Users with a check-in or a crisis event in the lookback window; nobody
+ * else can trip a rule.
+ */
+const listCandidateUsers = async () => {
+  const from = DateTime.utc().minus({ days: LOOKBACK_DAYS }).toFormat("yyyy-LL-dd");
+  const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * HOUR_MS).toISOString();
+  const [days, events] = await Promise.all([
+    dailyAggregatesCollection().where("dayKey", ">=", from).get(),
+    crisisEventsCollection().where("createdAt", ">=", since).get(),
+  ]);
+  return Array.from(new Set([...days.docs, ...events.docs].map((doc) => doc.data().userId as string).filter(Boolean)));
+};
+
+export const runEarlyWarningSweep = async () => {
+  if (!earlyWarningConfig.enabled) return;
+  const userIds = await listCandidateUsers();
+  for (const userId of userIds) {
+    await evaluateUser(userId).catch(() => null);
+  }
+};
+
+export const listActiveWarnings = async (userId: string) => {
+  const snapshot = await warningsCollection().where("userId", "==", userId).get();
+  return snapshot.docs
+    .map((doc) => ({ ...(doc.data() as Omit<EarlyWarning, "id">), id: doc.id }))
+    .filter((warning) => warning.status === "active")
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+};
+
+export const dismissWarning = async (userId: string, warningId: string) => {
+  const ref = warningsCollection().doc(warningId);
+  const doc = await ref.get();
+  if (!doc.exists || doc.data()?.userId !== userId) {
+    throw new AppError("Warning not found", 404);
+  }
+  await ref.update({ status: "dismissed", dismissedAt: new Date().toISOString() });
+};
+
+export const startEarlyWarningScheduler = () => {
+  if (!earlyWarningConfig.enabled) return;
+  setInterval(() => {
+    runEarlyWarningSweep().catch(() => null);
+  }, earlyWarningConfig.intervalMinutes * 60 * 1000);
+};
@@ -0,0 +1,191 @@
+import { DateTime } from "luxon";
+import { getFirestore } from "../../config/firebase.js";
+import { getDailyCheckIns } from "../checkin/checkinService.js";
+import { moodScore } from "./aggregateService.js";
+
+const messagesCollection = () => getFirestore().collection("chatMessages");
+
+// A factor needs this many observations with it and without it before we say anything.
+const MIN_SAMPLES = 5;
+// Differences smaller than this on the 0-10 scale are not worth mentioning.
+const MIN_EFFECT = 0.75;
+// Welch's t above this is treated as more than noise; above the second it is called strong.
+const MIN_T = 2;
+const STRONG_T = 3;
+const MAX_INSIGHTS = 8;
+
+export type InsightKind = "topic" | "activity" | "person" | "weekday" | "timeOfDay";
+
+export interface Insight {
+  id: string;
+  kind: InsightKind;
+  factor: string;
+  direction: "better" | "worse";
+  // Mean mood (0-10) with the factor present, and without it.
+  averageWith: number;
+  averageWithout: number;
+  effect: number;
+  sampleSize: number;
+  confidence: "moderate" | "strong";
+  explanation: string;
+}
+
+interface Observation {
+  score: number;
+  factors: Array<{ kind: InsightKind; factor: string }>;
+}
+
+type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+const timeOfDay = (hour: number): TimeOfDay =>
+  hour < 5 ? "night" : hour < 12 ? "morning" : hour < 17 ? "afternoon" : hour < 22 ? "evening" : "night";
+
+// Same blend the daily aggregates use: sentiment where we have it, otherwise the mood alone.
+const observationScore = (mood: string, sentiment: number | null | undefined) => {
+  const moodScore10 = (moodScore(mood) / 5) * 10;
+  return typeof sentiment === "number" ? 0.6 * sentiment * 10 + 0.4 * moodScore10 : moodScore10;
+};
+
+const whenFactors = (createdAt: string, timezone: string) => {
+  const date = DateTime.fromISO(createdAt, { zone: timezone });
+  return [
+    { kind: "weekday" as const, factor: date.toFormat("cccc") },
+    { kind: "timeOfDay" as const, factor: timeOfDay(date.hour) },
+  ];
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[], avg: number) =>
+  values.length > 1 ? values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1) : 0;
+
+const welchT = (withFactor: number[], without: number[]) => {
+  const a = mean(withFactor);
+  const b = mean(without);
+  const se = Math.sqrt(variance(withFactor, a) / withFactor.length + variance(without, b) / without.length);
+  // Identical scores on both sides leave no spread to measure against; any gap is then consistent.
+  return se === 0 ? (a === b ? 0 : Infinity) : Math.abs(a - b) / se;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const explain = (kind: InsightKind, factor: string, direction: Insight["direction"], withAvg: number, withoutAvg: number, count: number) => {
+  const tone = direction === "better" ? "lighter" : "heavier";
+  const numbers = `${round1(withAvg)} vs ${round1(withoutAvg)} out of 10`;
+  switch (kind) {
+    case "topic":
+      return `When ${factor} comes up in chat, your mood tends to be ${direction === "better" ? "higher" : "lower"} (${numbers}, across ${plural(count, "message")}).`;
+    case "activity":
+      return `Check-ins that include ${factor} tend to feel ${tone} (${numbers}, across ${plural(count, "check-in")}).`;
+    case "person":
+      return `Time with ${factor} tends to go with a ${direction === "better" ? "brighter" : "lower"} mood (${numbers}, across ${plural(count, "check-in")}).`;
+    case "weekday":
+      return `${factor}s tend to feel ${tone} than other days (${numbers}).`;
+    case "timeOfDay":
+      return `You tend to feel ${tone} ${factor === "night" ? "at night" : `in the ${factor}`} than at other times (${numbers}).`;
+  }
+};
+
+const collectObservations = async (userId: string, timezone: string, fromKey: string) => {
+  const [days, messages] = await Promise.all([
+    getDailyCheckIns(userId),
+    // Uses a composite (userId, dayKey) index, so only the insight window is read.
+    messagesCollection().where("userId", "==", userId).where("dayKey", ">=", fromKey).get(),
+  ]);
+
+  const checkInObservations: Observation[] = days
+    .filter((day) => day.dayKey >= fromKey)
+    .flatMap((day) => day.entries)
+    // Chat-derived entries are counted from the messages themselves, with their topics.
+    .filter((entry) => entry.source === "manual")
+    .map((entry) => ({
+      score: observationScore(entry.mood, entry.sentimentScore),
+      factors: [
+        ...entry.activities.map((factor) => ({ kind: "activity" as const, factor })),
+        ...entry.people.map((factor) => ({ kind: "person" as const, factor })),
+        ...whenFactors(entry.createdAt, timezone),
+      ],
+    }));
+
+  const messageObservations: Observation[] = messages.docs
+    .map((doc) => doc.data() as { sender?: string; dayKey?: string; createdAt?: string; tags?: string[]; emotion?: { primary?: string; sentimentScore?: number } })
+    .filter((data) => data.sender === "user" && data.emotion?.primary && data.createdAt)
+    .map((data) => ({
+      score: observationScore(data.emotion?.primary as string, data.emotion?.sentimentScore),
+      factors: [...(data.tags ?? []).map((factor) => ({ kind: "topic" as const, factor })), ...whenFactors(data.createdAt as string, timezone)],
+    }));
+
+  return { checkIns: checkInObservations, messages: messageObservations };
+};
+
+/**
+ * Compares mood when a factor is present against mood when it is not, one
+ * factor at a time. Topics are compared across chat messages, activities and
+ * people across check-ins, and weekdays and times of day across both.
+ * Only differences that clear the sample, size and noise thresholds are kept.
+ */
+const findInsights = (observations: Observation[], kinds: InsightKind[]) => {
+  const factorKeys = new Set<string>();
+  observations.forEach((item) =>
+    item.factors.filter((entry) => kinds.includes(entry.kind)).forEach((entry) => factorKeys.add(`${entry.kind}:${entry.factor}`)),
+  );
+
+  return Array.from(factorKeys).flatMap((key): Array<Insight & { t: number }> => {
+    const kind = key.slice(0, key.indexOf(":")) as InsightKind;
+    const factor = key.slice(key.indexOf(":") + 1);
+    const withFactor: number[] = [];
+    const without: number[] = [];
+    observations.forEach((item) =>
+      (item.factors.some((entry) => entry.kind === kind && entry.factor === factor) ? withFactor : without).push(item.score),
+    );
+    if (withFactor.length < MIN_SAMPLES || without.length < MIN_SAMPLES) return [];
+
+    const averageWith = mean(withFactor);
+    const averageWithout = mean(without);
+    const effect = averageWith - averageWithout;
+    const t = welchT(withFactor, without);
+    if (Math.abs(effect) < MIN_EFFECT || t < MIN_T) return [];
+
+    const direction = effect > 0 ? "better" : "worse";
+    return [
+      {
+        id: key,
+        kind,
+        factor,
+        direction,
+        averageWith: round1(averageWith),
+        averageWithout: round1(averageWithout),
+        effect: round1(effect),
+        sampleSize: withFactor.length,
+        confidence: t >= STRONG_T ? "strong" : "moderate",
+        explanation: explain(kind, factor, direction, averageWith, averageWithout, withFactor.length),
+        t,
+      },
+    ];
+  });
+};
+
+export const buildInsights = async (userId: string, timezone: string, days = 90) => {
+  const to = DateTime.now().setZone(timezone).startOf("day");
+  const from = to.minus({ days: days - 1 });
+  const { checkIns, messages } = await collectObservations(userId, timezone, from.toFormat("yyyy-LL-dd"));
+
+  const insights = [
+    ...findInsights(checkIns, ["activity", "person"]),
+    ...findInsights(messages, ["topic"]),
+    ...findInsights([...checkIns, ...messages], ["weekday", "timeOfDay"]),
+  ]
+    // Larger, better-supported differences first.
+    .sort((a, b) => Math.abs(b.effect) * Math.min(b.t, 10) - Math.abs(a.effect) * Math.min(a.t, 10))
+    .slice(0, MAX_INSIGHTS)
+    .map(({ t: _t, ...insight }) => insight);
+
+  return {
+    window: { from: from.toFormat("yyyy-LL-dd"), to: to.toFormat("yyyy-LL-dd"), days },
+    observationCount: checkIns.length + messages.length,
+    minimumSamples: MIN_SAMPLES,
+    insights,
+  };
+};
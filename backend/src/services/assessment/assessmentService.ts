@@ -0,0 +1,128 @@
+import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
+import { recordCrisisSignal } from "../crisis/crisisEventService.js";
+import { scheduleAssessmentReminder } from "../notification/notificationService.js";
+import { ASSESSMENT_TYPES, getQuestionnaire } from "./questionnaires.js";
+import type { AssessmentSeverity, AssessmentType } from "./questionnaires.js";
+
+const assessmentsCollection = () => getFirestore().collection("assessments");
+
+// Both measures ask about the last two weeks, so that is the natural retake interval.
+const RETAKE_INTERVAL_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AssessmentRecord {
+  id: string;
+  userId: string;
+  type: AssessmentType;
+  answers: number[];
+  score: number;
+  maxScore: number;
+  severity: AssessmentSeverity;
+  severityLabel: string;
+  crisisItemPositive: boolean;
+  createdAt: string;
+}
+
+/**
+ * Sums the item answers and finds the matching band. Answers must cover
+ * every item, each on the questionnaire's own option scale.
+ */
+export const scoreAssessment = (type: AssessmentType, answers: number[]) => {
+  const questionnaire = getQuestionnaire(type);
+  const values = questionnaire.options.map((option) => option.value);
+  if (answers.length !== questionnaire.items.length || answers.some((answer) => !values.includes(answer))) {
+    throw new AppError(`${questionnaire.title} needs one answer for each of its ${questionnaire.items.length} questions`, 400);
+  }
+
+  const score = answers.reduce((sum, answer) => sum + answer, 0);
+  const band = questionnaire.bands.find((item) => score >= item.min && score <= item.max) ?? questionnaire.bands[0];
+  const crisisItemPositive = questionnaire.crisisItemIndex !== null && answers[questionnaire.crisisItemIndex] > 0;
+  return {
+    score,
+    maxScore: questionnaire.items.length * Math.max(...values),
+    band,
+    crisisItemPositive,
+  };
+};
+
+export const submitAssessment = async (userId: string, type: AssessmentType, answers: number[], remind = true) => {
+  const questionnaire = getQuestionnaire(type);
+  const { score, maxScore, band, crisisItemPositive } = scoreAssessment(type, answers);
+  const createdAt = new Date();
+  const payload: Omit<AssessmentRecord, "id"> = {
+    userId,
+    type,
+    answers,
+    score,
+    maxScore,
+    severity: band.severity,
+    severityLabel: band.label,
+    crisisItemPositive,
+    createdAt: createdAt.toISOString(),
+  };
+  const doc = await assessmentsCollection().add(payload);
+
+  // Any answer above "not at all" on the self-harm item opens the crisis protocol, whatever the total.
+  const crisisEvent = crisisItemPositive
+    ? await recordCrisisSignal(userId, {
+        messageId: doc.id,
+        severity: "high",
+        rationale: `${questionnaire.title} self-harm item answered "${questionnaire.options[answers[questionnaire.crisisItemIndex as number]].label}"`,
+        source: "assessment",
+      })
+    : null;
+
+  const nextDueAt = new Date(createdAt.getTime() + RETAKE_INTERVAL_DAYS * DAY_MS);
+  await scheduleAssessmentReminder(userId, type, remind ? nextDueAt : null);
+
+  return {
+    assessment: { id: doc.id, ...payload },
+    message: band.message,
+    crisisEvent,
+    nextDueAt: nextDueAt.toISOString(),
+  };
+};
+
+export const listAssessments = async (userId: string, type?: AssessmentType): Promise<AssessmentRecord[]> => {
+  let query: FirebaseFirestore.Query = assessmentsCollection().where("userId", "==", userId);
+  if (type) {
+    query = query.where("type", "==", type);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as Omit<AssessmentRecord, "id">) }))
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+};
+
+/**
+ * Latest result per measure with the change since the previous one. A
+ * drop of five or more points is the usual threshold for a meaningful change.
+ */
+export const summarizeAssessments = (records: AssessmentRecord[]) =>
+  Object.fromEntries(
+    ASSESSMENT_TYPES.map((type) => {
+      const history = records.filter((record) => record.type === type);
+      const [latest, previous] = history;
+      const change = latest && previous ? latest.score - previous.score : null;
+      return [
+        type,
+        {
+          latest: latest ?? null,
+          change,
+          trend: change === null ? null : change <= -5 ? "improving" : change >= 5 ? "worsening" : "steady",
+          nextDueAt: latest ? new Date(new Date(latest.createdAt).getTime() + RETAKE_INTERVAL_DAYS * DAY_MS).toISOString() : null,
+          count: history.length,
+        },
+      ];
+    }),
+  ) as Record<
+    AssessmentType,
+    {
+      latest: AssessmentRecord | null;
+      change: number | null;
+      trend: "improving" | "worsening" | "steady" | null;
+      nextDueAt: string | null;
+      count: number;
+    }
+  >;
@@ -0,0 +1,148 @@
+export type AssessmentType = "phq9" | "gad7";
+export type AssessmentSeverity = "minimal" | "mild" | "moderate" | "moderately_severe" | "severe";
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  severity: AssessmentSeverity;
+  label: string;
+  // Written for the person who just answered: no diagnosis, and always a next step.
+  message: string;
+}
+
+export interface Questionnaire {
+  type: AssessmentType;
+  title: string;
+  description: string;
+  prompt: string;
+  items: Array<{ id: string; text: string }>;
+  options: Array<{ value: number; label: string }>;
+  bands: SeverityBand[];
+  // Index of the item whose positive answer opens the crisis protocol, if any.
+  crisisItemIndex: number | null;
+}
+
+// Both measures share the standard frequency scale.
+const FREQUENCY_OPTIONS = [
+  { value: 0, label: "Not at all" },
+  { value: 1, label: "Several days" },
+  { value: 2, label: "More than half the days" },
+  { value: 3, label: "Nearly every day" },
+];
+
+const PROMPT = "Over the last 2 weeks, how often have you been bothered by any of the following?";
+
+const SCREENING_NOTE = "This is a screening check, not a diagnosis.";
+
+export const QUESTIONNAIRES: Record<AssessmentType, Questionnaire> = {
+  phq9: {
+    type: "phq9",
+    title: "PHQ-9",
+    description: "A nine-question check on low mood and how it has been affecting you.",
+    prompt: PROMPT,
+    items: [
+      { id: "interest", text: "Little interest or pleasure in doing things" },
+      { id: "down", text: "Feeling down, depressed, or hopeless" },
+      { id: "sleep", text: "Trouble falling or staying asleep, or sleeping too much" },
+      { id: "tired", text: "Feeling tired or having little energy" },
+      { id: "appetite", text: "Poor appetite or overeating" },
+      { id: "failure", text: "Feeling bad about yourself, or that you are a failure or have let yourself or your family down" },
+      { id: "concentration", text: "Trouble concentrating on things, such as reading the newspaper or watching television" },
+      {
+        id: "movement",
+        text: "Moving or speaking so slowly that other people could have noticed, or being so fidgety or restless that you have been moving around a lot more than usual",
+      },
+      { id: "self_harm", text: "Thoughts that you would be better off dead, or of hurting yourself in some way" },
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      {
+        min: 0,
+        max: 4,
+        severity: "minimal",
+        label: "Minimal",
+        message: `Your answers suggest few signs of low mood right now. ${SCREENING_NOTE} Keep doing what helps.`,
+      },
+      {
+        min: 5,
+        max: 9,
+        severity: "mild",
+        label: "Mild",
+        message: `Your answers suggest some signs of low mood. ${SCREENING_NOTE} Gentle routines and coping tools may help, and it's worth checking again in two weeks.`,
+      },
+      {
+        min: 10,
+        max: 14,
+        severity: "moderate",
+        label: "Moderate",
+        message: `Your answers suggest low mood is weighing on you. ${SCREENING_NOTE} Talking it through with a doctor or counsellor could really help.`,
+      },
+      {
+        min: 15,
+        max: 19,
+        severity: "moderately_severe",
+        label: "Moderately severe",
+        message: `Your answers suggest you're carrying a lot right now. ${SCREENING_NOTE} Please consider reaching out to a doctor or counsellor soon; you deserve support.`,
+      },
+      {
+        min: 20,
+        max: 27,
+        severity: "severe",
+        label: "Severe",
+        message: `Your answers suggest things are very hard at the moment. ${SCREENING_NOTE} Please reach out to a doctor, counsellor, or someone you trust as soon as you can.`,
+      },
+    ],
+    crisisItemIndex: 8,
+  },
+  gad7: {
+    type: "gad7",
+    title: "GAD-7",
+    description: "A seven-question check on worry and anxiety.",
+    prompt: PROMPT,
+    items: [
+      { id: "nervous", text: "Feeling nervous, anxious, or on edge" },
+      { id: "control", text: "Not being able to stop or control worrying" },
+      { id: "worry", text: "Worrying too much about different things" },
+      { id: "relax", text: "Trouble relaxing" },
+      { id: "restless", text: "Being so restless that it is hard to sit still" },
+      { id: "irritable", text: "Becoming easily annoyed or irritable" },
+      { id: "afraid", text: "Feeling afraid, as if something awful might happen" },
+    ],
+    options: FREQUENCY_OPTIONS,
+    bands: [
+      {
+        min: 0,
+        max: 4,
+        severity: "minimal",
+        label: "Minimal",
+        message: `Your answers suggest few signs of anxiety right now. ${SCREENING_NOTE} Keep doing what helps.`,
+      },
+      {
+        min: 5,
+        max: 9,
+        severity: "mild",
+        label: "Mild",
+        message: `Your answers suggest some worry is showing up. ${SCREENING_NOTE} Breathing and grounding tools may help, and it's worth checking again in two weeks.`,
+      },
+      {
+        min: 10,
+        max: 14,
+        severity: "moderate",
+        label: "Moderate",
+        message: `Your answers suggest anxiety is weighing on you. ${SCREENING_NOTE} Talking it through with a doctor or counsellor could really help.`,
+      },
+      {
+        min: 15,
+        max: 21,
+        severity: "severe",
+        label: "Severe",
+        message: `Your answers suggest anxiety is making things very hard at the moment. ${SCREENING_NOTE} Please reach out to a doctor, counsellor, or someone you trust as soon as you can.`,
+      },
+    ],
+    crisisItemIndex: null,
+  },
+};
+
+export const ASSESSMENT_TYPES = Object.keys(QUESTIONNAIRES) as AssessmentType[];
+
+export const getQuestionnaire = (type: AssessmentType) => QUESTIONNAIRES[type];
@@ -31,9 +31,8 @@ export const generateDailySummary = async (
   userId: string,
   timezone: string,
   latestEmotion?: EmotionResult,
+  dayKey = getDayKey(new Date(), timezone),
 ): Promise<DailyChatSummary> => {
-  const now = new Date();
-  const dayKey = getDayKey(now, timezone);
   const snapshot = await messagesCollection()
     .where("userId", "==", userId)
     .where("dayKey", "==", dayKey)
@@ -0,0 +1,101 @@
+import { DateTime } from "luxon";
+import { getPurposeConfig } from "../../config/ai.js";
+import { getFirestore } from "../../config/firebase.js";
+import type { LlmMessage } from "../ai/providers/index.js";
+import { estimateMessageTokens, takeNewestWithinBudget, truncateToTokens } from "../ai/tokenBudget.js";
+import { listMemories } from "../memory/memoryService.js";
+
+const messagesCollection = () => getFirestore().collection("chatMessages");
+const summariesCollection = () => getFirestore().collection("chatDailySummaries");
+const checkinsCollection = () => getFirestore().collection("checkinsDaily");
+
+const SUMMARY_TOKEN_LIMIT = 300;
+const MEMORY_TOKEN_LIMIT = 400;
+const MAX_TURNS = 40;
+
+interface StoredMessage {
+  sender?: "user" | "ai";
+  text?: string;
+  createdAt?: string;
+}
+
+const recentDayKeys = (timezone: string) => {
+  const today = DateTime.now().setZone(timezone).startOf("day");
+  return [today.toFormat("yyyy-LL-dd"), today.minus({ days: 1 }).toFormat("yyyy-LL-dd")];
+};
+
+const loadTurns = async (userId: string, dayKeys: string[], threadId?: string) => {
+  // Within a thread only that topic's turns count; older messages without a thread fall back to the day.
+  const snapshots = threadId
+    ? [await messagesCollection().where("userId", "==", userId).where("threadId", "==", threadId).get()]
+    : await Promise.all(
+      dayKeys.map((dayKey) => messagesCollection().where("userId", "==", userId).where("dayKey", "==", dayKey).get()),
+    );
+  return snapshots
+    .flatMap((snapshot) => snapshot.docs.map((doc) => doc.data() as StoredMessage))
+    .filter((msg) => msg.text && msg.createdAt)
+    .sort((a, b) => (a.createdAt as string).localeCompare(b.createdAt as string))
+    .slice(-MAX_TURNS)
+    .map((msg): LlmMessage => ({ role: msg.sender === "ai" ? "assistant" : "user", content: msg.text as string }));
+};
+
+const loadSummary = async (userId: string, dayKeys: string[]) => {
+  const docs = await getFirestore().getAll(...dayKeys.map((dayKey) => summariesCollection().doc(`${userId}_${dayKey}`)));
+  const [today, yesterday] = docs.map((doc) => (doc.data() as { summary?: string } | undefined)?.summary);
+  if (today) return `Earlier today: ${today}`;
+  if (yesterday) return `Yesterday: ${yesterday}`;
+  return null;
+};
+
+const loadLatestMood = async (userId: string, dayKeys: string[]) => {
+  const docs = await getFirestore().getAll(...dayKeys.map((dayKey) => checkinsCollection().doc(`${userId}_${dayKey}`)));
+  const latest = docs.map((doc) => doc.data() as { lastMood?: string; lastMoodLabel?: string | null } | undefined).find((data) => data?.lastMood);
+  if (!latest) return null;
+  return `Latest check-in mood: ${latest.lastMoodLabel || latest.lastMood}`;
+};
+
+const loadMemoryNote = async (userId: string) => {
+  const memories = await listMemories(userId);
+  if (!memories.length) return null;
+  const lines = memories.map((memory) => `- ${memory.text}`).join("\n");
+  return truncateToTokens(`Things the user has shared before:\n${lines}`, MEMORY_TOKEN_LIMIT);
+};
+
+/**
+ * Assembles the multi-turn prompt for a support reply: a context note (saved
+ * memories, daily summary, latest mood), then the most recent user/assistant turns in order
+ * (from the thread when one is given), then the new message. Older turns are
+ * dropped first to stay in budget.
+ */
+export const buildConversationContext = async (
+  userId: string,
+  text: string,
+  timezone: string,
+  { purpose = "chat_response", threadId }: { purpose?: string; threadId?: string } = {},
+): Promise<LlmMessage[]> => {
+  const dayKeys = recentDayKeys(timezone);
+  const [turns, summary, mood, memoryNote] = await Promise.all([
+    loadTurns(userId, dayKeys, threadId),
+    loadSummary(userId, dayKeys),
+    loadLatestMood(userId, dayKeys),
+    loadMemoryNote(userId),
+  ]);
+
+  // sendMessage stores the user's message before the reply is requested; don't send it twice.
+  const last = turns[turns.length - 1];
+  if (last?.role === "user" && last.content === text) {
+    turns.pop();
+  }
+
+  const notes = [memoryNote, summary && truncateToTokens(summary, SUMMARY_TOKEN_LIMIT), mood].filter(Boolean) as string[];
+  const contextNote: LlmMessage[] = notes.length
+    ? [{ role: "system", content: `What you know about the user so far:\n${notes.join("\n")}` }]
+    : [];
+  const current: LlmMessage = { role: "user", content: text };
+
+  const { maxContextTokens } = getPurposeConfig(purpose);
+  const remaining = maxContextTokens - estimateMessageTokens([...contextNote, current]);
+  const history = remaining > 0 ? takeNewestWithinBudget(turns, remaining) : [];
+
+  return [...contextNote, ...history, current];
+};
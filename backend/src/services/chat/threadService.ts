@@ -0,0 +1,226 @@
+import admin from "firebase-admin";
+import { z } from "zod";
+import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
+import { getDayKey } from "../../utils/date.js";
+import { runWithFallback } from "../ai/aiService.js";
+
+const threadsCollection = () => getFirestore().collection("chatThreads");
+const messagesCollection = () => getFirestore().collection("chatMessages");
+
+// An open thread that has been quiet this long is treated as finished; the next message starts a new one.
+const THREAD_IDLE_HOURS = 4;
+const HOUR_MS = 60 * 60 * 1000;
+const AUTO_TITLE_WORDS = 6;
+// Firestore accepts at most this many values in one "in" filter.
+const IN_FILTER_LIMIT = 30;
+
+export interface ChatThread {
+  id: string;
+  userId: string;
+  title: string;
+  titleSource: "auto" | "user";
+  status: "open" | "ended";
+  dayKey: string;
+  timezone: string;
+  startedAt: string;
+  endedAt: string | null;
+  lastMessageAt: string;
+  messageCount: number;
+  summary: string | null;
+  topEmotions: string[];
+  summaryUpdatedAt: string | null;
+}
+
+const toThread = (doc: FirebaseFirestore.DocumentSnapshot) => ({ id: doc.id, ...(doc.data() as Omit<ChatThread, "id">) });
+
+const isIdle = (thread: ChatThread, now = Date.now()) =>
+  now - new Date(thread.lastMessageAt).getTime() > THREAD_IDLE_HOURS * HOUR_MS;
+
+// Threads are ended lazily: whoever next reads an idle open thread closes it at its last message.
+const withLazyEnd = (thread: ChatThread): ChatThread =>
+  thread.status === "open" && isIdle(thread) ? { ...thread, status: "ended", endedAt: thread.lastMessageAt } : thread;
+
+export const listThreads = async (userId: string, filters: { dayKey?: string } = {}) => {
+  let query: FirebaseFirestore.Query = threadsCollection().where("userId", "==", userId);
+  if (filters.dayKey) {
+    query = query.where("dayKey", "==", filters.dayKey);
+  }
+  const snapshot = await query.get();
+  return snapshot.docs
+    .map((doc) => withLazyEnd(toThread(doc)))
+    .sort((a, b) => (a.lastMessageAt < b.lastMessageAt ? 1 : -1))
+    .slice(0, 50);
+};
+
+/**
+ * Every thread started on the given days, uncapped, for views that group
+ * threads under days they have already picked.
+ */
+export const listThreadsForDays = async (userId: string, dayKeys: string[]) => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < dayKeys.length; i += IN_FILTER_LIMIT) {
+    chunks.push(dayKeys.slice(i, i + IN_FILTER_LIMIT));
+  }
+  const snapshots = await Promise.all(
+    chunks.map((chunk) => threadsCollection().where("userId", "==", userId).where("dayKey", "in", chunk).get()),
+  );
+  return snapshots
+    .flatMap((snapshot) => snapshot.docs.map((doc) => withLazyEnd(toThread(doc))))
+    .sort((a, b) => (a.lastMessageAt < b.lastMessageAt ? 1 : -1));
+};
+
+export const getThread = async (userId: string, threadId: string) => {
+  const doc = await threadsCollection().doc(threadId).get();
+  if (!doc.exists || doc.data()?.userId !== userId) {
+    throw new AppError("Conversation not found", 404);
+  }
+  return withLazyEnd(toThread(doc));
+};
+
+const endOpenThreads = async (userId: string, exceptId?: string) => {
+  const snapshot = await threadsCollection().where("userId", "==", userId).where("status", "==", "open").get();
+  const batch = getFirestore().batch();
+  snapshot.docs
+    .filter((doc) => doc.id !== exceptId)
+    .forEach((doc) => {
+      const thread = toThread(doc);
+      batch.update(doc.ref, { status: "ended", endedAt: isIdle(thread) ? thread.lastMessageAt : new Date().toISOString() });
+    });
+  await batch.commit();
+};
+
+/**
+ * Starts a fresh topic. Any thread still open is ended so there is only ever
+ * one thread that new messages fall into by default.
+ */
+export const createThread = async (userId: string, timezone: string, title?: string) => {
+  await endOpenThreads(userId);
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const payload: Omit<ChatThread, "id"> = {
+    userId,
+    title: title?.trim() || "New conversation",
+    titleSource: title?.trim() ? "user" : "auto",
+    status: "open",
+    dayKey: getDayKey(now, timezone),
+    timezone,
+    startedAt: nowIso,
+    endedAt: null,
+    lastMessageAt: nowIso,
+    messageCount: 0,
+    summary: null,
+    topEmotions: [],
+    summaryUpdatedAt: null,
+  };
+  const doc = await threadsCollection().add(payload);
+  return { id: doc.id, ...payload };
+};
+
+/**
+ * The thread a message belongs to: the one the client asked for, otherwise
+ * the user's open thread, otherwise a new one.
+ */
+export const resolveThread = async (userId: string, timezone: string, threadId?: string) => {
+  if (threadId) {
+    const thread = await getThread(userId, threadId);
+    if (thread.status === "ended") {
+      // Writing into an ended thread picks the topic back up.
+      await endOpenThreads(userId, thread.id);
+      await threadsCollection().doc(thread.id).update({ status: "open", endedAt: null });
+      return { ...thread, status: "open" as const, endedAt: null };
+    }
+    return thread;
+  }
+
+  const snapshot = await threadsCollection().where("userId", "==", userId).where("status", "==", "open").get();
+  const open = snapshot.docs
+    .map(toThread)
+    .filter((thread) => !isIdle(thread))
+    .sort((a, b) => (a.lastMessageAt < b.lastMessageAt ? 1 : -1))[0];
+  return open ?? createThread(userId, timezone);
+};
+
+const autoTitle = (text: string) => {
+  const words = text.trim().split(/\s+/);
+  const title = words.slice(0, AUTO_TITLE_WORDS).join(" ");
+  return words.length > AUTO_TITLE_WORDS ? `${title}...` : title;
+};
+
+export const recordThreadMessage = async (thread: ChatThread, message: { sender: "user" | "ai"; text: string }) => {
+  const update: Record<string, unknown> = {
+    lastMessageAt: new Date().toISOString(),
+    messageCount: admin.firestore.FieldValue.increment(1),
+  };
+  if (message.sender === "user" && thread.titleSource === "auto" && thread.messageCount === 0) {
+    update.title = autoTitle(message.text);
+  }
+  await threadsCollection().doc(thread.id).update(update);
+};
+
+export const updateThread = async (userId: string, threadId: string, input: { title?: string; status?: "ended" }) => {
+  await getThread(userId, threadId);
+  await threadsCollection()
+    .doc(threadId)
+    .update({
+      ...(input.title ? { title: input.title.trim(), titleSource: "user" } : {}),
+      ...(input.status === "ended" ? { status: "ended", endedAt: new Date().toISOString() } : {}),
+    });
+  return getThread(userId, threadId);
+};
+
+export const listThreadMessages = async (userId: string, threadId: string) => {
+  const snapshot = await messagesCollection().where("userId", "==", userId).where("threadId", "==", threadId).get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as { text?: string; sender?: string; createdAt?: string }) }))
+    .filter((msg) => msg.createdAt)
+    .sort((a, b) => (a.createdAt as string).localeCompare(b.createdAt as string));
+};
+
+const threadSummarySchema = z.object({
+  title: z.string().min(1).max(80).optional(),
+  summary: z.string().min(1),
+  topEmotions: z.array(z.string()).default([]),
+});
+
+/**
+ * Summarises one thread and, unless the user named it, gives it a short
+ * title. Runs on the job queue after the thread goes quiet.
+ */
+export const generateThreadSummary = async (userId: string, threadId: string) => {
+  const thread = await getThread(userId, threadId);
+  const messages = await listThreadMessages(userId, threadId);
+  if (!messages.length) return thread;
+
+  const transcript = messages
+    .slice(-30)
+    .map((msg) => `${msg.sender === "ai" ? "Assistant" : "User"}: ${msg.text ?? ""}`)
+    .join("\n");
+
+  const result = await runWithFallback(
+    [
+      {
+        role: "system" as const,
+        content:
+          'Summarise this conversation in 1-3 warm sentences addressed to the user as "you", and give it a title of at most 6 words. ' +
+          'Return JSON {"title":"...","summary":"...","topEmotions":["..."]}.',
+      },
+      { role: "user" as const, content: transcript },
+    ],
+    { type: "json_object" },
+    { userId, purpose: "chat_thread_summary" },
+  );
+  if (!result.content) {
+    throw new Error("Thread summary unavailable");
+  }
+
+  const parsed = threadSummarySchema.parse(JSON.parse(result.content));
+  const update = {
+    summary: parsed.summary,
+    topEmotions: parsed.topEmotions.slice(0, 3),
+    summaryUpdatedAt: new Date().toISOString(),
+    ...(thread.titleSource === "auto" && parsed.title ? { title: parsed.title } : {}),
+  };
+  await threadsCollection().doc(threadId).update(update);
+  return { ...thread, ...update };
+};
@@ -1,7 +1,10 @@
+import crypto from "crypto";
 import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
 import { getDayKey } from "../../utils/date.js";
 
 export type Mood = "happy" | "calm" | "neutral" | "sad" | "anxious" | "frustrated";
+export type CheckInSource = "manual" | "chat";
 
 export interface CheckInInput {
   mood: Mood;
@@ -9,60 +12,253 @@ export interface CheckInInput {
   sentimentScore?: number;
   createdAt?: string;
   moodLabel?: string;
+  // 1-10 scales; how strongly the mood is felt and how much energy there is.
+  intensity?: number;
+  energy?: number;
+  sleepHours?: number;
+  activities?: string[];
+  people?: string[];
+  source?: CheckInSource;
+}
+
+export type EditableCheckInField = "mood" | "note" | "intensity" | "energy" | "sleepHours" | "activities" | "people";
+
+export type CheckInChanges = Partial<Pick<CheckInEntry, EditableCheckInField>>;
+
+const EDITABLE_FIELDS: EditableCheckInField[] = ["mood", "note", "intensity", "energy", "sleepHours", "activities", "people"];
+
+export interface CheckInHistoryItem {
+  at: string;
+  action: "edited" | "deleted";
+  // Previous value of every field the edit touched.
+  before: Partial<Pick<CheckInEntry, EditableCheckInField | "sentimentScore" | "moodLabel" | "source">>;
+}
+
+export interface CheckInEntry {
+  id: string;
+  mood: Mood;
+  moodLabel: string | null;
+  note: string;
+  sentimentScore: number | null;
+  intensity: number | null;
+  energy: number | null;
+  sleepHours: number | null;
+  activities: string[];
+  people: string[];
+  source: CheckInSource;
+  createdAt: string;
+  history?: CheckInHistoryItem[];
 }
 
 const dailyCollection = () => getFirestore().collection("checkinsDaily");
 
+// Chat adds an entry per message, so a busy day is trimmed, dropping the oldest chat-derived entries first.
+const MAX_ENTRIES_PER_DAY = 50;
+
+const normalizeTags = (tags?: string[]) =>
+  Array.from(new Set((tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean))).slice(0, 10);
+
+// Older documents predate ids and sources; everything written before this was either a check-in or chat.
+export const normalizeEntry = (entry: Partial<CheckInEntry>, index = 0): CheckInEntry => ({
+  id: entry.id ?? `legacy-${entry.createdAt ?? index}`,
+  mood: entry.mood ?? "neutral",
+  moodLabel: entry.moodLabel ?? null,
+  note: entry.note ?? "",
+  sentimentScore: typeof entry.sentimentScore === "number" ? entry.sentimentScore : null,
+  intensity: typeof entry.intensity === "number" ? entry.intensity : null,
+  energy: typeof entry.energy === "number" ? entry.energy : null,
+  sleepHours: typeof entry.sleepHours === "number" ? entry.sleepHours : null,
+  activities: entry.activities ?? [],
+  people: entry.people ?? [],
+  source: entry.source ?? (entry.moodLabel ? "chat" : "manual"),
+  createdAt: entry.createdAt ?? new Date(0).toISOString(),
+  ...(entry.history?.length ? { history: entry.history } : {}),
+});
+
+/**
+ * The mood a day is known by. A manual check-in always wins over anything
+ * inferred from chat; within a source the latest entry wins.
+ */
+export const resolveDayMood = (entries: CheckInEntry[]) => {
+  const latestFirst = entries.slice().sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+  const latest = latestFirst.find((entry) => entry.source === "manual") ?? latestFirst[0];
+  return latest
+    ? { mood: latest.mood, moodLabel: latest.moodLabel, source: latest.source }
+    : { mood: "neutral" as Mood, moodLabel: null, source: null };
+};
+
+const dayMoodFields = (entries: CheckInEntry[]) => {
+  // A day with every entry deleted has no mood left, not a made-up neutral one.
+  if (!entries.length) return { lastMood: null, lastMoodLabel: null, lastMoodSource: null };
+  const dayMood = resolveDayMood(entries);
+  return { lastMood: dayMood.mood, lastMoodLabel: dayMood.moodLabel, lastMoodSource: dayMood.source };
+};
+
+const trimEntries = (entries: CheckInEntry[]) => {
+  const sorted = entries.slice().sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+  while (sorted.length > MAX_ENTRIES_PER_DAY) {
+    const oldestChat = sorted.findIndex((entry) => entry.source === "chat");
+    sorted.splice(oldestChat === -1 ? 0 : oldestChat, 1);
+  }
+  return sorted;
+};
+
 export const upsertDailyCheckIn = async (userId: string, timezone: string, input: CheckInInput) => {
   const createdAt = input.createdAt ? new Date(input.createdAt) : new Date();
   const dayKey = getDayKey(createdAt, timezone);
-  const docId = `${userId}_${dayKey}`;
-  const docRef = dailyCollection().doc(docId);
-  const snap = await docRef.get();
+  const docRef = dailyCollection().doc(`${userId}_${dayKey}`);
 
-  const entry = {
+  const entry: CheckInEntry = {
+    id: crypto.randomUUID(),
     mood: input.mood,
     moodLabel: input.moodLabel ?? null,
     note: input.note ?? "",
     sentimentScore: typeof input.sentimentScore === "number" ? input.sentimentScore : null,
+    intensity: input.intensity ?? null,
+    energy: input.energy ?? null,
+    sleepHours: input.sleepHours ?? null,
+    activities: normalizeTags(input.activities),
+    people: normalizeTags(input.people),
+    source: input.source ?? "manual",
     createdAt: createdAt.toISOString(),
   };
 
-  if (!snap.exists) {
-    await docRef.set({
-      userId,
-      dayKey,
-      timezone,
-      entries: [entry],
-      lastMood: input.mood,
-      updatedAt: new Date().toISOString(),
-    });
-    return { dayKey, entryCount: 1 };
-  }
+  // Appending is a read-modify-write, so concurrent chat messages and check-ins must not lose each other.
+  return getFirestore().runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    const existing = ((snap.data()?.entries as Partial<CheckInEntry>[] | undefined) ?? []).map(normalizeEntry);
+    const entries = trimEntries([...existing, entry]);
+    const dayMood = dayMoodFields(entries);
 
-  await docRef.update({
-    entries: [entry],
-    lastMood: input.mood,
-    lastMoodLabel: input.moodLabel ?? null,
-    updatedAt: new Date().toISOString(),
+    tx.set(
+      docRef,
+      {
+        userId,
+        dayKey,
+        timezone,
+        entries,
+        ...dayMood,
+        updatedAt: new Date().toISOString(),
+      },
+      { merge: true },
+    );
+
+    return { dayKey, entryId: entry.id, entryCount: entries.length, mood: dayMood.lastMood, moodSource: dayMood.lastMoodSource };
   });
+};
+
+/**
+ * Runs a change against one entry of a day inside a transaction and
+ * recomputes the day's mood afterwards.
+ */
+const changeEntry = async (
+  userId: string,
+  dayKey: string,
+  entryId: string,
+  change: (entry: CheckInEntry, now: string) => { entries: (entries: CheckInEntry[]) => CheckInEntry[]; deleted?: CheckInEntry },
+) => {
+  const docRef = dailyCollection().doc(`${userId}_${dayKey}`);
+  return getFirestore().runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    const data = snap.data();
+    if (!snap.exists || data?.userId !== userId) {
+      throw new AppError("Check-in not found", 404);
+    }
+    const entries = ((data.entries as Partial<CheckInEntry>[] | undefined) ?? []).map(normalizeEntry);
+    const entry = entries.find((item) => item.id === entryId);
+    if (!entry) {
+      throw new AppError("Check-in not found", 404);
+    }
+
+    const now = new Date().toISOString();
+    const result = change(entry, now);
+    const nextEntries = result.entries(entries);
+    const deletedEntries = (data.deletedEntries as CheckInEntry[] | undefined) ?? [];
 
-  return { dayKey, entryCount: 1 };
+    tx.update(docRef, {
+      entries: nextEntries,
+      ...dayMoodFields(nextEntries),
+      ...(result.deleted ? { deletedEntries: [...deletedEntries, result.deleted] } : {}),
+      updatedAt: now,
+    });
+
+    return { entry: nextEntries.find((item) => item.id === entryId) ?? null, dayKey, entryCount: nextEntries.length, ...dayMoodFields(nextEntries) };
+  });
 };
 
+/**
+ * Corrects an entry and records the previous values in its history.
+ * Changing the mood of a chat-derived entry makes it a manual one: the user
+ * has now said how they felt, so it takes precedence like any check-in.
+ * A rewritten note's sentiment score is passed in by the caller, never taken from the client.
+ */
+export const updateCheckInEntry = async (
+  userId: string,
+  dayKey: string,
+  entryId: string,
+  input: CheckInChanges,
+  sentimentScore?: number,
+) =>
+  changeEntry(userId, dayKey, entryId, (entry, now) => {
+    const changes: CheckInChanges & { sentimentScore?: number } = {
+      ...Object.fromEntries(EDITABLE_FIELDS.filter((field) => input[field] !== undefined).map((field) => [field, input[field]])),
+      ...(input.activities ? { activities: normalizeTags(input.activities) } : {}),
+      ...(input.people ? { people: normalizeTags(input.people) } : {}),
+      ...(sentimentScore !== undefined ? { sentimentScore } : {}),
+    };
+    const fields = (Object.keys(changes) as Array<keyof typeof changes>).filter(
+      (field) => JSON.stringify(changes[field]) !== JSON.stringify(entry[field]),
+    );
+    if (!fields.length) {
+      return { entries: (entries) => entries };
+    }
+
+    const moodChanged = fields.includes("mood");
+    const before = {
+      ...Object.fromEntries(fields.map((field) => [field, entry[field]])),
+      ...(moodChanged ? { moodLabel: entry.moodLabel, source: entry.source } : {}),
+    } as CheckInHistoryItem["before"];
+    const updated: CheckInEntry = {
+      ...entry,
+      ...changes,
+      // Chat's blended label described the old mood, so it goes with it.
+      ...(moodChanged ? { moodLabel: null, source: "manual" as const } : {}),
+      history: [...(entry.history ?? []), { at: now, action: "edited", before }],
+    };
+    return { entries: (entries) => entries.map((item) => (item.id === entryId ? updated : item)) };
+  });
+
+/**
+ * Removes an entry from the day. The removed entry is kept on the day
+ * document, outside `entries`, so the audit trail survives the deletion.
+ */
+export const deleteCheckInEntry = async (userId: string, dayKey: string, entryId: string) =>
+  changeEntry(userId, dayKey, entryId, (entry, now) => ({
+    entries: (entries) => entries.filter((item) => item.id !== entryId),
+    deleted: { ...entry, history: [...(entry.history ?? []), { at: now, action: "deleted", before: {} }] },
+  }));
+
 export interface DailyCheckInRecord {
   id: string;
   userId: string;
   dayKey: string;
   timezone: string;
-  entries: CheckInInput[];
+  entries: CheckInEntry[];
   lastMood: Mood;
   lastMoodLabel?: string | null;
+  lastMoodSource?: CheckInSource | null;
   updatedAt: string;
 }
 
 export const getDailyCheckIns = async (userId: string): Promise<DailyCheckInRecord[]> => {
   const snapshot = await dailyCollection().where("userId", "==", userId).get();
-  const records = snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Omit<DailyCheckInRecord, "id">) }));
-  return records.sort((a, b) => (a.dayKey < b.dayKey ? 1 : -1));
+  const records = snapshot.docs.map((doc) => {
+    // Deleted entries stay on the document for the audit trail but are never listed.
+    const { deletedEntries: _deleted, ...data } = doc.data() as Omit<DailyCheckInRecord, "id"> & { deletedEntries?: unknown };
+    return { ...data, id: doc.id, entries: (Array.isArray(data.entries) ? data.entries : []).map(normalizeEntry) };
+  });
+  // A day whose entries were all deleted no longer counts as checked in.
+  return records
+    .filter((record) => record.entries.length)
+    .sort((a, b) => (a.dayKey < b.dayKey ? 1 : -1));
 };
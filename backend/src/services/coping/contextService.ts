@@ -0,0 +1,58 @@
+import { DateTime } from "luxon";
+import { buildRecommendationContext } from "@sahaay/shared";
+import { getFirestore } from "../../config/firebase.js";
+import { normalizeEntry } from "../checkin/checkinService.js";
+import type { CheckInEntry } from "../checkin/checkinService.js";
+import { getSafetyPlan } from "../safety/safetyPlanService.js";
+import type { CopingSession } from "./sessionService.js";
+
+const settingsCollection = () => getFirestore().collection("settings");
+const checkinsCollection = () => getFirestore().collection("checkinsDaily");
+const messagesCollection = () => getFirestore().collection("chatMessages");
+
+// A week for the mood trend; chat only from today and yesterday.
+const CHECKIN_DAYS = 7;
+const CHAT_DAYS = 2;
+
+const getUserTimezone = async (userId: string) => {
+  const doc = await settingsCollection().doc(userId).get();
+  return (doc.data()?.timezone as string | undefined) || "UTC";
+};
+
+const recentDayKeys = (timezone: string, days: number) => {
+  const today = DateTime.now().setZone(timezone).startOf("day");
+  return Array.from({ length: days }, (_, index) => today.minus({ days: index }).toFormat("yyyy-LL-dd"));
+};
+
+/**
+ * Gathers everything the recommendation context is built from. Daily
+ * check-in documents are read by key, so the latest day is always among
+ * them, and only the user's own chat messages count.
+ */
+export const loadRecommendationContext = async (userId: string, sessions: CopingSession[], availableMinutes: number | null) => {
+  const timezone = await getUserTimezone(userId);
+  const dayKeys = recentDayKeys(timezone, CHECKIN_DAYS);
+  const [checkinDocs, messageSnaps, plan] = await Promise.all([
+    getFirestore().getAll(...dayKeys.map((dayKey) => checkinsCollection().doc(`${userId}_${dayKey}`))),
+    Promise.all(
+      dayKeys.slice(0, CHAT_DAYS).map((dayKey) => messagesCollection().where("userId", "==", userId).where("dayKey", "==", dayKey).get()),
+    ),
+    getSafetyPlan(userId),
+  ]);
+
+  const checkIns = checkinDocs.flatMap((doc) => ((doc.data()?.entries as Partial<CheckInEntry>[] | undefined) ?? []).map(normalizeEntry));
+  const chatMessages = messageSnaps
+    .flatMap((snapshot) => snapshot.docs.map((doc) => doc.data()))
+    .filter((message) => message.sender === "user" && message.text && message.createdAt)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))
+    .map((message) => ({ text: message.text as string }));
+
+  return buildRecommendationContext({
+    checkIns,
+    chatMessages,
+    sessions,
+    safetyPlanSteps: (plan?.copingSteps as string[] | undefined) ?? [],
+    availableMinutes,
+    timeZone: timezone,
+  });
+};
@@ -0,0 +1,83 @@
+import type { CopingTool } from "@sahaay/shared";
+import { getFirestore } from "../../config/firebase.js";
+import { getSafetyPlan, getToolCopingSteps, setToolCopingStep } from "../safety/safetyPlanService.js";
+import { AppError } from "../../utils/appError.js";
+
+const customToolsCollection = () => getFirestore().collection("customCopingTools");
+
+// Every one of them is scored on each recommendations request.
+const MAX_CUSTOM_TOOLS = 50;
+
+export type CustomCopingToolInput = Pick<
+  CopingTool,
+  "title" | "description" | "category" | "supportedMoods" | "intensityLevel" | "durationMinutes"
+> & {
+  // Keeps the title in the safety plan's coping steps while set.
+  inSafetyPlan: boolean;
+};
+
+/** A tool a user made for themselves, such as "call my cousin". Only they see it. */
+export interface CustomCopingTool extends CopingTool {
+  userId: string;
+  custom: true;
+  // Read from the plan's tool steps, so a step removed on the Safety Plan page is not added back by the next edit.
+  inSafetyPlan: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type StoredCustomTool = Omit<CustomCopingTool, "id" | "inSafetyPlan">;
+
+// Ids of the tools whose step is still in the plan.
+const getToolsInPlan = async (userId: string) => {
+  const plan = await getSafetyPlan(userId);
+  const steps = (Array.isArray(plan?.copingSteps) ? plan.copingSteps : []) as string[];
+  return new Set(getToolCopingSteps(plan).filter((link) => steps.includes(link.step)).map((link) => link.toolId));
+};
+
+const toTool = (id: string, data: FirebaseFirestore.DocumentData, toolsInPlan: Set<string>): CustomCopingTool => {
+  // Tools saved before the flag was derived still carry a stored copy; the plan wins.
+  const { inSafetyPlan: _stored, ...tool } = data as StoredCustomTool & { inSafetyPlan?: boolean };
+  return { ...tool, id, inSafetyPlan: toolsInPlan.has(id) };
+};
+
+export const listCustomTools = async (userId: string) => {
+  const [snapshot, toolsInPlan] = await Promise.all([customToolsCollection().where("userId", "==", userId).get(), getToolsInPlan(userId)]);
+  return snapshot.docs.map((doc) => toTool(doc.id, doc.data(), toolsInPlan)).sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+};
+
+const getOwnTool = async (userId: string, id: string) => {
+  const doc = await customToolsCollection().doc(id).get();
+  const data = doc.data();
+  if (!data || data.userId !== userId) throw new AppError("Coping tool not found", 404);
+  return toTool(id, data, await getToolsInPlan(userId));
+};
+
+export const createCustomTool = async (userId: string, input: CustomCopingToolInput) => {
+  const existing = await customToolsCollection().where("userId", "==", userId).get();
+  if (existing.size >= MAX_CUSTOM_TOOLS) {
+    throw new AppError(`You can keep up to ${MAX_CUSTOM_TOOLS} of your own tools`, 400);
+  }
+  const { inSafetyPlan, ...content } = input;
+  const now = new Date().toISOString();
+  const payload: StoredCustomTool = { ...content, userId, type: "custom", custom: true, createdAt: now, updatedAt: now };
+  const ref = await customToolsCollection().add(payload);
+  if (inSafetyPlan) await setToolCopingStep(userId, ref.id, input.title);
+  return { ...payload, id: ref.id, inSafetyPlan };
+};
+
+export const updateCustomTool = async (userId: string, id: string, input: CustomCopingToolInput) => {
+  const current = await getOwnTool(userId, id);
+  const { id: _id, inSafetyPlan: _current, ...stored } = current;
+  const { inSafetyPlan, ...content } = input;
+  const data: StoredCustomTool = { ...stored, ...content, updatedAt: new Date().toISOString() };
+  await customToolsCollection().doc(id).set(data);
+  await setToolCopingStep(userId, id, inSafetyPlan ? input.title : null);
+  return { ...data, id, inSafetyPlan };
+};
+
+export const deleteCustomTool = async (userId: string, id: string) => {
+  const current = await getOwnTool(userId, id);
+  await customToolsCollection().doc(id).delete();
+  await setToolCopingStep(userId, id, null);
+};
@@ -0,0 +1,36 @@
+import type { RecommendedTool } from "@sahaay/shared";
+import { getFirestore } from "../../config/firebase.js";
+
+const favoritesCollection = () => getFirestore().collection("copingFavorites");
+
+// Added to a favorite's score, on top of anything learned from its sessions.
+const FAVORITE_BOOST = 15;
+
+export const setFavorite = async (userId: string, toolId: string, favorite: boolean) => {
+  const ref = favoritesCollection().doc(`${userId}_${toolId}`);
+  if (!favorite) {
+    await ref.delete();
+    return false;
+  }
+  await ref.set({ userId, toolId, createdAt: new Date().toISOString() });
+  return true;
+};
+
+export const listFavoriteToolIds = async (userId: string) => {
+  const snapshot = await favoritesCollection().where("userId", "==", userId).get();
+  return snapshot.docs.map((doc) => doc.data().toolId as string);
+};
+
+/**
+ * Boosts the user's favorites and lists them first. Each group keeps the
+ * order it came in, so favorites are still ranked against each other.
+ */
+export const rankFavoritesFirst = <T extends RecommendedTool>(tools: T[], favoriteIds: string[]) => {
+  const favorites = new Set(favoriteIds);
+  const marked = tools.map((tool) =>
+    favorites.has(tool.id)
+      ? { ...tool, favorite: true, score: Math.min(100, tool.score + FAVORITE_BOOST) }
+      : { ...tool, favorite: false },
+  );
+  return [...marked.filter((tool) => tool.favorite), ...marked.filter((tool) => !tool.favorite)];
+};
@@ -0,0 +1,181 @@
+import { getFirestore } from "../../config/firebase.js";
+import type { RecommendedTool } from "@sahaay/shared";
+import type { CopingSession } from "./sessionService.js";
+
+const feedbackCollection = () => getFirestore().collection("copingFeedback");
+
+// How many observations the heuristic score is worth before the user's own outcomes outweigh it.
+const PRIOR_STRENGTH = 4;
+// A thumbs up or down says more than one session's ratings.
+const VOTE_WEIGHT = 2;
+// Sessions without ratings only tell us whether the exercise was finished.
+const UNRATED_WEIGHT = 0.5;
+// A rated session counts once per point the mood moved, up to this many, so a big lift weighs more than a small one.
+const MAX_MOOD_CHANGE_WEIGHT = 4;
+// Averages over fewer rated sessions than this are too thin to quote back to the user.
+const MIN_RATED_SESSIONS = 2;
+// A tool the user usually abandons loses this much, once they have tried it a few times.
+const EARLY_STOP_PENALTY = 5;
+const EARLY_STOP_MIN_SESSIONS = 3;
+// Share of requests where an untried tool is moved up for the user to try.
+export const EXPLORATION_RATE = 0.15;
+const EXPLORATION_SLOT = 2;
+
+export type ToolVote = "up" | "down";
+
+export interface ToolFeedback {
+  userId: string;
+  toolId: string;
+  vote: ToolVote;
+  updatedAt: string;
+}
+
+export interface ToolEvidence {
+  successes: number;
+  failures: number;
+  sessions: number;
+  completed: number;
+  ratedSessions: number;
+  moodChangeSum: number;
+  vote: ToolVote | null;
+}
+
+export interface PersonalizedTool extends RecommendedTool {
+  // The fixed heuristic score the learned one started from.
+  heuristicScore: number;
+  learned: boolean;
+  exploration: boolean;
+  vote: ToolVote | null;
+}
+
+export const setToolFeedback = async (userId: string, toolId: string, vote: ToolVote | null) => {
+  const ref = feedbackCollection().doc(`${userId}_${toolId}`);
+  if (!vote) {
+    await ref.delete();
+    return null;
+  }
+  const feedback: ToolFeedback = { userId, toolId, vote, updatedAt: new Date().toISOString() };
+  await ref.set(feedback);
+  return feedback;
+};
+
+export const listToolFeedback = async (userId: string) => {
+  const snapshot = await feedbackCollection().where("userId", "==", userId).get();
+  return snapshot.docs.map((doc) => doc.data() as ToolFeedback);
+};
+
+const emptyEvidence = (): ToolEvidence => ({
+  successes: 0,
+  failures: 0,
+  sessions: 0,
+  completed: 0,
+  ratedSessions: 0,
+  moodChangeSum: 0,
+  vote: null,
+});
+
+/**
+ * Turns sessions and votes into success and failure counts per tool. A
+ * rated session counts for whichever way the mood moved, weighted by how
+ * far it moved; an unrated one counts half, for finishing or for stopping early.
+ */
+export const collectEvidence = (sessions: CopingSession[], feedback: ToolFeedback[]) => {
+  const evidence: Record<string, ToolEvidence> = {};
+  const forTool = (toolId: string) => (evidence[toolId] ??= emptyEvidence());
+
+  sessions.forEach((session) => {
+    const item = forTool(session.toolId);
+    item.sessions += 1;
+    if (session.completed) item.completed += 1;
+    if (session.moodChange !== null) {
+      item.ratedSessions += 1;
+      item.moodChangeSum += session.moodChange;
+      const weight = Math.min(Math.abs(session.moodChange), MAX_MOOD_CHANGE_WEIGHT);
+      if (session.moodChange > 0) item.successes += weight;
+      else if (session.moodChange < 0) item.failures += weight;
+      else {
+        item.successes += 0.5;
+        item.failures += 0.5;
+      }
+    } else if (session.completed) {
+      item.successes += UNRATED_WEIGHT;
+    } else {
+      item.failures += UNRATED_WEIGHT;
+    }
+  });
+
+  feedback.forEach((entry) => {
+    const item = forTool(entry.toolId);
+    item.vote = entry.vote;
+    if (entry.vote === "up") item.successes += VOTE_WEIGHT;
+    else item.failures += VOTE_WEIGHT;
+  });
+
+  return evidence;
+};
+
+const isOftenStoppedEarly = (evidence: ToolEvidence) =>
+  evidence.sessions >= EARLY_STOP_MIN_SESSIONS && evidence.completed / evidence.sessions < 0.5;
+
+const learnedReason = (evidence: ToolEvidence) => {
+  const reasons: string[] = [];
+  if (evidence.vote === "up") reasons.push("you marked it as helpful");
+  const averageChange = evidence.ratedSessions >= MIN_RATED_SESSIONS ? evidence.moodChangeSum / evidence.ratedSessions : 0;
+  if (averageChange >= 1) reasons.push(`it lifted your mood by about ${Math.round(averageChange * 10) / 10} points on average`);
+  else if (evidence.completed >= 2 && !evidence.ratedSessions) reasons.push("you keep coming back to it");
+  if (reasons.length) return `Suggested because ${reasons.join(" and ")}.`;
+
+  if (evidence.vote === "down") return "Ranked lower because you said it didn't help.";
+  if (averageChange < 0) return "Ranked lower because your mood tended to dip after it.";
+  if (isOftenStoppedEarly(evidence)) return "Ranked lower because you often stop it early.";
+  return null;
+};
+
+/**
+ * Re-ranks heuristic recommendations with what this user's outcomes say.
+ * Each tool's heuristic score becomes a Beta prior (worth PRIOR_STRENGTH
+ * observations), updated with the tool's successes and failures; the
+ * posterior mean, less a small penalty for tools usually stopped early, is
+ * the new score. Tools without evidence keep their heuristic score, so a
+ * new user sees exactly the heuristic ranking.
+ *
+ * With probability `explorationRate`, the best-matching tool the user has
+ * never tried is moved into the top three so the ranking keeps learning.
+ */
+export const personalizeRecommendations = (
+  recommended: RecommendedTool[],
+  evidence: Record<string, ToolEvidence>,
+  options: { explorationRate?: number; random?: () => number } = {},
+): PersonalizedTool[] => {
+  const { explorationRate = EXPLORATION_RATE, random = Math.random } = options;
+
+  const scored = recommended.map((tool): PersonalizedTool => {
+    const item = evidence[tool.id];
+    const base = { ...tool, heuristicScore: tool.score, learned: false, exploration: false, vote: item?.vote ?? null };
+    if (!item || item.successes + item.failures === 0) return base;
+
+    const prior = Math.min(0.95, Math.max(0.05, tool.score / 100));
+    const alpha = prior * PRIOR_STRENGTH + item.successes;
+    const beta = (1 - prior) * PRIOR_STRENGTH + item.failures;
+    const penalty = isOftenStoppedEarly(item) ? EARLY_STOP_PENALTY : 0;
+    return {
+      ...base,
+      score: Math.max(0, Math.round((alpha / (alpha + beta)) * 100) - penalty),
+      reason: learnedReason(item) ?? tool.reason,
+      learned: true,
+    };
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  if (!Object.keys(evidence).length || random() >= explorationRate) return scored;
+
+  const candidateIndex = scored.findIndex((tool, index) => index > EXPLORATION_SLOT && !evidence[tool.id]);
+  if (candidateIndex === -1) return scored;
+  const [candidate] = scored.splice(candidateIndex, 1);
+  scored.splice(EXPLORATION_SLOT, 0, {
+    ...candidate,
+    exploration: true,
+    reason: "Something new to try: it fits how you're feeling, and trying it helps us learn what works for you.",
+  });
+  return scored;
+};
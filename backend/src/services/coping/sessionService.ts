@@ -0,0 +1,94 @@
+import { getFirestore } from "../../config/firebase.js";
+
+const sessionsCollection = () => getFirestore().collection("copingSessions");
+
+export interface CopingSessionInput {
+  toolId: string;
+  durationSeconds: number;
+  completed: boolean;
+  // 1-10, how the user felt just before and just after the exercise.
+  preMood?: number | null;
+  postMood?: number | null;
+  startedAt?: string;
+}
+
+export interface CopingSession {
+  id: string;
+  userId: string;
+  toolId: string;
+  durationSeconds: number;
+  completed: boolean;
+  preMood: number | null;
+  postMood: number | null;
+  moodChange: number | null;
+  startedAt: string;
+  createdAt: string;
+}
+
+export interface ToolEffectiveness {
+  toolId: string;
+  sessions: number;
+  completed: number;
+  completionRate: number;
+  averageDurationSeconds: number;
+  // Sessions with both ratings; only these count towards the mood change.
+  ratedSessions: number;
+  averageMoodChange: number | null;
+  lastUsedAt: string;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const logCopingSession = async (userId: string, input: CopingSessionInput) => {
+  const preMood = input.preMood ?? null;
+  const postMood = input.postMood ?? null;
+  const now = new Date().toISOString();
+  const payload: Omit<CopingSession, "id"> = {
+    userId,
+    toolId: input.toolId,
+    durationSeconds: Math.round(input.durationSeconds),
+    completed: input.completed,
+    preMood,
+    postMood,
+    moodChange: preMood !== null && postMood !== null ? postMood - preMood : null,
+    startedAt: input.startedAt ?? now,
+    createdAt: now,
+  };
+  const ref = await sessionsCollection().add(payload);
+  return { ...payload, id: ref.id };
+};
+
+export const listCopingSessions = async (userId: string) => {
+  const snapshot = await sessionsCollection().where("userId", "==", userId).get();
+  return snapshot.docs
+    .map((doc) => ({ ...(doc.data() as Omit<CopingSession, "id">), id: doc.id }))
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+};
+
+/**
+ * Per-tool usage and mood change for one user, keyed by tool id.
+ */
+export const summarizeToolEffectiveness = (sessions: CopingSession[]) => {
+  const byTool = new Map<string, CopingSession[]>();
+  sessions.forEach((session) => byTool.set(session.toolId, [...(byTool.get(session.toolId) ?? []), session]));
+
+  return Object.fromEntries(
+    Array.from(byTool.entries()).map(([toolId, items]): [string, ToolEffectiveness] => {
+      const completed = items.filter((item) => item.completed).length;
+      const rated = items.filter((item) => item.moodChange !== null);
+      return [
+        toolId,
+        {
+          toolId,
+          sessions: items.length,
+          completed,
+          completionRate: round1(completed / items.length),
+          averageDurationSeconds: Math.round(items.reduce((sum, item) => sum + item.durationSeconds, 0) / items.length),
+          ratedSessions: rated.length,
+          averageMoodChange: rated.length ? round1(rated.reduce((sum, item) => sum + (item.moodChange as number), 0) / rated.length) : null,
+          lastUsedAt: items.reduce((latest, item) => (item.createdAt > latest ? item.createdAt : latest), items[0].createdAt),
+        },
+      ];
+    }),
+  ) as Record<string, ToolEffectiveness>;
+};
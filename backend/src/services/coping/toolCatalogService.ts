@@ -0,0 +1,169 @@
+import { COPING_TOOLS } from "@sahaay/shared";
+import type { CopingTool, ExerciseScript } from "@sahaay/shared";
+import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
+
+const toolsCollection = () => getFirestore().collection("copingTools");
+
+export interface CopingToolTranslation {
+  title: string;
+  description: string;
+  // Text for the tool's own script, step by step; timing and cues are not translated.
+  script?: {
+    intro?: string;
+    outro?: string;
+    steps: Array<{ label: string; prompt: string }>;
+  };
+}
+
+export type CopingToolContent = Omit<CopingTool, "id"> & {
+  translations: Record<string, CopingToolTranslation>;
+};
+
+// "changed" is a published tool whose draft has edits that are not live yet.
+export type CopingToolStatus = "draft" | "published" | "changed" | "hidden";
+
+/**
+ * The built-in tools from @sahaay/shared are live until an admin edits them.
+ * A stored record overrides the built-in tool with the same id: `published`
+ * is what users get (null hides the tool) and `draft` is the working copy.
+ */
+export interface CopingToolRecord {
+  id: string;
+  source: "built-in" | "stored";
+  draft: CopingToolContent;
+  published: CopingToolContent | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  publishedAt: string | null;
+}
+
+type StoredRecord = Omit<CopingToolRecord, "id" | "source">;
+
+const builtInContent = (tool: CopingTool): CopingToolContent => {
+  const { id: _id, ...content } = tool;
+  return { ...content, translations: {} };
+};
+
+const BUILT_IN = new Map(COPING_TOOLS.map((tool) => [tool.id, tool]));
+
+const builtInRecord = (tool: CopingTool): CopingToolRecord => ({
+  id: tool.id,
+  source: "built-in",
+  draft: builtInContent(tool),
+  published: builtInContent(tool),
+  createdAt: null,
+  updatedAt: null,
+  publishedAt: null,
+});
+
+const toRecord = (id: string, data: FirebaseFirestore.DocumentData): CopingToolRecord => {
+  // Documents written by the old seed script hold a bare CopingTool, which was live.
+  if (!("draft" in data)) {
+    const content = builtInContent({ ...(data as CopingTool), id });
+    return { id, source: "stored", draft: content, published: content, createdAt: null, updatedAt: null, publishedAt: null };
+  }
+  return { ...(data as StoredRecord), id, source: "stored" };
+};
+
+export const toolStatus = (record: CopingToolRecord): CopingToolStatus => {
+  if (!record.published) return record.publishedAt || BUILT_IN.has(record.id) ? "hidden" : "draft";
+  if (record.updatedAt && (!record.publishedAt || record.updatedAt > record.publishedAt)) return "changed";
+  return "published";
+};
+
+const loadRecords = async () => {
+  const snapshot = await toolsCollection().get();
+  const stored = new Map(snapshot.docs.map((doc) => [doc.id, toRecord(doc.id, doc.data())]));
+  return [...COPING_TOOLS.filter((tool) => !stored.has(tool.id)).map(builtInRecord), ...stored.values()];
+};
+
+export const listToolRecords = async () => {
+  const records = await loadRecords();
+  return records.map((record) => ({ ...record, status: toolStatus(record) }));
+};
+
+export const getToolRecord = async (id: string) => {
+  const doc = await toolsCollection().doc(id).get();
+  if (doc.exists) return toRecord(id, doc.data() ?? {});
+  const builtIn = BUILT_IN.get(id);
+  if (!builtIn) throw new AppError("Coping tool not found", 404);
+  return builtInRecord(builtIn);
+};
+
+const writeRecord = async (record: CopingToolRecord) => {
+  const { id, source: _source, ...data } = record;
+  await toolsCollection().doc(id).set(data);
+  return { ...record, source: "stored" as const, status: toolStatus(record) };
+};
+
+export const createTool = async (id: string, content: CopingToolContent) => {
+  const existing = await toolsCollection().doc(id).get();
+  if (existing.exists || BUILT_IN.has(id)) {
+    throw new AppError("A coping tool with this id already exists", 409);
+  }
+  const now = new Date().toISOString();
+  return writeRecord({ id, source: "stored", draft: content, published: null, createdAt: now, updatedAt: now, publishedAt: null });
+};
+
+export const saveToolDraft = async (id: string, content: CopingToolContent) => {
+  const record = await getToolRecord(id);
+  const now = new Date().toISOString();
+  return writeRecord({ ...record, draft: content, createdAt: record.createdAt ?? now, updatedAt: now });
+};
+
+export const publishTool = async (id: string) => {
+  const record = await getToolRecord(id);
+  const now = new Date().toISOString();
+  return writeRecord({ ...record, published: record.draft, createdAt: record.createdAt ?? now, updatedAt: record.updatedAt ?? now, publishedAt: now });
+};
+
+export const unpublishTool = async (id: string) => {
+  const record = await getToolRecord(id);
+  const now = new Date().toISOString();
+  return writeRecord({ ...record, published: null, createdAt: record.createdAt ?? now, publishedAt: now });
+};
+
+/** Removes the stored record; a built-in tool goes back to its original content. */
+export const deleteTool = async (id: string) => {
+  const doc = await toolsCollection().doc(id).get();
+  if (!doc.exists) throw new AppError("Coping tool not found", 404);
+  await doc.ref.delete();
+};
+
+const findTranslation = (translations: Record<string, CopingToolTranslation>, locale?: string) => {
+  if (!locale) return null;
+  const byTag = new Map(Object.entries(translations).map(([tag, translation]) => [tag.toLowerCase(), translation]));
+  const tag = locale.toLowerCase();
+  // "hi-IN" falls back to "hi" when there is no exact match.
+  return byTag.get(tag) ?? byTag.get(tag.split("-")[0]) ?? null;
+};
+
+const localizeScript = (script: ExerciseScript, translation: NonNullable<CopingToolTranslation["script"]>): ExerciseScript => ({
+  ...script,
+  intro: translation.intro ?? script.intro,
+  outro: translation.outro ?? script.outro,
+  steps: script.steps.map((step, index) => ({ ...step, ...translation.steps[index] })),
+});
+
+export const localizeTool = (id: string, content: CopingToolContent, locale?: string): CopingTool => {
+  const { translations, ...tool } = content;
+  const translation = findTranslation(translations ?? {}, locale);
+  if (!translation) return { ...tool, id };
+  return {
+    ...tool,
+    id,
+    title: translation.title,
+    description: translation.description,
+    script: tool.script && translation.script ? localizeScript(tool.script, translation.script) : tool.script,
+  };
+};
+
+/**
+ * The tools users can be recommended, in the requested locale where a
+ * translation exists. Read on every request, so publishing takes effect at once.
+ */
+export const listPublishedTools = async (locale?: string) => {
+  const records = await loadRecords();
+  return records.flatMap((record) => (record.published ? [localizeTool(record.id, record.published, locale)] : []));
+};
@@ -0,0 +1,294 @@
+import admin from "firebase-admin";
+import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
+import { dispatchToUser } from "../notification/notificationService.js";
+import { getHelplineList } from "../safety/helplineService.js";
+import type { Helpline } from "../safety/helplineService.js";
+import { getSafetyPlan } from "../safety/safetyPlanService.js";
+
+const eventsCollection = () => getFirestore().collection("crisisEvents");
+const usersCollection = () => getFirestore().collection("users");
+const profilesCollection = () => getFirestore().collection("profiles");
+
+// New high-severity signals inside this window join the open event instead of opening another one.
+const EVENT_MERGE_WINDOW_HOURS = 6;
+// Trusted contacts hear from us at most once per window, however many events occur.
+const CONTACT_ALERT_COOLDOWN_HOURS = 24;
+const FOLLOW_UP_OFFSETS_HOURS = [1, 24];
+// A follow-up that reached no device is retried with a doubling delay, then given up, so a broken push setup never spams.
+const FOLLOW_UP_MAX_ATTEMPTS = 3;
+const FOLLOW_UP_RETRY_BASE_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export interface CrisisContact {
+  id: string;
+  name: string;
+  relation?: string;
+  phone?: string;
+  email?: string;
+  alertInCrisis?: boolean;
+}
+
+export interface CrisisProtocol {
+  helplines: Helpline[];
+  copingSteps: string[];
+  contacts: Array<Pick<CrisisContact, "id" | "name" | "relation" | "phone">>;
+}
+
+export interface CrisisAuditEntry {
+  at: string;
+  action: "created" | "signal_merged" | "contact_alert" | "follow_up_sent" | "follow_up_failed" | "resolved";
+  detail?: string;
+}
+
+export interface CrisisFollowUp {
+  dueAt: string;
+  status: "scheduled" | "sent" | "cancelled" | "failed";
+  sentAt?: string;
+  // Failed deliveries so far, and when the next try is due.
+  attempts?: number;
+  retryAt?: string;
+}
+
+export interface CrisisEvent {
+  id: string;
+  userId: string;
+  status: "open" | "resolved";
+  source: "chat" | "assessment";
+  rationale: string;
+  messageIds: string[];
+  signalCount: number;
+  protocol: CrisisProtocol;
+  contactAlerts: Array<{ contactId: string; name: string; status: "sent" | "no_account"; at: string }>;
+  followUps: CrisisFollowUp[];
+  nextFollowUpAt: Date | null;
+  audit: CrisisAuditEntry[];
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+}
+
+export interface CrisisSignal {
+  // The chat message or assessment that raised the signal.
+  messageId: string;
+  severity: "none" | "low" | "high";
+  rationale: string;
+  source?: CrisisEvent["source"];
+}
+
+const toEvent = (doc: FirebaseFirestore.DocumentSnapshot): CrisisEvent => {
+  const data = doc.data() as Omit<CrisisEvent, "id" | "nextFollowUpAt"> & { nextFollowUpAt?: FirebaseFirestore.Timestamp | null };
+  return {
+    ...data,
+    id: doc.id,
+    nextFollowUpAt: data.nextFollowUpAt ? data.nextFollowUpAt.toDate() : null,
+  };
+};
+
+const listUserEvents = async (userId: string) => {
+  const snapshot = await eventsCollection().where("userId", "==", userId).get();
+  return snapshot.docs.map(toEvent).sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+};
+
+const buildProtocol = async (userId: string): Promise<{ protocol: CrisisProtocol; contacts: CrisisContact[] }> => {
+  const [helplines, plan] = await Promise.all([getHelplineList(), getSafetyPlan(userId)]);
+  const contacts = (Array.isArray(plan?.contacts) ? plan.contacts : []) as CrisisContact[];
+  const copingSteps = (Array.isArray(plan?.copingSteps) ? plan.copingSteps : []) as string[];
+  return {
+    protocol: {
+      helplines,
+      copingSteps: copingSteps.filter(Boolean).slice(0, 5),
+      contacts: contacts
+        .filter((contact) => contact?.name)
+        .map(({ id, name, relation, phone }) => ({ id, name, relation, phone })),
+    },
+    contacts,
+  };
+};
+
+const findAccountByEmail = async (email: string) => {
+  const snapshot = await usersCollection().where("emailLower", "==", email.trim().toLowerCase()).limit(1).get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+};
+
+const alertTrustedContacts = async (userId: string, contacts: CrisisContact[], previous: CrisisEvent[]) => {
+  const optedIn = contacts.filter((contact) => contact.alertInCrisis && contact.email);
+  if (!optedIn.length) return [];
+
+  const cutoff = Date.now() - CONTACT_ALERT_COOLDOWN_HOURS * HOUR_MS;
+  const recentlyAlerted = previous.some((event) =>
+    event.contactAlerts?.some((alert) => alert.status === "sent" && new Date(alert.at).getTime() > cutoff),
+  );
+  if (recentlyAlerted) return [];
+
+  const profile = (await profilesCollection().doc(userId).get()).data() as { name?: string } | undefined;
+  const displayName = profile?.name?.trim() || "Someone who listed you as a trusted contact";
+
+  return Promise.all(
+    optedIn.map(async (contact) => {
+      const at = new Date().toISOString();
+      const contactUserId = await findAccountByEmail(contact.email as string);
+      if (!contactUserId) {
+        return { contactId: contact.id, name: contact.name, status: "no_account" as const, at };
+      }
+      await dispatchToUser(
+        contactUserId,
+        "Someone you support may need you",
+        `${displayName} is having a hard time right now. A call or message from you could help.`,
+      );
+      return { contactId: contact.id, name: contact.name, status: "sent" as const, at };
+    }),
+  );
+};
+
+/**
+ * Turns a high-severity crisis result into an auditable event. Repeated
+ * signals within the merge window are attached to the open event so the user
+ * is not re-alerted, and contacts are only notified once per cooldown.
+ */
+export const recordCrisisSignal = async (userId: string, signal: CrisisSignal) => {
+  if (signal.severity !== "high") return null;
+
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const previous = await listUserEvents(userId);
+  const open = previous.find(
+    (event) => event.status === "open" && now.getTime() - new Date(event.createdAt).getTime() < EVENT_MERGE_WINDOW_HOURS * HOUR_MS,
+  );
+
+  if (open) {
+    await eventsCollection()
+      .doc(open.id)
+      .update({
+        messageIds: admin.firestore.FieldValue.arrayUnion(signal.messageId),
+        signalCount: admin.firestore.FieldValue.increment(1),
+        updatedAt: nowIso,
+        audit: admin.firestore.FieldValue.arrayUnion({ at: nowIso, action: "signal_merged", detail: signal.messageId }),
+      });
+    return { ...open, messageIds: [...open.messageIds, signal.messageId], signalCount: open.signalCount + 1 };
+  }
+
+  const { protocol, contacts } = await buildProtocol(userId);
+  const contactAlerts = await alertTrustedContacts(userId, contacts, previous);
+  const followUps: CrisisFollowUp[] = FOLLOW_UP_OFFSETS_HOURS.map((hours) => ({
+    dueAt: new Date(now.getTime() + hours * HOUR_MS).toISOString(),
+    status: "scheduled",
+  }));
+
+  const audit: CrisisAuditEntry[] = [
+    { at: nowIso, action: "created", detail: signal.rationale },
+    ...contactAlerts.map((alert) => ({ at: alert.at, action: "contact_alert" as const, detail: `${alert.name}: ${alert.status}` })),
+  ];
+
+  const payload: Omit<CrisisEvent, "id"> = {
+    userId,
+    status: "open",
+    source: signal.source ?? "chat",
+    rationale: signal.rationale,
+    messageIds: [signal.messageId],
+    signalCount: 1,
+    protocol,
+    contactAlerts,
+    followUps,
+    nextFollowUpAt: new Date(followUps[0].dueAt),
+    audit,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+    resolvedAt: null,
+  };
+
+  const doc = await eventsCollection().add(payload);
+  return { id: doc.id, ...payload };
+};
+
+export const getActiveCrisisEvent = async (userId: string) => {
+  const events = await listUserEvents(userId);
+  return events.find((event) => event.status === "open") ?? null;
+};
+
+export const listCrisisEvents = async (userId: string) => {
+  const events = await listUserEvents(userId);
+  return events.slice(0, 50);
+};
+
+export const resolveCrisisEvent = async (userId: string, eventId: string, note?: string) => {
+  const docRef = eventsCollection().doc(eventId);
+  const snap = await docRef.get();
+  if (!snap.exists || snap.data()?.userId !== userId) {
+    throw new AppError("Crisis event not found", 404);
+  }
+
+  const nowIso = new Date().toISOString();
+  const { followUps } = toEvent(snap);
+  await docRef.update({
+    status: "resolved",
+    resolvedAt: nowIso,
+    updatedAt: nowIso,
+    // Nothing left to check in about once the user has marked the moment as passed.
+    followUps: (followUps ?? []).map((followUp) =>
+      followUp.status === "scheduled" ? { ...followUp, status: "cancelled" as const } : followUp,
+    ),
+    nextFollowUpAt: null,
+    audit: admin.firestore.FieldValue.arrayUnion({ at: nowIso, action: "resolved", detail: note ?? "" }),
+  });
+  return toEvent(await docRef.get());
+};
+
+const followUpDueAt = (followUp: CrisisFollowUp) => followUp.retryAt ?? followUp.dueAt;
+
+export const runDueCrisisFollowUps = async () => {
+  const now = new Date();
+  const due = await eventsCollection().where("nextFollowUpAt", "<=", now).get();
+  for (const doc of due.docs) {
+    const event = toEvent(doc);
+    const nowIso = now.toISOString();
+    if (event.status !== "open") {
+      // Events resolved before follow-ups were cancelled on resolve still carry a due date.
+      await doc.ref.update({ nextFollowUpAt: null }).catch(() => null);
+      continue;
+    }
+
+    let delivered = false;
+    try {
+      const result = await dispatchToUser(
+        event.userId,
+        "Checking in on you",
+        "Earlier was a hard moment. How are you doing now? Your safety plan and helplines are one tap away.",
+      );
+      // With no device registered there is nothing a retry could change.
+      delivered = result.delivered > 0 || result.failed === 0;
+    } catch {
+      // Counted as a failed attempt below; the other events still run.
+    }
+
+    const followUps = event.followUps.map((followUp): CrisisFollowUp => {
+      if (followUp.status !== "scheduled" || new Date(followUpDueAt(followUp)) > now) return followUp;
+      if (delivered) return { ...followUp, status: "sent", sentAt: nowIso };
+      const attempts = (followUp.attempts ?? 0) + 1;
+      if (attempts >= FOLLOW_UP_MAX_ATTEMPTS) return { ...followUp, status: "failed", attempts };
+      const retryAt = new Date(now.getTime() + FOLLOW_UP_RETRY_BASE_MINUTES * 2 ** (attempts - 1) * MINUTE_MS);
+      return { ...followUp, attempts, retryAt: retryAt.toISOString() };
+    });
+    const next = followUps
+      .filter((followUp) => followUp.status === "scheduled")
+      .map(followUpDueAt)
+      .sort()[0];
+
+    await doc.ref
+      .update({
+        followUps,
+        nextFollowUpAt: next ? new Date(next) : null,
+        updatedAt: nowIso,
+        audit: admin.firestore.FieldValue.arrayUnion({ at: nowIso, action: delivered ? "follow_up_sent" : "follow_up_failed" }),
+      })
+      .catch(() => null);
+  }
+};
+
+export const startCrisisFollowUpScheduler = () => {
+  setInterval(() => {
+    runDueCrisisFollowUps().catch(() => null);
+  }, 60000);
+};
@@ -1,20 +1,22 @@
+import { matchCrisisPhrases } from "@sahaay/shared";
 import { runWithFallback } from "../ai/aiService.js";
 
-const crisisKeywords = [
-  "suicide",
-  "kill myself",
-  "end it all",
-  "self harm",
-  "dont want to live",
-  "i want to die",
-];
-
 export interface CrisisResult {
   severity: "none" | "low" | "high";
   rationale: string;
   usedFallback: boolean;
 }
 
+export const detectCrisisByKeywords = (text: string): CrisisResult => {
+  const { phrases, languages } = matchCrisisPhrases(text);
+  const matched = phrases.length > 0;
+  return {
+    severity: matched ? "high" : "none",
+    rationale: matched ? `Matched crisis keyword (${languages.join(", ")})` : "No keyword match",
+    usedFallback: true,
+  };
+};
+
 export const detectCrisis = async (text: string, meta?: { userId?: string; purpose?: string }): Promise<CrisisResult> => {
   const messages = [
     { role: "system" as const, content: "Detect crisis risk. Return JSON with severity (none, low, high) and rationale." },
@@ -33,11 +35,5 @@ export const detectCrisis = async (text: string, meta?: { userId?: string; purpo
     }
   }
 
-  const lower = text.toLowerCase();
-  const matched = crisisKeywords.some((kw) => lower.includes(kw));
-  return {
-    severity: matched ? "high" : "none",
-    rationale: matched ? "Matched crisis keyword" : "No keyword match",
-    usedFallback: true,
-  };
+  return detectCrisisByKeywords(text);
 };
@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { runWithFallback } from "../ai/aiService.js";
+import { classifyEmotionByKeywords } from "./emotionEngine.js";
+import type { EmotionLabel, EmotionResult } from "./emotionEngine.js";
+import { detectCrisisByKeywords } from "./crisisService.js";
+import type { CrisisResult } from "./crisisService.js";
+
+export const MESSAGE_TOPICS = [
+  "work stress",
+  "studies",
+  "sleep",
+  "family",
+  "relationships",
+  "loneliness",
+  "anxiety",
+  "low mood",
+  "health",
+  "finances",
+  "self-esteem",
+] as const;
+
+export type MessageTopic = (typeof MESSAGE_TOPICS)[number];
+
+export interface MessageAnalysis {
+  emotion: EmotionResult;
+  crisis: CrisisResult;
+  tags: MessageTopic[];
+  triggers: string[];
+  model: string | null;
+  usedFallback: boolean;
+}
+
+const EMOTION_LABELS = ["happy", "calm", "neutral", "sad", "anxious", "frustrated"] as const;
+const NEGATIVE_EMOTIONS: EmotionLabel[] = ["sad", "anxious", "frustrated"];
+
+const analysisSchema = z.object({
+  emotion: z.object({
+    primary: z.enum(EMOTION_LABELS),
+    secondary: z.array(z.enum(EMOTION_LABELS)).default([]),
+    confidence: z.number().min(0).max(1),
+    sentimentScore: z.number().min(0).max(1),
+  }),
+  crisis: z.object({
+    severity: z.enum(["none", "low", "high"]),
+    rationale: z.string().default(""),
+  }),
+  topics: z.array(z.string()).default([]),
+  triggers: z.array(z.string()).default([]),
+});
+
+const SYSTEM_PROMPT = `Analyse the user's message for a mental wellness companion. Return JSON only, shaped as:
+{"emotion":{"primary":"<label>","secondary":["<label>"],"confidence":0-1,"sentimentScore":0-1},
+"crisis":{"severity":"none|low|high","rationale":"<short reason>"},
+"topics":["<topic>"],
+"triggers":["<short phrase naming what set off the feeling>"]}
+Emotion labels: ${EMOTION_LABELS.join(", ")}.
+Topics must come from: ${MESSAGE_TOPICS.join(", ")}.
+Use crisis "high" for any sign of suicidal thoughts or self-harm intent, "low" for hopelessness without intent.
+Triggers are at most three short phrases taken from the message; use [] if none are stated.`;
+
+const topicKeywords: Record<MessageTopic, string[]> = {
+  "work stress": ["work", "boss", "office", "deadline", "job"],
+  studies: ["exam", "study", "college", "school", "assignment"],
+  sleep: ["sleep", "insomnia", "tired"],
+  family: ["family", "parents", "mother", "father", "sister", "brother"],
+  relationships: ["partner", "boyfriend", "girlfriend", "breakup", "friend"],
+  loneliness: ["lonely", "alone", "isolated"],
+  anxiety: ["anxious", "anxiety", "panic"],
+  "low mood": ["sad", "down", "hopeless", "empty"],
+  health: ["sick", "pain", "illness", "doctor"],
+  finances: ["money", "rent", "loan", "debt"],
+  "self-esteem": ["worthless", "failure", "not good enough", "ugly"],
+};
+
+export const extractTags = (text: string): MessageTopic[] => {
+  const lower = text.toLowerCase();
+  return MESSAGE_TOPICS.filter((topic) => topicKeywords[topic].some((kw) => lower.includes(kw)));
+};
+
+const normalizeTopics = (topics: string[]) => {
+  const known = new Set<string>(MESSAGE_TOPICS);
+  return Array.from(new Set(topics.map((topic) => topic.toLowerCase().trim()))).filter((topic): topic is MessageTopic =>
+    known.has(topic),
+  );
+};
+
+const normalizeTriggers = (triggers: string[]) =>
+  Array.from(new Set(triggers.map((trigger) => trigger.toLowerCase().trim()).filter(Boolean))).slice(0, 3);
+
+/**
+ * Keyword-only analysis used when the model is unavailable or returns
+ * something that does not validate against the schema.
+ */
+export const analyzeMessageByKeywords = (text: string): MessageAnalysis => {
+  const emotion = classifyEmotionByKeywords(text);
+  const tags = extractTags(text);
+  return {
+    emotion,
+    crisis: detectCrisisByKeywords(text),
+    tags,
+    triggers: NEGATIVE_EMOTIONS.includes(emotion.primary) ? [...tags] : [],
+    model: null,
+    usedFallback: true,
+  };
+};
+
+export const analyzeMessage = async (
+  text: string,
+  meta?: { userId?: string; purpose?: string },
+): Promise<MessageAnalysis> => {
+  const response = await runWithFallback(
+    [
+      { role: "system" as const, content: SYSTEM_PROMPT },
+      { role: "user" as const, content: text },
+    ],
+    { type: "json_object" },
+    meta,
+  );
+
+  if (!response.content) {
+    return analyzeMessageByKeywords(text);
+  }
+
+  let parsed: z.infer<typeof analysisSchema>;
+  try {
+    const result = analysisSchema.safeParse(JSON.parse(response.content));
+    if (!result.success) {
+      return analyzeMessageByKeywords(text);
+    }
+    parsed = result.data;
+  } catch {
+    return analyzeMessageByKeywords(text);
+  }
+
+  // Same bar classifyEmotion applies: an unsure model loses to the keyword scorer.
+  const emotion: EmotionResult =
+    parsed.emotion.confidence >= 0.7
+      ? { ...parsed.emotion, usedFallback: false }
+      : classifyEmotionByKeywords(text);
+
+  // A crisis keyword hit is never downgraded by the model.
+  const keywordCrisis = detectCrisisByKeywords(text);
+  const crisis: CrisisResult =
+    keywordCrisis.severity === "high" && parsed.crisis.severity !== "high"
+      ? keywordCrisis
+      : { ...parsed.crisis, usedFallback: false };
+
+  const tags = normalizeTopics(parsed.topics);
+
+  return {
+    emotion,
+    crisis,
+    tags: tags.length ? tags : extractTags(text),
+    triggers: normalizeTriggers(parsed.triggers),
+    model: response.model,
+    usedFallback: emotion.usedFallback || crisis.usedFallback,
+  };
+};
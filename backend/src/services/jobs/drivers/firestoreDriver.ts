@@ -0,0 +1,54 @@
+import { getFirestore } from "../../../config/firebase.js";
+import type { Job, JobDriver } from "../types.js";
+import { claimTransition, completeTransition, enqueueTransition, failTransition, isClaimable } from "./transitions.js";
+
+const jobsCollection = () => getFirestore().collection("jobs");
+
+const toJob = (doc: FirebaseFirestore.DocumentSnapshot): Job | null => {
+  if (!doc.exists) return null;
+  const data = doc.data() as Omit<Job, "id" | "runAt"> & { runAt?: FirebaseFirestore.Timestamp | null };
+  return { ...data, id: doc.id, runAt: data.runAt ? data.runAt.toDate() : null };
+};
+
+const toData = ({ id: _id, ...job }: Job) => job;
+
+// Every state change is a read-modify-write in a transaction so two workers never claim the same job.
+const transition = (id: string, change: (job: Job) => Job | null) =>
+  getFirestore().runTransaction(async (tx) => {
+    const ref = jobsCollection().doc(id);
+    const job = toJob(await tx.get(ref));
+    const next = job ? change(job) : null;
+    if (next) tx.set(ref, toData(next));
+    return next;
+  });
+
+export const createFirestoreDriver = (): JobDriver => ({
+  enqueue: async (input) => {
+    const id = `${input.type}_${input.key}`;
+    return getFirestore().runTransaction(async (tx) => {
+      const ref = jobsCollection().doc(id);
+      const job = enqueueTransition(toJob(await tx.get(ref)), input, id, new Date());
+      tx.set(ref, toData(job));
+      return job;
+    });
+  },
+  claimDue: async (now, leaseMs, limit) => {
+    // Single-field range query; runAt is null for finished jobs so they never match.
+    const due = await jobsCollection().where("runAt", "<=", now).limit(limit).get();
+    const claimed = await Promise.all(
+      due.docs.map((doc) => transition(doc.id, (job) => (isClaimable(job, now) ? claimTransition(job, now, leaseMs) : null))),
+    );
+    return claimed.filter((job): job is Job => Boolean(job));
+  },
+  complete: async (id) => {
+    await transition(id, (job) => completeTransition(job, new Date()));
+  },
+  fail: async (id, error, retryAt) => {
+    await transition(id, (job) => failTransition(job, error, retryAt, new Date()));
+  },
+  get: async (id) => toJob(await jobsCollection().doc(id).get()),
+  listByUser: async (userId) => {
+    const snapshot = await jobsCollection().where("userId", "==", userId).get();
+    return snapshot.docs.map(toJob).filter((job): job is Job => Boolean(job));
+  },
+});
@@ -0,0 +1,32 @@
+import type { Job, JobDriver } from "../types.js";
+import { claimTransition, completeTransition, enqueueTransition, failTransition, isClaimable } from "./transitions.js";
+
+export const createMemoryDriver = (): JobDriver => {
+  const jobs = new Map<string, Job>();
+
+  const update = (id: string, change: (job: Job) => Job) => {
+    const job = jobs.get(id);
+    if (job) jobs.set(id, change(job));
+  };
+
+  return {
+    enqueue: async (input) => {
+      const id = `${input.type}_${input.key}`;
+      const job = enqueueTransition(jobs.get(id) ?? null, input, id, new Date());
+      jobs.set(id, job);
+      return job;
+    },
+    claimDue: async (now, leaseMs, limit) => {
+      const due = Array.from(jobs.values())
+        .filter((job) => isClaimable(job, now))
+        .slice(0, limit)
+        .map((job) => claimTransition(job, now, leaseMs));
+      due.forEach((job) => jobs.set(job.id, job));
+      return due;
+    },
+    complete: async (id) => update(id, (job) => completeTransition(job, new Date())),
+    fail: async (id, error, retryAt) => update(id, (job) => failTransition(job, error, retryAt, new Date())),
+    get: async (id) => jobs.get(id) ?? null,
+    listByUser: async (userId) => Array.from(jobs.values()).filter((job) => job.userId === userId),
+  };
+};
@@ -0,0 +1,81 @@
+import type { EnqueueInput, Job } from "../types.js";
+
+/**
+ * State changes shared by every driver, so the in-memory queue used in local
+ * development behaves exactly like the Firestore one.
+ */
+export const enqueueTransition = (existing: Job | null, input: EnqueueInput, id: string, now: Date): Job => {
+  const nowIso = now.toISOString();
+  const runAt = new Date(now.getTime() + input.debounceMs);
+
+  if (existing?.status === "pending") {
+    // Steady activity keeps pushing the run back, so it is held to a deadline set by the first request.
+    const pendingSince = existing.pendingSince ?? existing.updatedAt;
+    const deadline = new Date(new Date(pendingSince).getTime() + input.maxDelayMs);
+    return {
+      ...existing,
+      payload: input.payload,
+      runAt: runAt < deadline ? runAt : deadline,
+      debounceMs: input.debounceMs,
+      pendingSince,
+      updatedAt: nowIso,
+    };
+  }
+  if (existing?.status === "running") {
+    return { ...existing, payload: input.payload, rerun: true, debounceMs: input.debounceMs, updatedAt: nowIso };
+  }
+
+  return {
+    id,
+    type: input.type,
+    userId: input.userId,
+    payload: input.payload,
+    status: "pending",
+    attempts: 0,
+    maxAttempts: input.maxAttempts,
+    runAt,
+    debounceMs: input.debounceMs,
+    pendingSince: nowIso,
+    rerun: false,
+    lastError: null,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+    completedAt: null,
+  };
+};
+
+export const isClaimable = (job: Job, now: Date) =>
+  (job.status === "pending" || job.status === "running") && job.runAt !== null && job.runAt <= now;
+
+export const claimTransition = (job: Job, now: Date, leaseMs: number): Job => ({
+  ...job,
+  status: "running",
+  attempts: job.attempts + 1,
+  runAt: new Date(now.getTime() + leaseMs),
+  updatedAt: now.toISOString(),
+});
+
+const rerunTransition = (job: Job, now: Date): Job => ({
+  ...job,
+  status: "pending",
+  attempts: 0,
+  rerun: false,
+  runAt: new Date(now.getTime() + job.debounceMs),
+  pendingSince: now.toISOString(),
+  updatedAt: now.toISOString(),
+});
+
+export const completeTransition = (job: Job, now: Date): Job =>
+  job.rerun
+    ? rerunTransition(job, now)
+    : { ...job, status: "succeeded", runAt: null, lastError: null, updatedAt: now.toISOString(), completedAt: now.toISOString() };
+
+export const failTransition = (job: Job, error: string, retryAt: Date | null, now: Date): Job => {
+  if (retryAt) {
+    return { ...job, status: "pending", runAt: retryAt, lastError: error, updatedAt: now.toISOString() };
+  }
+  if (job.rerun) {
+    return { ...rerunTransition(job, now), lastError: error };
+  }
+  return { ...job, status: "failed", runAt: null, lastError: error, updatedAt: now.toISOString(), completedAt: now.toISOString() };
+};
@@ -0,0 +1,41 @@
+import { refreshDayAggregate } from "../analytics/aggregateService.js";
+import { generateDailySummary } from "../chat/chatSummaryService.js";
+import { generateThreadSummary } from "../chat/threadService.js";
+import type { EmotionResult } from "../emotion/emotionEngine.js";
+import { extractMemories } from "../memory/memoryService.js";
+import { backfillSearchIndex, indexSource } from "../search/searchService.js";
+import type { SearchSource } from "../search/searchService.js";
+import type { Job, JobType } from "./types.js";
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  chat_summary: async (job) => {
+    const { timezone, dayKey, latestEmotion } = job.payload as {
+      timezone: string;
+      dayKey: string;
+      latestEmotion?: EmotionResult;
+    };
+    const summary = await generateDailySummary(job.userId, timezone, latestEmotion, dayKey);
+    await indexSource(job.userId, "day", summary.id);
+  },
+  thread_summary: async (job) => {
+    const { threadId } = job.payload as { threadId: string };
+    await generateThreadSummary(job.userId, threadId);
+  },
+  memory_extraction: async (job) => {
+    const { messageId } = job.payload as { messageId: string };
+    await extractMemories(job.userId, messageId);
+  },
+  search_index: async (job) => {
+    const { source, sourceId } = job.payload as { source: SearchSource; sourceId: string };
+    await indexSource(job.userId, source, sourceId);
+  },
+  search_backfill: async (job) => {
+    await backfillSearchIndex(job.userId);
+  },
+  aggregate_refresh: async (job) => {
+    const { dayKey } = job.payload as { dayKey: string };
+    await refreshDayAggregate(job.userId, dayKey);
+  },
+};
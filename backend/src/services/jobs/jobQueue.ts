@@ -0,0 +1,93 @@
+import { env } from "../../config/env.js";
+import { AppError } from "../../utils/appError.js";
+import { createFirestoreDriver } from "./drivers/firestoreDriver.js";
+import { createMemoryDriver } from "./drivers/memoryDriver.js";
+import { jobHandlers } from "./jobHandlers.js";
+import type { Job, JobDriver, JobType } from "./types.js";
+
+export type { Job, JobStatus, JobType } from "./types.js";
+
+// A claimed job that has not finished within the lease is assumed lost and becomes claimable again.
+const LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 10;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+let driver: JobDriver | null = null;
+
+const getDriver = () => {
+  if (!driver) {
+    driver = env.JOB_QUEUE_DRIVER === "memory" ? createMemoryDriver() : createFirestoreDriver();
+  }
+  return driver;
+};
+
+export const retryDelayMs = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+export const enqueueJob = (
+  type: JobType,
+  input: {
+    key: string;
+    userId: string;
+    payload: Record<string, unknown>;
+    debounceMs?: number;
+    // Longest a run can be debounced past its first enqueue.
+    maxDelayMs?: number;
+    maxAttempts?: number;
+  },
+) =>
+  getDriver().enqueue({
+    type,
+    key: input.key,
+    userId: input.userId,
+    payload: input.payload,
+    debounceMs: input.debounceMs ?? 0,
+    maxDelayMs: input.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+  });
+
+const runJob = async (job: Job) => {
+  try {
+    await jobHandlers[job.type](job);
+    await getDriver().complete(job.id);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    const retryAt = job.attempts < job.maxAttempts ? new Date(Date.now() + retryDelayMs(job.attempts)) : null;
+    await getDriver().fail(job.id, message, retryAt);
+  }
+};
+
+export const runDueJobs = async () => {
+  const jobs = await getDriver().claimDue(new Date(), LEASE_MS, BATCH_SIZE);
+  for (const job of jobs) {
+    await runJob(job);
+  }
+};
+
+export const getJobForUser = async (userId: string, jobId: string) => {
+  const job = await getDriver().get(jobId);
+  if (!job || job.userId !== userId) {
+    throw new AppError("Job not found", 404);
+  }
+  return job;
+};
+
+export const listJobsForUser = async (userId: string) => {
+  const jobs = await getDriver().listByUser(userId);
+  return jobs.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1)).slice(0, 50);
+};
+
+export const startJobWorker = () => {
+  let busy = false;
+  setInterval(() => {
+    if (busy) return;
+    busy = true;
+    runDueJobs()
+      .catch(() => null)
+      .finally(() => {
+        busy = false;
+      });
+  }, env.JOB_POLL_INTERVAL_MS);
+};
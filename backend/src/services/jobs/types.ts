@@ -0,0 +1,49 @@
+export type JobType =
+  | "chat_summary"
+  | "thread_summary"
+  | "memory_extraction"
+  | "search_index"
+  | "search_backfill"
+  | "aggregate_refresh";
+export type JobStatus = "pending" | "running" | "succeeded" | "failed";
+
+export interface Job<P = Record<string, unknown>> {
+  id: string;
+  type: JobType;
+  userId: string;
+  payload: P;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // When the job may next be claimed: its due time while pending, its lease expiry while running.
+  runAt: Date | null;
+  debounceMs: number;
+  // When the current pending run was first asked for; debouncing never pushes it past this plus the enqueue's maxDelayMs.
+  pendingSince: string | null;
+  // Set when the job is enqueued again while running, so it runs once more afterwards.
+  rerun: boolean;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface EnqueueInput {
+  type: JobType;
+  // Jobs with the same key are coalesced: re-enqueueing a pending job just pushes it back.
+  key: string;
+  userId: string;
+  payload: Record<string, unknown>;
+  debounceMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export interface JobDriver {
+  enqueue: (input: EnqueueInput) => Promise<Job>;
+  claimDue: (now: Date, leaseMs: number, limit: number) => Promise<Job[]>;
+  complete: (id: string) => Promise<void>;
+  fail: (id: string, error: string, retryAt: Date | null) => Promise<void>;
+  get: (id: string) => Promise<Job | null>;
+  listByUser: (userId: string) => Promise<Job[]>;
+}
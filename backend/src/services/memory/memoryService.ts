@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { getFirestore } from "../../config/firebase.js";
+import { AppError } from "../../utils/appError.js";
+import { runWithFallback } from "../ai/aiService.js";
+
+const memoriesCollection = () => getFirestore().collection("chatMemories");
+const settingsCollection = () => getFirestore().collection("settings");
+const messagesCollection = () => getFirestore().collection("chatMessages");
+
+const MAX_MEMORIES = 100;
+const MEMORY_CATEGORIES = ["life_event", "relationship", "preference", "goal", "health", "other"] as const;
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+
+export interface ChatMemory {
+  id: string;
+  userId: string;
+  text: string;
+  category: MemoryCategory;
+  source: "extracted" | "user";
+  sourceMessageId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const extractionSchema = z.object({
+  facts: z
+    .array(
+      z.object({
+        text: z.string().min(3).max(200),
+        category: z.enum(MEMORY_CATEGORIES).catch("other"),
+      }),
+    )
+    .default([]),
+});
+
+const EXTRACTION_PROMPT = `You maintain a short list of durable facts a mental wellness companion should remember about the user
+(upcoming events, important people, preferences, goals, ongoing situations). From the new message, extract
+only facts that will still matter in a week. Skip passing moods, anything already known, and anything about
+third parties beyond their relationship to the user. Write each fact as a short note in the third person,
+e.g. "Has exams in March", "Sister is supportive". Return JSON {"facts":[{"text":"...","category":"${MEMORY_CATEGORIES.join("|")}"}]}
+with an empty array when there is nothing new.`;
+
+const isPrivateMode = async (userId: string) => {
+  const doc = await settingsCollection().doc(userId).get();
+  return Boolean((doc.data() as { privateMode?: boolean } | undefined)?.privateMode);
+};
+
+const assertWritable = async (userId: string) => {
+  if (await isPrivateMode(userId)) {
+    throw new AppError("Memory is turned off while private mode is on", 403);
+  }
+};
+
+export const listMemories = async (userId: string): Promise<ChatMemory[]> => {
+  const snapshot = await memoriesCollection().where("userId", "==", userId).get();
+  const memories = snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as Omit<ChatMemory, "id">) }));
+  return memories.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
+};
+
+const getOwnedMemory = async (userId: string, memoryId: string) => {
+  const docRef = memoriesCollection().doc(memoryId);
+  const snap = await docRef.get();
+  if (!snap.exists || snap.data()?.userId !== userId) {
+    throw new AppError("Memory not found", 404);
+  }
+  return docRef;
+};
+
+export const createMemory = async (userId: string, input: { text: string; category?: MemoryCategory }) => {
+  await assertWritable(userId);
+  const existing = await listMemories(userId);
+  if (existing.length >= MAX_MEMORIES) {
+    throw new AppError("Memory is full. Delete something before adding more.", 409);
+  }
+
+  const now = new Date().toISOString();
+  const payload: Omit<ChatMemory, "id"> = {
+    userId,
+    text: input.text.trim(),
+    category: input.category ?? "other",
+    source: "user",
+    sourceMessageId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const doc = await memoriesCollection().add(payload);
+  return { id: doc.id, ...payload };
+};
+
+export const updateMemory = async (userId: string, memoryId: string, input: { text?: string; category?: MemoryCategory }) => {
+  await assertWritable(userId);
+  const docRef = await getOwnedMemory(userId, memoryId);
+  await docRef.update({
+    ...(input.text ? { text: input.text.trim() } : {}),
+    ...(input.category ? { category: input.category } : {}),
+    updatedAt: new Date().toISOString(),
+  });
+  const doc = await docRef.get();
+  return { id: doc.id, ...(doc.data() as Omit<ChatMemory, "id">) };
+};
+
+export const deleteMemory = async (userId: string, memoryId: string) => {
+  const docRef = await getOwnedMemory(userId, memoryId);
+  await docRef.delete();
+};
+
+export const clearMemories = async (userId: string) => {
+  const snapshot = await memoriesCollection().where("userId", "==", userId).get();
+  const batch = getFirestore().batch();
+  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+};
+
+/**
+ * Pulls durable facts out of a user message and stores the new ones.
+ * Does nothing in private mode, once the memory is full, or if the message is gone.
+ */
+export const extractMemories = async (userId: string, messageId: string) => {
+  if (await isPrivateMode(userId)) return [];
+  const message = (await messagesCollection().doc(messageId).get()).data();
+  if (message?.userId !== userId || typeof message.text !== "string" || !message.text) return [];
+  const { text } = message;
+  const existing = await listMemories(userId);
+  if (existing.length >= MAX_MEMORIES) return [];
+
+  const known = existing.map((memory) => `- ${memory.text}`).join("\n") || "(none yet)";
+  const result = await runWithFallback(
+    [
+      { role: "system" as const, content: EXTRACTION_PROMPT },
+      { role: "user" as const, content: `Already known:\n${known}\n\nNew message:\n${text}` },
+    ],
+    { type: "json_object" },
+    { userId, purpose: "chat_memory" },
+  );
+  if (!result.content) return [];
+
+  let facts: z.infer<typeof extractionSchema>["facts"];
+  try {
+    facts = extractionSchema.parse(JSON.parse(result.content)).facts;
+  } catch {
+    return [];
+  }
+
+  const seen = new Set(existing.map((memory) => memory.text.toLowerCase()));
+  const fresh = facts.filter((fact) => !seen.has(fact.text.trim().toLowerCase())).slice(0, MAX_MEMORIES - existing.length);
+  const now = new Date().toISOString();
+
+  return Promise.all(
+    fresh.map(async (fact) => {
+      const payload: Omit<ChatMemory, "id"> = {
+        userId,
+        text: fact.text.trim(),
+        category: fact.category,
+        source: "extracted",
+        sourceMessageId: messageId,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const doc = await memoriesCollection().add(payload);
+      return { id: doc.id, ...payload };
+    }),
+  );
+};
@@ -5,6 +5,9 @@ import { sendFcmPush } from "./fcmService.js";
 
 const reminderCollection = () => getFirestore().collection("reminders");
 const subscriptionCollection = () => getFirestore().collection("notificationSubscriptions");
+const assessmentReminderCollection = () => getFirestore().collection("assessmentReminders");
+
+const ASSESSMENT_TITLES: Record<string, string> = { phq9: "PHQ-9", gad7: "GAD-7" };
 
 export const upsertReminder = async (userId: string, timezone: string, time: string, enabled: boolean) => {
   const docRef = reminderCollection().doc(userId);
@@ -12,14 +15,32 @@ export const upsertReminder = async (userId: string, timezone: string, time: str
   await docRef.set({ userId, timezone, time, enabled, nextRunAt }, { merge: true });
 };
 
+/**
+ * One pending retake reminder per user and questionnaire; a null date cancels it.
+ */
+export const scheduleAssessmentReminder = async (userId: string, type: string, nextRunAt: Date | null) => {
+  await assessmentReminderCollection().doc(`${userId}_${type}`).set({ userId, type, nextRunAt }, { merge: true });
+};
+
 export const registerSubscription = async (userId: string, payload: any) => {
   const docRef = subscriptionCollection().doc(`${userId}_${payload.type}`);
   await docRef.set({ userId, ...payload, createdAt: new Date().toISOString() }, { merge: true });
 };
 
-const dispatchToUser = async (userId: string, title: string, body: string) => {
+// The push service has forgotten the subscription: 404/410 from web push, an unregistered token from FCM.
+const isGoneError = (err: unknown) => {
+  const { statusCode, code } = (err ?? {}) as { statusCode?: number; code?: string };
+  return statusCode === 404 || statusCode === 410 || code === "messaging/registration-token-not-registered";
+};
+
+/**
+ * Sends to each of the user's devices on its own, so one dead subscription
+ * does not fail the others. Subscriptions the push service no longer knows
+ * are removed. Resolves with how many devices were reached.
+ */
+export const dispatchToUser = async (userId: string, title: string, body: string) => {
   const subs = await subscriptionCollection().where("userId", "==", userId).get();
-  await Promise.all(
+  const results = await Promise.allSettled(
     subs.docs.map(async (doc) => {
       const data = doc.data();
       if (data.type === "webpush") {
@@ -30,19 +51,52 @@ const dispatchToUser = async (userId: string, title: string, body: string) => {
       }
     }),
   );
+
+  let failed = 0;
+  await Promise.all(
+    results.map(async (result, index) => {
+      if (result.status === "fulfilled") return;
+      failed += 1;
+      if (isGoneError(result.reason)) await subs.docs[index].ref.delete().catch(() => null);
+    }),
+  );
+  return { delivered: results.length - failed, failed };
 };
 
-export const runDueReminders = async () => {
-  const now = new Date();
+// Each reminder is moved on before it is sent, so a failed send is skipped rather than repeated every minute.
+const runDueDailyReminders = async (now: Date) => {
   const due = await reminderCollection().where("enabled", "==", true).where("nextRunAt", "<=", now).get();
   for (const doc of due.docs) {
     const data = doc.data();
-    await dispatchToUser(data.userId, "Gentle check-in", "How are you feeling today? A small check-in can help.");
-    const nextRunAt = getNextRunAt(data.time, data.timezone || "UTC");
-    await doc.ref.update({ nextRunAt });
+    try {
+      await doc.ref.update({ nextRunAt: getNextRunAt(data.time, data.timezone || "UTC") });
+      await dispatchToUser(data.userId, "Gentle check-in", "How are you feeling today? A small check-in can help.");
+    } catch {
+      // One user's failure must not hold up everyone after them.
+    }
+  }
+};
+
+const runDueAssessmentReminders = async (now: Date) => {
+  const due = await assessmentReminderCollection().where("nextRunAt", "<=", now).get();
+  for (const doc of due.docs) {
+    const data = doc.data();
+    const title = ASSESSMENT_TITLES[data.type] ?? "check-in";
+    try {
+      // Sent once; the next reminder is scheduled when the questionnaire is retaken.
+      await doc.ref.update({ nextRunAt: null });
+      await dispatchToUser(data.userId, "Time for a two-week check", `Retaking the ${title} helps you see how things are changing.`);
+    } catch {
+      // Already cleared, so a failed send is dropped and the rest still go out.
+    }
   }
 };
 
+export const runDueReminders = async () => {
+  const now = new Date();
+  await Promise.allSettled([runDueDailyReminders(now), runDueAssessmentReminders(now)]);
+};
+
 export const startReminderScheduler = () => {
   setInterval(() => {
     runDueReminders().catch(() => null);
@@ -0,0 +1,17 @@
+import { getFirestore } from "../../config/firebase.js";
+
+export interface Helpline {
+  name: string;
+  number: string;
+}
+
+const fallbackHelplines: Helpline[] = [
+  { name: "AASRA", number: "9820466726" },
+  { name: "Vandrevala Foundation", number: "1860-2662-345" },
+];
+
+export const getHelplineList = async (): Promise<Helpline[]> => {
+  const doc = await getFirestore().collection("appConfig").doc("helplines").get();
+  const data = doc.data() as { helplines?: Helpline[] } | undefined;
+  return data?.helplines?.length ? data.helplines : fallbackHelplines;
+};
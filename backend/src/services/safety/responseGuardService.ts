@@ -0,0 +1,209 @@
+import { getFirestore } from "../../config/firebase.js";
+import { getHelplineList } from "./helplineService.js";
+
+const guardEventsCollection = () => getFirestore().collection("responseGuardEvents");
+
+export type GuardCategory = "medical_claim" | "medication" | "self_harm_method" | "dismissive";
+export type GuardAction = "rewrite" | "replace";
+
+interface CategoryConfig {
+  enabled: boolean;
+  action: GuardAction;
+  // Extra case-insensitive phrases on top of the built-in patterns.
+  phrases: string[];
+  // Appended after a rewrite, or used as the whole reply for a replace.
+  message: string;
+}
+
+export interface ResponseGuardConfig {
+  enabled: boolean;
+  categories: Record<GuardCategory, CategoryConfig>;
+}
+
+export interface GuardResult {
+  action: "none" | GuardAction;
+  categories: GuardCategory[];
+}
+
+const BUILT_IN_PATTERNS: Record<GuardCategory, RegExp[]> = {
+  medical_claim: [
+    /\byou (?:clearly |probably |definitely )?(?:have|are suffering from|suffer from) (?:clinical |severe |major )?(?:depression|anxiety disorder|bipolar|ptsd|ocd|adhd|schizophrenia|a (?:mental|personality) disorder)\b/i,
+    /\byou(?:'re| are) (?:clearly |probably |definitely )?(?:bipolar|depressed clinically|schizophrenic|psychotic)\b/i,
+    /\b(?:this|that|it) (?:is|sounds like) (?:definitely |clearly )?(?:a|an)? ?(?:diagnosis of|case of|symptom of) \w+/i,
+    /\bi (?:can )?diagnose\b/i,
+  ],
+  medication: [
+    /\b\d+\s?(?:mg|milligrams?)\b/i,
+    /\b(?:take|try|start|increase|double|reduce|stop taking|come off)\b[^.!?\n]{0,40}\b(?:medication|meds|pills?|tablets?|dose|dosage|antidepressants?)\b/i,
+    /\b(?:sertraline|fluoxetine|escitalopram|citalopram|paroxetine|venlafaxine|bupropion|alprazolam|xanax|clonazepam|lorazepam|diazepam|zolpidem|lithium|quetiapine)\b/i,
+  ],
+  self_harm_method: [
+    /\b(?:how many|enough) (?:pills|tablets)\b/i,
+    /\b(?:overdose|od) on\b/i,
+    /\b(?:cut|slit)(?:ting)? (?:deeper|your wrists?|vertically)\b/i,
+    /\b(?:hang(?:ing)? yourself|noose|jump(?:ing)? (?:off|from) (?:a |the )?(?:building|bridge|roof))\b/i,
+    /\b(?:lethal|fatal) (?:dose|amount)\b/i,
+  ],
+  dismissive: [
+    /\b(?:just )?(?:get over it|snap out of it|stop overreacting|calm down already)\b/i,
+    /\b(?:it'?s|that'?s) not (?:a )?(?:big deal|that bad|worth crying over)\b/i,
+    /\bothers have it (?:much |way )?worse\b/i,
+    /\byou(?:'re| are) (?:being )?(?:dramatic|too sensitive|overreacting)\b/i,
+    /\bjust (?:think positive|be happy|cheer up)\b/i,
+  ],
+};
+
+const DEFAULT_CONFIG: ResponseGuardConfig = {
+  enabled: true,
+  categories: {
+    medical_claim: {
+      enabled: true,
+      action: "rewrite",
+      phrases: [],
+      message: "I can't diagnose anything, but a doctor or counsellor can help you make sense of what you're going through.",
+    },
+    medication: {
+      enabled: true,
+      action: "rewrite",
+      phrases: [],
+      message: "For anything about medication or doses, please check with your doctor or pharmacist.",
+    },
+    self_harm_method: {
+      enabled: true,
+      action: "replace",
+      phrases: [],
+      message:
+        "I'm really glad you told me how you're feeling, and I want you to be safe. If you're thinking about hurting yourself, " +
+        "please reach out right now to someone you trust or a helpline: {helplines}. You don't have to go through this alone.",
+    },
+    dismissive: {
+      enabled: true,
+      action: "rewrite",
+      phrases: [],
+      message: "What you're feeling matters, and it makes sense that this is hard.",
+    },
+  },
+};
+
+const CATEGORIES = Object.keys(DEFAULT_CONFIG.categories) as GuardCategory[];
+
+// Sentence ends at terminal punctuation (including the Devanagari danda) followed by whitespace, or a newline.
+const SENTENCE_END = /[.!?।]+["')\]]*\s+|\n+/g;
+
+export const getResponseGuardConfig = async (): Promise<ResponseGuardConfig> => {
+  const doc = await getFirestore().collection("appConfig").doc("responseGuard").get();
+  const data = doc.data() as
+    | { enabled?: boolean; categories?: Partial<Record<GuardCategory, Partial<CategoryConfig>>> }
+    | undefined;
+
+  return {
+    enabled: data?.enabled ?? DEFAULT_CONFIG.enabled,
+    categories: Object.fromEntries(
+      CATEGORIES.map((category) => [category, { ...DEFAULT_CONFIG.categories[category], ...data?.categories?.[category] }]),
+    ) as Record<GuardCategory, CategoryConfig>,
+  };
+};
+
+const matchCategories = (config: ResponseGuardConfig, sentence: string) => {
+  const lower = sentence.toLowerCase();
+  return CATEGORIES.filter((category) => {
+    const settings = config.categories[category];
+    if (!settings.enabled) return false;
+    return (
+      BUILT_IN_PATTERNS[category].some((pattern) => pattern.test(sentence)) ||
+      settings.phrases.some((phrase) => phrase && lower.includes(phrase.toLowerCase()))
+    );
+  });
+};
+
+const fillTemplate = async (message: string) => {
+  if (!message.includes("{helplines}")) return message;
+  const helplines = await getHelplineList();
+  return message.replace("{helplines}", helplines.map((line) => `${line.name} (${line.number})`).join(", "));
+};
+
+/**
+ * Reviews a reply sentence by sentence as it is produced. Clean sentences
+ * pass straight through; a "rewrite" hit drops the sentence and appends the
+ * category's safe message at the end; a "replace" hit stops output and the
+ * whole reply becomes the category's template. Streaming callers should treat
+ * the text returned by finish() as authoritative.
+ */
+export const createResponseGuard = (config: ResponseGuardConfig, onText: (text: string) => void = () => undefined) => {
+  let pending = "";
+  let kept = "";
+  let replacedBy: GuardCategory | null = null;
+  const hits = new Set<GuardCategory>();
+
+  const review = (sentence: string) => {
+    if (replacedBy) return;
+    const matched = matchCategories(config, sentence);
+    if (!matched.length) {
+      kept += sentence;
+      onText(sentence);
+      return;
+    }
+    matched.forEach((category) => hits.add(category));
+    replacedBy = matched.find((category) => config.categories[category].action === "replace") ?? null;
+  };
+
+  return {
+    push: (token: string) => {
+      if (!config.enabled) {
+        kept += token;
+        onText(token);
+        return;
+      }
+      pending += token;
+      let match: RegExpExecArray | null;
+      let consumed = 0;
+      SENTENCE_END.lastIndex = 0;
+      while ((match = SENTENCE_END.exec(pending))) {
+        const end = match.index + match[0].length;
+        review(pending.slice(consumed, end));
+        consumed = end;
+      }
+      pending = pending.slice(consumed);
+    },
+    finish: async (): Promise<{ text: string; guard: GuardResult }> => {
+      if (pending) review(pending);
+      pending = "";
+      const categories = Array.from(hits);
+
+      if (replacedBy || (categories.length && !kept.trim())) {
+        const text = await fillTemplate(config.categories[replacedBy ?? categories[0]].message);
+        if (!kept) onText(text);
+        return { text, guard: { action: "replace", categories } };
+      }
+      if (!categories.length) {
+        return { text: kept, guard: { action: "none", categories } };
+      }
+
+      const addenda = await Promise.all(categories.map((category) => fillTemplate(config.categories[category].message)));
+      const addition = `${/\s$/.test(kept) ? "" : " "}${addenda.join(" ")}`;
+      onText(addition);
+      return { text: `${kept}${addition}`, guard: { action: "rewrite", categories } };
+    },
+  };
+};
+
+export const recordGuardIntervention = async (input: {
+  userId?: string;
+  purpose?: string;
+  streamed: boolean;
+  guard: GuardResult;
+  originalText: string;
+  finalText: string;
+}) => {
+  if (input.guard.action === "none") return;
+  await guardEventsCollection().add({
+    userId: input.userId ?? null,
+    purpose: input.purpose ?? null,
+    streamed: input.streamed,
+    action: input.guard.action,
+    categories: input.guard.categories,
+    originalText: input.originalText,
+    finalText: input.finalText,
+    createdAt: new Date().toISOString(),
+  });
+};
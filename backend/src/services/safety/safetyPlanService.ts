@@ -2,6 +2,17 @@ import { getFirestore } from "../../config/firebase.js";
 
 const collection = () => getFirestore().collection("safetyPlans");
 
+const EMPTY_PLAN = {
+  reasonsToLive: [],
+  warningSigns: [],
+  triggers: [],
+  copingSteps: [],
+  safePlaces: [],
+  contacts: [],
+  resources: [],
+  groundingNotes: "",
+};
+
 export const getSafetyPlan = async (userId: string) => {
   const doc = await collection().doc(userId).get();
   return doc.exists ? doc.data() : null;
@@ -12,3 +23,53 @@ export const upsertSafetyPlan = async (userId: string, plan: any) => {
   const doc = await collection().doc(userId).get();
   return doc.data();
 };
+
+/**
+ * A coping step a custom tool keeps in the plan. `added` is set when the tool put
+ * the step there, so a step the user typed by hand is never removed with the tool.
+ */
+export interface ToolCopingStep {
+  toolId: string;
+  step: string;
+  added: boolean;
+}
+
+export const getToolCopingSteps = (plan: FirebaseFirestore.DocumentData | null | undefined) =>
+  (Array.isArray(plan?.toolSteps) ? plan.toolSteps : []) as ToolCopingStep[];
+
+/**
+ * Points a tool's coping step at `step`, or at nothing when null, leaving the
+ * rest of the plan as the user wrote it. The old step is only taken out when the
+ * tool added it and no other tool still uses it; a renamed step keeps its place.
+ */
+export const setToolCopingStep = async (userId: string, toolId: string, step: string | null) => {
+  const plan = await getSafetyPlan(userId);
+  const links = getToolCopingSteps(plan);
+  const current = links.find((link) => link.toolId === toolId);
+  if (!current && !step) return;
+
+  const steps: string[] = Array.isArray(plan?.copingSteps) ? plan.copingSteps : [];
+  if (step && current?.step === step && steps.includes(step)) return;
+
+  // Stored as an array rather than a map so a merged write replaces it whole.
+  const toolSteps = links.filter((link) => link !== current);
+  let copingSteps = [...steps];
+  let position = -1;
+  if (current?.added && steps.includes(current.step)) {
+    const sharedWith = toolSteps.find((link) => link.step === current.step);
+    if (sharedWith) {
+      sharedWith.added = true;
+    } else {
+      position = steps.indexOf(current.step);
+      copingSteps = steps.filter((item) => item !== current.step);
+    }
+  }
+  if (step) {
+    const added = !copingSteps.includes(step);
+    if (added) copingSteps.splice(position === -1 ? copingSteps.length : position, 0, step);
+    toolSteps.push({ toolId, step, added });
+  }
+  await collection()
+    .doc(userId)
+    .set({ ...(plan ? {} : EMPTY_PLAN), copingSteps, toolSteps, updatedAt: new Date().toISOString() }, { merge: true });
+};
@@ -0,0 +1,58 @@
+import { tokenize } from "@sahaay/shared";
+import type { EmbeddingProvider } from "./types.js";
+
+const DIMENSIONS = 512;
+
+// Words that carry no topic, in English and romanised Hindi.
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "i", "me", "my", "you", "your", "we", "it", "is", "am", "are", "was", "were",
+  "be", "been", "to", "of", "in", "on", "at", "for", "with", "about", "this", "that", "these", "those", "when", "what",
+  "did", "do", "does", "so", "very", "just", "like", "last", "time", "have", "had", "has", "feel", "felt", "feeling",
+  "main", "mera", "meri", "mujhe", "hai", "hain", "tha", "thi", "ki", "ka", "ke", "ko", "se", "aur", "bhi", "toh",
+]);
+
+// Crude suffix stripping so "working", "worked" and "works" land in the same bucket.
+const stem = (token: string) => (token.length > 4 ? token.replace(/(?:ing|edly|ed|ly|es|s)$/, "") : token);
+
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const normalize = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => Number((value / norm).toFixed(4))) : vector;
+};
+
+export const embedByHashing = (text: string) => {
+  const terms = tokenize(text)
+    .filter((token) => !STOPWORDS.has(token))
+    .map(stem);
+  const counts = new Map<string, number>();
+  terms.forEach((term, index) => {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+    if (index > 0) {
+      const bigram = `${terms[index - 1]} ${term}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 0.5);
+    }
+  });
+
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  counts.forEach((count, term) => {
+    const h = hash(term);
+    // Signed hashing keeps collisions from only ever adding up.
+    vector[h % DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+  return normalize(vector);
+};
+
+export const createHashingEmbeddings = (): EmbeddingProvider => ({
+  id: `hashing:v1:${DIMENSIONS}`,
+  minScore: 0.08,
+  remote: false,
+  embed: async (texts) => texts.map(embedByHashing),
+});
@@ -0,0 +1,57 @@
+import { env } from "../../../config/env.js";
+import { loadRedactor } from "../../ai/redaction.js";
+import { createHashingEmbeddings } from "./hashingEmbeddings.js";
+import { createOpenAiEmbeddings } from "./openaiEmbeddings.js";
+import type { EmbeddingProvider } from "./types.js";
+
+export type { EmbeddingProvider } from "./types.js";
+
+const hashing = createHashingEmbeddings();
+let primary: EmbeddingProvider | null = null;
+
+export const getFallbackEmbeddings = () => hashing;
+
+export const getPrimaryEmbeddings = () => {
+  if (!primary) {
+    switch (env.EMBEDDING_PROVIDER) {
+      case "openai":
+        primary = env.OPENAI_API_KEY
+          ? createOpenAiEmbeddings({ name: "openai", apiKey: env.OPENAI_API_KEY, model: env.EMBEDDING_MODEL })
+          : hashing;
+        break;
+      case "local":
+        primary = createOpenAiEmbeddings({
+          name: "local",
+          apiKey: env.LOCAL_LLM_API_KEY || "local",
+          baseURL: env.LOCAL_LLM_BASE_URL,
+          model: env.EMBEDDING_MODEL,
+        });
+        break;
+      default:
+        primary = hashing;
+    }
+  }
+  return primary;
+};
+
+/**
+ * Embeds texts with the configured provider and always with the local hashing
+ * provider too, so search keeps working when the remote provider is down.
+ * Returns vectors keyed by provider id.
+ */
+export const embedForIndex = async (userId: string, texts: string[]) => {
+  const vectors: Array<Record<string, number[]>> = (await hashing.embed(texts)).map((vector) => ({ [hashing.id]: vector }));
+  const provider = getPrimaryEmbeddings();
+  if (provider === hashing) return vectors;
+
+  try {
+    const redactor = await loadRedactor(userId);
+    const embedded = await provider.embed(texts.map((text) => redactor.redact(text)));
+    embedded.forEach((vector, index) => {
+      vectors[index][provider.id] = vector;
+    });
+  } catch {
+    // Entries without the primary vector are still searchable through the hashing one.
+  }
+  return vectors;
+};
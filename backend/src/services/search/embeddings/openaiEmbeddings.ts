@@ -0,0 +1,29 @@
+import OpenAI from "openai";
+import type { EmbeddingProvider } from "./types.js";
+
+interface OpenAiEmbeddingOptions {
+  name: string;
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+/**
+ * Hosted OpenAI embeddings, or any server exposing the same /embeddings
+ * endpoint (Ollama, LM Studio) via `baseURL`.
+ */
+export const createOpenAiEmbeddings = (options: OpenAiEmbeddingOptions): EmbeddingProvider => {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    id: `${options.name}:${options.model}`,
+    minScore: 0.25,
+    remote: true,
+    embed: async (texts) => {
+      const response = await client.embeddings.create({ model: options.model, input: texts });
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding.map((value) => Number(value.toFixed(5))));
+    },
+  };
+};
@@ -0,0 +1,9 @@
+export interface EmbeddingProvider {
+  // Vectors are only ever compared with vectors from the same id, e.g. "openai:text-embedding-3-small".
+  id: string;
+  // Cosine similarity below this is treated as unrelated; hashed vectors score lower than learned ones.
+  minScore: number;
+  // Remote providers receive redacted text; the local one never leaves the process.
+  remote: boolean;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
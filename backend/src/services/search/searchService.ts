@@ -0,0 +1,199 @@
+import { getFirestore } from "../../config/firebase.js";
+import { getDayKey } from "../../utils/date.js";
+import { loadRedactor } from "../ai/redaction.js";
+import { classifyEmotionByKeywords } from "../emotion/emotionEngine.js";
+import { embedForIndex, getFallbackEmbeddings, getPrimaryEmbeddings } from "./embeddings/index.js";
+import type { EmbeddingProvider } from "./embeddings/index.js";
+import { cosineSimilarity, loadUserIndex, upsertIndexEntries } from "./vectorIndex.js";
+import type { IndexEntry, SearchSource } from "./vectorIndex.js";
+
+export type { SearchSource } from "./vectorIndex.js";
+
+const messagesCollection = () => getFirestore().collection("chatMessages");
+const journalsCollection = () => getFirestore().collection("journals");
+const summariesCollection = () => getFirestore().collection("chatDailySummaries");
+const stateCollection = () => getFirestore().collection("searchIndexState");
+const settingsCollection = () => getFirestore().collection("settings");
+
+const EMBED_CHUNK_SIZE = 50;
+const DEFAULT_LIMIT = 20;
+
+export interface SearchFilters {
+  query: string;
+  from?: string;
+  to?: string;
+  emotion?: string;
+  sources?: SearchSource[];
+  sort?: "relevance" | "recent";
+  limit?: number;
+}
+
+export interface SearchResult {
+  id: string;
+  source: SearchSource;
+  sourceId: string;
+  title: string | null;
+  snippet: string;
+  dayKey: string;
+  createdAt: string;
+  emotions: string[];
+  score: number;
+}
+
+type EntryDraft = Omit<IndexEntry, "vectors">;
+
+const getUserTimezone = async (userId: string) => {
+  const doc = await settingsCollection().doc(userId).get();
+  return (doc.data()?.timezone as string | undefined) || "UTC";
+};
+
+const toDraft = (
+  userId: string,
+  timezone: string,
+  source: SearchSource,
+  doc: FirebaseFirestore.DocumentSnapshot,
+): EntryDraft | null => {
+  const data = doc.data();
+  if (!data || data.userId !== userId) return null;
+  const base = { id: `${source}_${doc.id}`, userId, source, sourceId: doc.id };
+
+  if (source === "message") {
+    if (data.sender !== "user" || !data.text) return null;
+    return {
+      ...base,
+      title: null,
+      text: data.text,
+      dayKey: data.dayKey,
+      createdAt: data.createdAt,
+      emotions: data.emotion?.primary ? [data.emotion.primary] : [],
+    };
+  }
+  if (source === "journal") {
+    if (!data.entry) return null;
+    return {
+      ...base,
+      title: data.prompt || null,
+      text: data.entry,
+      // Journals carry no dayKey of their own; the user's day, not UTC's, matches the date filters.
+      dayKey: getDayKey(new Date(data.createdAt), timezone),
+      createdAt: data.createdAt,
+      emotions: [classifyEmotionByKeywords(data.entry).primary],
+    };
+  }
+  if (!data.summary) return null;
+  return {
+    ...base,
+    title: null,
+    text: data.summary,
+    dayKey: data.dayKey,
+    createdAt: data.updatedAt ?? `${data.dayKey}T00:00:00.000Z`,
+    emotions: Array.isArray(data.topEmotions) ? data.topEmotions : [],
+  };
+};
+
+const embedDrafts = async (userId: string, drafts: EntryDraft[]) => {
+  const entries: IndexEntry[] = [];
+  for (let i = 0; i < drafts.length; i += EMBED_CHUNK_SIZE) {
+    const chunk = drafts.slice(i, i + EMBED_CHUNK_SIZE);
+    const vectors = await embedForIndex(
+      userId,
+      chunk.map((draft) => (draft.title ? `${draft.title}\n${draft.text}` : draft.text)),
+    );
+    chunk.forEach((draft, index) => entries.push({ ...draft, vectors: vectors[index] }));
+  }
+  return entries;
+};
+
+const sourceCollection = (source: SearchSource) =>
+  source === "message" ? messagesCollection() : source === "journal" ? journalsCollection() : summariesCollection();
+
+export const indexSource = async (userId: string, source: SearchSource, sourceId: string) => {
+  const [timezone, doc] = await Promise.all([getUserTimezone(userId), sourceCollection(source).doc(sourceId).get()]);
+  const draft = toDraft(userId, timezone, source, doc);
+  if (!draft) return;
+  await upsertIndexEntries(await embedDrafts(userId, [draft]));
+};
+
+export const getSearchIndexState = async (userId: string) => {
+  const doc = await stateCollection().doc(userId).get();
+  return doc.exists ? (doc.data() as { backfilledAt: string }) : null;
+};
+
+/**
+ * Indexes everything written before search existed, or that an index job
+ * missed. Entries already in the index are left alone.
+ */
+export const backfillSearchIndex = async (userId: string) => {
+  const [existing, timezone, messages, journals, summaries] = await Promise.all([
+    loadUserIndex(userId),
+    getUserTimezone(userId),
+    messagesCollection().where("userId", "==", userId).get(),
+    journalsCollection().where("userId", "==", userId).get(),
+    summariesCollection().where("userId", "==", userId).get(),
+  ]);
+
+  const known = new Set(existing.map((entry) => entry.id));
+  const drafts = [
+    ...messages.docs.map((doc) => toDraft(userId, timezone, "message", doc)),
+    ...journals.docs.map((doc) => toDraft(userId, timezone, "journal", doc)),
+    ...summaries.docs.map((doc) => toDraft(userId, timezone, "day", doc)),
+  ].filter((draft): draft is EntryDraft => Boolean(draft) && !known.has((draft as EntryDraft).id));
+
+  await upsertIndexEntries(await embedDrafts(userId, drafts));
+  await stateCollection().doc(userId).set({ userId, backfilledAt: new Date().toISOString() });
+  return drafts.length;
+};
+
+const embedQuery = async (userId: string, query: string): Promise<{ provider: EmbeddingProvider; vector: number[] }> => {
+  const primary = getPrimaryEmbeddings();
+  try {
+    // Masked the same way as indexed text, so the query never reaches a remote provider as typed.
+    const text = primary === getFallbackEmbeddings() ? query : (await loadRedactor(userId)).redact(query);
+    const [vector] = await primary.embed([text]);
+    return { provider: primary, vector };
+  } catch {
+    const fallback = getFallbackEmbeddings();
+    const [vector] = await fallback.embed([query]);
+    return { provider: fallback, vector };
+  }
+};
+
+const snippetOf = (text: string) => (text.length > 240 ? `${text.slice(0, 237).trimEnd()}...` : text);
+
+export const searchUserContent = async (userId: string, filters: SearchFilters): Promise<SearchResult[]> => {
+  const entries = (await loadUserIndex(userId)).filter(
+    (entry) =>
+      (!filters.sources?.length || filters.sources.includes(entry.source)) &&
+      (!filters.from || entry.dayKey >= filters.from) &&
+      (!filters.to || entry.dayKey <= filters.to) &&
+      (!filters.emotion || entry.emotions.includes(filters.emotion)),
+  );
+  if (!entries.length) return [];
+
+  let { provider, vector } = await embedQuery(userId, filters.query);
+  // Scores from different vector spaces don't compare, so one entry missing the primary vector drops everyone to hashing.
+  if (entries.some((entry) => !entry.vectors[provider.id])) {
+    provider = getFallbackEmbeddings();
+    [vector] = await provider.embed([filters.query]);
+  }
+
+  const matches = entries
+    .map((entry) => ({ entry, score: cosineSimilarity(vector, entry.vectors[provider.id] ?? []) }))
+    .filter((match) => match.score >= provider.minScore)
+    .sort((a, b) =>
+      filters.sort === "recent" ? b.entry.createdAt.localeCompare(a.entry.createdAt) : b.score - a.score,
+    )
+    .slice(0, filters.limit ?? DEFAULT_LIMIT);
+
+  return matches.map(({ entry, score }) => ({
+    id: entry.id,
+    source: entry.source,
+    sourceId: entry.sourceId,
+    title: entry.title,
+    snippet: snippetOf(entry.text),
+    dayKey: entry.dayKey,
+    createdAt: entry.createdAt,
+    emotions: entry.emotions,
+    score: Number(score.toFixed(3)),
+  }));
+};
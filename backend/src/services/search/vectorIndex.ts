@@ -0,0 +1,65 @@
+import { getFirestore } from "../../config/firebase.js";
+
+const indexCollection = () => getFirestore().collection("searchIndex");
+
+export type SearchSource = "message" | "journal" | "day";
+
+export interface IndexEntry {
+  id: string;
+  userId: string;
+  source: SearchSource;
+  sourceId: string;
+  title: string | null;
+  text: string;
+  dayKey: string;
+  createdAt: string;
+  emotions: string[];
+  vectors: Record<string, number[]>;
+}
+
+// Each user's vectors are scanned in memory; keep recently searched users warm.
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_USERS = 50;
+const cache = new Map<string, { entries: Map<string, IndexEntry>; loadedAt: number }>();
+
+export const loadUserIndex = async (userId: string) => {
+  const cached = cache.get(userId);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return Array.from(cached.entries.values());
+  }
+
+  const snapshot = await indexCollection().where("userId", "==", userId).get();
+  const entries = new Map(snapshot.docs.map((doc) => [doc.id, { ...(doc.data() as Omit<IndexEntry, "id">), id: doc.id }]));
+  cache.delete(userId);
+  cache.set(userId, { entries, loadedAt: Date.now() });
+  if (cache.size > MAX_CACHED_USERS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return Array.from(entries.values());
+};
+
+export const upsertIndexEntries = async (entries: IndexEntry[]) => {
+  for (let i = 0; i < entries.length; i += 400) {
+    const batch = getFirestore().batch();
+    entries.slice(i, i + 400).forEach(({ id, ...data }) => batch.set(indexCollection().doc(id), data));
+    await batch.commit();
+  }
+  entries.forEach((entry) => cache.get(entry.userId)?.entries.set(entry.id, entry));
+};
+
+export const forgetUserIndex = (userId: string) => {
+  cache.delete(userId);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -0,0 +1,17 @@
+import type { Response } from "express";
+
+export const openSseStream = (res: Response) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+};
+
+export const writeSseEvent = (res: Response, event: string, data: unknown) => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export const wantsEventStream = (accept?: string) => Boolean(accept?.includes("text/event-stream"));
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const analyticsSchema = z.object({
+  query: z
+    .object({
+      timezone: z.string().optional(),
+      range: z.enum(["week", "month", "quarter", "year", "custom"]).optional(),
+      granularity: z.enum(["day", "week", "month"]).optional(),
+      from: dayKey.optional(),
+      to: dayKey.optional(),
+    })
+    .refine((query) => query.range !== "custom" || (query.from && query.to && query.from <= query.to), {
+      message: "A custom range needs from and to, with from on or before to",
+    }),
+});
+
+export const insightsSchema = z.object({
+  query: z.object({
+    timezone: z.string().optional(),
+    days: z.coerce.number().int().min(14).max(365).optional(),
+  }),
+});
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+const assessmentType = z.enum(["phq9", "gad7"]);
+
+export const listAssessmentsSchema = z.object({
+  query: z.object({
+    type: assessmentType.optional(),
+  }),
+});
+
+export const submitAssessmentSchema = z.object({
+  body: z.object({
+    type: assessmentType,
+    answers: z.array(z.number().int().min(0).max(3)).min(1).max(20),
+    remind: z.boolean().default(true),
+  }),
+});
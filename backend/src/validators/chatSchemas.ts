@@ -3,5 +3,35 @@ import { z } from "zod";
 export const sendMessageSchema = z.object({
   body: z.object({
     text: z.string().min(1),
+    threadId: z.string().min(1).optional(),
+  }),
+});
+
+export const listMessagesSchema = z.object({
+  query: z.object({
+    dayKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    threadId: z.string().min(1).optional(),
+  }).passthrough(),
+});
+
+export const listThreadsSchema = z.object({
+  query: z.object({
+    dayKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  }),
+});
+
+export const createThreadSchema = z.object({
+  body: z.object({
+    title: z.string().trim().min(1).max(80).optional(),
+  }),
+});
+
+export const updateThreadSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    title: z.string().trim().min(1).max(80).optional(),
+    status: z.literal("ended").optional(),
   }),
 });
@@ -1,10 +1,45 @@
 import { z } from "zod";
 
+const scale = z.number().int().min(1).max(10);
+const tags = z.array(z.string().trim().min(1).max(40)).max(10);
+
 export const createCheckInSchema = z.object({
   body: z.object({
     mood: z.enum(["happy", "calm", "neutral", "sad", "anxious", "frustrated"]),
     note: z.string().optional(),
     timezone: z.string().default("UTC"),
     createdAt: z.string().optional(),
+    intensity: scale.optional(),
+    energy: scale.optional(),
+    sleepHours: z.number().min(0).max(24).optional(),
+    activities: tags.optional(),
+    people: tags.optional(),
   }),
 });
+
+const entryParams = z.object({
+  dayKey: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  entryId: z.string().min(1),
+});
+
+// Only what the user can correct; the sentiment score is always recomputed from the note.
+export const checkInChangesSchema = z
+  .object({
+    mood: z.enum(["happy", "calm", "neutral", "sad", "anxious", "frustrated"]).optional(),
+    note: z.string().optional(),
+    intensity: scale.nullable().optional(),
+    energy: scale.nullable().optional(),
+    sleepHours: z.number().min(0).max(24).nullable().optional(),
+    activities: tags.optional(),
+    people: tags.optional(),
+  })
+  .refine((body) => Object.keys(body).length > 0, { message: "Nothing to update" });
+
+export const updateCheckInSchema = z.object({
+  params: entryParams,
+  body: checkInChangesSchema,
+});
+
+export const deleteCheckInSchema = z.object({
+  params: entryParams,
+});
@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { COPING_CATEGORIES, EXERCISE_ANIMATIONS, HAPTIC_STRENGTHS, INTENSITY_LEVELS, MOODS } from "@sahaay/shared";
+
+const moodRating = z.number().int().min(1).max(10).nullable();
+
+export const logCopingSessionSchema = z.object({
+  body: z.object({
+    toolId: z.string().min(1).max(100),
+    // Capped at two hours; anything longer is a tab left open.
+    durationSeconds: z.number().min(0).max(7200),
+    completed: z.boolean(),
+    preMood: moodRating.optional(),
+    postMood: moodRating.optional(),
+    startedAt: z.string().datetime().optional(),
+  }),
+});
+
+export const toolFeedbackSchema = z.object({
+  body: z.object({
+    toolId: z.string().min(1).max(100),
+    // null clears an earlier vote.
+    vote: z.enum(["up", "down"]).nullable(),
+  }),
+});
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+const localeSchema = z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/, "Use a language tag such as hi or hi-Latn");
+
+export const toolIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{1,59}$/, "Use lowercase letters, numbers and dashes");
+
+export const recommendationsSchema = z.object({
+  query: z.object({
+    locale: z.string().max(35).optional(),
+    // How long the user has right now, from the time picker on the Coping page.
+    minutes: z.string().regex(/^[1-9]\d{0,2}$/).optional(),
+  }),
+});
+
+const exerciseScriptSchema = z.object({
+  intro: text(300).optional(),
+  steps: z
+    .array(
+      z.object({
+        label: text(60),
+        prompt: text(300),
+        durationSeconds: z.number().int().min(1).max(600).optional(),
+        animation: z.enum(EXERCISE_ANIMATIONS).optional(),
+        cue: z
+          .object({
+            haptic: z.enum(HAPTIC_STRENGTHS).optional(),
+            audio: z.string().url().optional(),
+          })
+          .optional(),
+      }),
+    )
+    .min(1)
+    .max(50),
+  repetitions: z.number().int().min(1).max(20),
+  outro: text(300).optional(),
+});
+
+// Translations carry text only; timing and cues always come from the tool's own script.
+const translationSchema = z.object({
+  title: text(80),
+  description: text(300),
+  script: z
+    .object({
+      intro: text(300).optional(),
+      outro: text(300).optional(),
+      steps: z.array(z.object({ label: text(60), prompt: text(300) })),
+    })
+    .optional(),
+});
+
+/** Mirrors `CopingTool` (without its id) plus the per-locale translations. */
+export const copingToolContentSchema = z
+  .object({
+    title: text(80),
+    description: text(300),
+    category: z.enum(COPING_CATEGORIES),
+    supportedMoods: z.array(z.enum(MOODS)).min(1),
+    intensityLevel: z.enum(INTENSITY_LEVELS),
+    durationMinutes: z.number().int().min(1).max(60),
+    type: text(60),
+    script: exerciseScriptSchema.optional(),
+    translations: z.record(localeSchema, translationSchema).default({}),
+  })
+  .superRefine((content, ctx) => {
+    Object.entries(content.translations).forEach(([locale, translation]) => {
+      if (!translation.script) return;
+      const expected = content.script?.steps.length ?? 0;
+      if (translation.script.steps.length !== expected) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["translations", locale, "script", "steps"],
+          message: expected ? `Translate all ${expected} script step${expected === 1 ? "" : "s"}` : "This tool has no script to translate",
+        });
+      }
+    });
+  });
+
+const toolParams = z.object({ id: toolIdSchema });
+
+export const createCopingToolSchema = z.object({
+  body: copingToolContentSchema.and(z.object({ id: toolIdSchema })),
+});
+
+export const updateCopingToolSchema = z.object({
+  params: toolParams,
+  body: copingToolContentSchema,
+});
+
+export const copingToolIdSchema = z.object({
+  params: toolParams,
+});
+
+export const customCopingToolInputSchema = z.object({
+  title: text(80),
+  description: z.string().trim().max(300).default(""),
+  category: z.enum(COPING_CATEGORIES),
+  supportedMoods: z.array(z.enum(MOODS)).min(1),
+  intensityLevel: z.enum(INTENSITY_LEVELS).default("low"),
+  durationMinutes: z.number().int().min(1).max(240),
+  inSafetyPlan: z.boolean().default(false),
+});
+
+const customToolParams = z.object({ id: z.string().min(1).max(100) });
+
+export const createCustomToolSchema = z.object({
+  body: customCopingToolInputSchema,
+});
+
+export const updateCustomToolSchema = z.object({
+  params: customToolParams,
+  body: customCopingToolInputSchema,
+});
+
+export const customToolIdSchema = z.object({
+  params: customToolParams,
+});
+
+export const favoriteToolSchema = z.object({
+  body: z.object({
+    toolId: z.string().min(1).max(100),
+    favorite: z.boolean(),
+  }),
+});
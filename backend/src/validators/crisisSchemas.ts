@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const resolveCrisisSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    note: z.string().max(500).optional(),
+  }),
+});
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const dismissWarningSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+});
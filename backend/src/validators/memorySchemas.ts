@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const category = z.enum(["life_event", "relationship", "preference", "goal", "health", "other"]);
+
+export const createMemorySchema = z.object({
+  body: z.object({
+    text: z.string().trim().min(1).max(200),
+    category: category.optional(),
+  }),
+});
+
+export const updateMemorySchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    text: z.string().trim().min(1).max(200).optional(),
+    category: category.optional(),
+  }),
+});
@@ -1,5 +1,16 @@
 import { z } from "zod";
 
+const contactSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    relation: z.string().optional(),
+    phone: z.string().optional(),
+    email: z.union([z.string().email(), z.literal("")]).optional(),
+    alertInCrisis: z.boolean().optional(),
+  })
+  .passthrough();
+
 export const updateSafetyPlanSchema = z.object({
   body: z.object({
     updatedAt: z.string().optional(),
@@ -8,7 +19,7 @@ export const updateSafetyPlanSchema = z.object({
     triggers: z.array(z.string()).optional(),
     copingSteps: z.array(z.string()).optional(),
     safePlaces: z.array(z.string()).optional(),
-    contacts: z.array(z.any()).optional(),
+    contacts: z.array(contactSchema).optional(),
     resources: z.array(z.any()).optional(),
     groundingNotes: z.string().optional(),
   }),
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const searchSchema = z.object({
+  query: z.object({
+    q: z.string().trim().min(2).max(300),
+    from: dayKey.optional(),
+    to: dayKey.optional(),
+    emotion: z.enum(["happy", "calm", "neutral", "sad", "anxious", "frustrated"]).optional(),
+    // Comma-separated list, e.g. "message,journal".
+    source: z.string().regex(/^(message|journal|day)(,(message|journal|day))*$/).optional(),
+    sort: z.enum(["relevance", "recent"]).optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional(),
+  }),
+});
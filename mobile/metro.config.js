@@ -0,0 +1,9 @@
+const path = require('path');
+const { getDefaultConfig, mergeConfig } = require('@react-native/metro-config');
+
+// @sahaay/shared is linked from ../packages, outside the folder Metro watches by default.
+const config = {
+  watchFolders: [path.resolve(__dirname, '../packages/shared')],
+};
+
+module.exports = mergeConfig(getDefaultConfig(__dirname), config);
@@ -1,4 +1,5 @@
-import { apiFetch } from './client';
+import { apiFetch, apiStream } from './client';
+import type { StreamHandle } from './client';
 
 export interface ChatMessage {
   id: string;
@@ -7,16 +8,36 @@ export interface ChatMessage {
   text: string;
   createdAt: string;
   dayKey: string;
+  threadId?: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  status: 'open' | 'ended';
+  dayKey: string;
+  startedAt: string;
+  lastMessageAt: string;
+  messageCount: number;
+  summary: string | null;
 }
 
 export interface SendMessageInput {
   text: string;
   timezone?: string;
+  threadId?: string;
 }
 
 export interface SendMessageResponse {
-  userMessage: ChatMessage;
-  aiMessage: ChatMessage;
+  messageId: string;
+  threadId: string;
+  tags: string[];
+  crisis: { severity: 'none' | 'low' | 'high' };
+}
+
+export interface StreamResponseHandlers {
+  onToken: (text: string) => void;
+  onDone?: (response: { messageId: string | null; text: string }) => void;
 }
 
 export interface DailyChatSummary {
@@ -29,34 +50,81 @@ export interface DailyChatSummary {
 }
 
 /**
- * Send chat message and get AI response
+ * Send chat message (emotion, crisis and tags are analysed server-side)
  */
 export const sendMessage = async (data: SendMessageInput): Promise<SendMessageResponse> => {
-  return apiFetch<SendMessageResponse>('/api/chat/send', {
+  return apiFetch<SendMessageResponse>('/api/chat', {
     method: 'POST',
     body: JSON.stringify(data),
   });
 };
 
+/**
+ * Stream the AI reply token by token; call cancel() on the handle to stop it
+ */
+export const streamResponse = (text: string, handlers: StreamResponseHandlers, threadId?: string): StreamHandle => {
+  return apiStream('/api/chat/respond', { text, threadId }, event => {
+    if (event.event === 'token') {
+      handlers.onToken((event.data as { text: string }).text);
+    }
+    if (event.event === 'done') {
+      const data = event.data as { messageId: string | null; response: { text: string } };
+      handlers.onDone?.({ messageId: data.messageId, text: data.response.text });
+    }
+  });
+};
+
 /**
  * Get chat history for today
  */
 export const getTodayMessages = async (timezone: string): Promise<ChatMessage[]> => {
   const response = await apiFetch<{ messages: ChatMessage[] }>(
-    `/api/chat/today?timezone=${encodeURIComponent(timezone)}`
+    `/api/chat?timezone=${encodeURIComponent(timezone)}`
+  );
+  return response.messages;
+};
+
+/**
+ * List recent conversation threads, newest first
+ */
+export const getThreads = async (): Promise<ChatThread[]> => {
+  const response = await apiFetch<{ threads: ChatThread[] }>('/api/chat/threads');
+  return response.threads;
+};
+
+/**
+ * Start a fresh topic; the previously open thread is ended
+ */
+export const createThread = async (title?: string): Promise<ChatThread> => {
+  const response = await apiFetch<{ thread: ChatThread }>('/api/chat/threads', {
+    method: 'POST',
+    body: JSON.stringify({ title }),
+  });
+  return response.thread;
+};
+
+/**
+ * Get all messages in one thread
+ */
+export const getThreadMessages = async (threadId: string): Promise<ChatMessage[]> => {
+  const response = await apiFetch<{ messages: ChatMessage[] }>(
+    `/api/chat?threadId=${encodeURIComponent(threadId)}`
   );
   return response.messages;
 };
 
 // Export service object for compatibility
 export const chatService = {
-  sendMessage: async (text: string) => {
+  sendMessage: async (text: string, threadId?: string) => {
     const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-    return sendMessage({ text, timezone });
+    return sendMessage({ text, timezone, threadId });
   },
-  getMessages: async () => {
+  streamResponse,
+  getThreads,
+  createThread,
+  getMessages: async (threadId?: string | null) => {
     const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-    const messages = await getTodayMessages(timezone);
+    const messages = threadId ? await getThreadMessages(threadId) : await getTodayMessages(timezone);
     // Transform to expected format
     return messages.map(msg => ({
       id: msg.id,
@@ -94,11 +94,25 @@ export const checkinService = {
   },
 };
 
+/**
+ * Correct one entry of a day's check-ins
+ */
+export const updateCheckIn = async (
+  dayKey: string,
+  id: string,
+  changes: Partial<Pick<CheckIn, 'mood' | 'intensity' | 'note'>>
+): Promise<void> => {
+  await apiFetch(`/api/checkins/${dayKey}/entries/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+};
+
 /**
  * Delete a check-in
  */
-export const deleteCheckIn = async (id: string): Promise<void> => {
-  return apiFetch<void>(`/api/checkins/${id}`, {
+export const deleteCheckIn = async (dayKey: string, id: string): Promise<void> => {
+  await apiFetch(`/api/checkins/${dayKey}/entries/${id}`, {
     method: 'DELETE',
   });
 };
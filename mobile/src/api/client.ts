@@ -121,6 +121,96 @@ export const apiFetch = async <T>(
   }
 };
 
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface StreamHandle {
+  cancel: () => void;
+  done: Promise<void>;
+}
+
+const parseSseBlock = (block: string): StreamEvent | null => {
+  let event = 'message';
+  const dataLines: string[] = [];
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+  });
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+};
+
+/**
+ * POST to a Server-Sent Events endpoint
+ * React Native's fetch cannot read a body incrementally, so this uses
+ * XMLHttpRequest progress events and parses the text received so far.
+ */
+export const apiStream = (
+  path: string,
+  body: unknown,
+  onEvent: (event: StreamEvent) => void
+): StreamHandle => {
+  const xhr = new XMLHttpRequest();
+  let cursor = 0;
+  let cancelled = false;
+
+  const flush = () => {
+    const text = xhr.responseText.slice(cursor).replace(/\r\n/g, '\n');
+    let consumed = 0;
+    let boundary = text.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseSseBlock(text.slice(consumed, boundary));
+      if (parsed) onEvent(parsed);
+      consumed = boundary + 2;
+      boundary = text.indexOf('\n\n', consumed);
+    }
+    cursor += consumed;
+  };
+
+  const done = getAuthToken().then(token => new Promise<void>((resolve, reject) => {
+    if (cancelled) {
+      resolve();
+      return;
+    }
+
+    xhr.open('POST', buildUrl(path));
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      if (xhr.status >= 400) {
+        const err: ApiError = new Error('API request failed');
+        err.status = xhr.status;
+        reject(err);
+        return;
+      }
+      flush();
+      resolve();
+    };
+    xhr.onerror = () => reject(new Error('Stream request failed'));
+    xhr.onabort = () => resolve();
+    xhr.send(JSON.stringify(body));
+  }));
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      xhr.abort();
+    },
+    done,
+  };
+};
+
 /**
  * Upload file with multipart/form-data
  */
@@ -0,0 +1,33 @@
+import { COPING_TOOLS, buildRecommendationContext, getRecommendedCopingTools } from '@sahaay/shared';
+import type { Mood, RecommendedTool } from '@sahaay/shared';
+import { apiFetch } from './client';
+import type { ApiError } from './client';
+
+export interface CopingRecommendations {
+  recommendations: RecommendedTool[];
+  // True when the list was ranked on the device because the server was unreachable.
+  offline: boolean;
+}
+
+/**
+ * Get recommended coping tools, best first.
+ *
+ * Without a connection the shared engine ranks the built-in tools from the
+ * check-ins the app already holds, in the same order the server would
+ * before it applies what it has learned about the user.
+ */
+export const getCopingRecommendations = async (
+  recentCheckIns: Array<{ mood: Mood; createdAt: string }> = []
+): Promise<CopingRecommendations> => {
+  try {
+    const result = await apiFetch<{ recommendations: RecommendedTool[] }>(
+      `/api/coping/recommendations?locale=${encodeURIComponent(Intl.DateTimeFormat().resolvedOptions().locale)}`
+    );
+    return { recommendations: result.recommendations, offline: false };
+  } catch (error) {
+    // An error response means the server was reached; only a failed request falls back.
+    if ((error as ApiError).status) throw error;
+    const context = buildRecommendationContext({ checkIns: recentCheckIns });
+    return { recommendations: getRecommendedCopingTools(COPING_TOOLS, context), offline: true };
+  }
+};
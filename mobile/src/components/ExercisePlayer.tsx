@@ -0,0 +1,157 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Animated, Easing, Vibration } from 'react-native';
+import { HAPTIC_DURATION_MS, expandScript, frameScale } from '@sahaay/shared';
+import type { ExerciseCue, ExerciseScript } from '@sahaay/shared';
+import { Button } from './Button';
+import { theme } from '../theme';
+
+interface ExercisePlayerProps {
+  script: ExerciseScript;
+  onFinish?: () => void;
+  onClose: () => void;
+}
+
+type PlayerStatus = 'ready' | 'running' | 'paused' | 'finished';
+
+// The app has no audio player yet, so only haptic cues play on mobile.
+const playCue = (cue?: ExerciseCue) => {
+  if (cue?.haptic) Vibration.vibrate(HAPTIC_DURATION_MS[cue.haptic]);
+};
+
+/**
+ * Plays any coping tool's step script, the same scripts the web player runs.
+ * Timed steps count down and move on by themselves; untimed ones wait for "Next".
+ */
+export const ExercisePlayer: React.FC<ExercisePlayerProps> = ({ script, onFinish, onClose }) => {
+  const frames = useMemo(() => expandScript(script), [script]);
+  const [status, setStatus] = useState<PlayerStatus>('ready');
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const scale = useRef(new Animated.Value(1)).current;
+  const frame = frames[index];
+  const timed = Boolean(frame?.step.durationSeconds);
+  const hasVisual = frames.some((item) => item.step.animation);
+
+  const goTo = useCallback(
+    (next: number) => {
+      if (next >= frames.length) {
+        setStatus('finished');
+        onFinish?.();
+        return;
+      }
+      setIndex(next);
+      setRemaining(frames[next].step.durationSeconds ?? 0);
+      playCue(frames[next].step.cue);
+      Animated.timing(scale, {
+        toValue: frameScale(frames, next),
+        duration: (frames[next].step.durationSeconds ?? 1) * 1000,
+        easing: Easing.inOut(Easing.ease),
+        useNativeDriver: true,
+      }).start();
+    },
+    [frames, onFinish, scale]
+  );
+
+  useEffect(() => {
+    if (status !== 'running' || !timed) return;
+    if (remaining <= 0) {
+      goTo(index + 1);
+      return;
+    }
+    const id = setTimeout(() => setRemaining((value) => value - 1), 1000);
+    return () => clearTimeout(id);
+  }, [status, timed, remaining, index, goTo]);
+
+  const start = () => {
+    setStatus('running');
+    goTo(0);
+  };
+
+  if (status === 'ready') {
+    return (
+      <View style={styles.container}>
+        {script.intro && <Text style={styles.muted}>{script.intro}</Text>}
+        <Button title="Start" onPress={start} />
+      </View>
+    );
+  }
+
+  if (status === 'finished') {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.prompt}>{script.outro ?? 'Nice work. Take a moment to notice how you feel.'}</Text>
+        <Button title="Done" onPress={onClose} />
+      </View>
+    );
+  }
+
+  const progress =
+    script.repetitions > 1 ? `Round ${frame.round} of ${script.repetitions}` : `Step ${index + 1} of ${frames.length}`;
+
+  return (
+    <View style={styles.container}>
+      {hasVisual ? (
+        <Animated.View style={[styles.circle, { transform: [{ scale }] }]}>
+          <Text style={styles.label}>{frame.step.label}</Text>
+        </Animated.View>
+      ) : (
+        <View style={styles.labelCard}>
+          <Text style={styles.label}>{frame.step.label}</Text>
+        </View>
+      )}
+      <Text style={styles.prompt}>{frame.step.prompt}</Text>
+      <Text style={styles.muted}>
+        {progress}
+        {timed ? ` · ${remaining}s` : ''}
+      </Text>
+      {timed ? (
+        <Button
+          title={status === 'paused' ? 'Resume' : 'Pause'}
+          variant="outline"
+          onPress={() => setStatus(status === 'paused' ? 'running' : 'paused')}
+        />
+      ) : (
+        <Button title={index === frames.length - 1 ? 'Finish' : 'Next'} onPress={() => goTo(index + 1)} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: theme.spacing.lg,
+    paddingVertical: theme.spacing.xl,
+  },
+  circle: {
+    width: 144,
+    height: 144,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: '#e0e7ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  labelCard: {
+    minHeight: 96,
+    paddingHorizontal: theme.spacing.lg,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  label: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.primary,
+  },
+  prompt: {
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  muted: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+  },
+});
@@ -2,3 +2,4 @@ export { Button } from './Button';
 export { Card } from './Card';
 export { Input } from './Input';
 export { Loading } from './Loading';
+export { ExercisePlayer } from './ExercisePlayer';
@@ -7,6 +7,7 @@ import {
   LoginScreen,
   DashboardScreen,
   ChatScreen,
+  CopingScreen,
   AnalyticsScreen,
   JournalScreen,
   SettingsScreen,
@@ -57,6 +58,13 @@ const TabNavigator = () => {
           tabBarIcon: ({ color }) => <span style={{ fontSize: 24 }}>💬</span>,
         }}
       />
+      <Tab.Screen
+        name="Cope"
+        component={CopingScreen}
+        options={{
+          tabBarIcon: ({ color }) => <span style={{ fontSize: 24 }}>🌿</span>,
+        }}
+      />
       <Tab.Screen
         name="Analytics"
         component={AnalyticsScreen}
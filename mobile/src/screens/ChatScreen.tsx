@@ -6,11 +6,14 @@ import {
   FlatList,
   KeyboardAvoidingView,
   Platform,
+  ScrollView,
+  TouchableOpacity,
 } from 'react-native';
 import { Input, Button, Loading } from '../components';
 import { theme } from '../theme';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { chatService } from '../api/chat.service';
+import type { StreamHandle } from '../api/client';
 
 interface Message {
   id: string;
@@ -23,23 +26,86 @@ export const ChatScreen: React.FC = () => {
   const queryClient = useQueryClient();
   const flatListRef = useRef<FlatList>(null);
   const [inputText, setInputText] = useState('');
+  const [pending, setPending] = useState<Message[]>([]);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const streamRef = useRef<StreamHandle | null>(null);
+  const isStreaming = streamingText !== null;
+  // null until the user picks a thread; then the open thread (if any) is shown
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [startingFresh, setStartingFresh] = useState(false);
 
-  // Fetch chat history
-  const { data: messages, isLoading } = useQuery({
-    queryKey: ['chatMessages'],
-    queryFn: chatService.getMessages,
-    refetchInterval: 5000, // Poll every 5 seconds for new messages
+  const { data: threads, isLoading: threadsLoading } = useQuery({
+    queryKey: ['chatThreads'],
+    queryFn: chatService.getThreads,
   });
+  const activeThreadId =
+    threadId ?? (startingFresh ? null : threads?.find(thread => thread.status === 'open')?.id ?? null);
 
-  const messageList = messages || [];
+  // Fetch the active thread's messages
+  const { data: messages, isLoading: messagesLoading } = useQuery({
+    queryKey: ['chatMessages', activeThreadId],
+    queryFn: () => (activeThreadId ? chatService.getMessages(activeThreadId) : Promise.resolve([])),
+    enabled: !threadsLoading,
+    refetchInterval: isStreaming ? false : 5000, // Poll every 5 seconds for new messages
+  });
+  const isLoading = threadsLoading || messagesLoading;
+
+  const selectThread = (id: string) => {
+    if (isStreaming) return;
+    setStartingFresh(false);
+    setThreadId(id);
+  };
+
+  const startNewThread = () => {
+    if (isStreaming) return;
+    // The thread itself is created by the server with the first message
+    setThreadId(null);
+    setStartingFresh(true);
+  };
+
+  const messageList: Message[] = [
+    ...(messages || []),
+    ...pending,
+    ...(streamingText
+      ? [{ id: 'streaming', role: 'assistant' as const, content: streamingText, timestamp: new Date() }]
+      : []),
+  ];
 
-  // Send message mutation
+  useEffect(() => () => streamRef.current?.cancel(), []);
+
+  const finishStream = () => {
+    streamRef.current = null;
+    queryClient.invalidateQueries({ queryKey: ['chatThreads'] });
+    queryClient.invalidateQueries({ queryKey: ['chatMessages'] }).finally(() => {
+      setPending([]);
+      setStreamingText(null);
+    });
+  };
+
+  // Send message mutation, then stream the reply into a temporary bubble
   const sendMutation = useMutation({
-    mutationFn: (message: string) => chatService.sendMessage(message),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
+    mutationFn: (message: string) => chatService.sendMessage(message, activeThreadId ?? undefined),
+    onMutate: (message: string) => {
+      setPending([{ id: 'pending-user', role: 'user', content: message, timestamp: new Date() }]);
       setInputText('');
     },
+    onSuccess: (result, message) => {
+      setStreamingText('');
+      setStartingFresh(false);
+      setThreadId(result.threadId);
+      const handle = chatService.streamResponse(
+        message,
+        {
+          onToken: text => setStreamingText(prev => (prev ?? '') + text),
+          // The server's response guard may replace a reply part-way, so the final text wins
+          onDone: ({ text }) => setStreamingText(prev => text || prev),
+        },
+        result.threadId,
+      );
+      streamRef.current = handle;
+      handle.done.catch(() => null).finally(finishStream);
+    },
+    onError: () => setPending([]),
   });
 
   const handleSend = () => {
@@ -48,11 +114,15 @@ export const ChatScreen: React.FC = () => {
     }
   };
 
+  const handleCancel = () => {
+    streamRef.current?.cancel();
+  };
+
   useEffect(() => {
     if (messageList.length > 0) {
       flatListRef.current?.scrollToEnd({ animated: true });
     }
-  }, [messageList.length]);
+  }, [messageList.length, streamingText]);
 
   const renderMessage = ({ item }: { item: Message }) => {
     const isUser = item.role === 'user';
@@ -87,6 +157,34 @@ export const ChatScreen: React.FC = () => {
       style={styles.container}
       keyboardVerticalOffset={90}
     >
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.threadBar}
+        contentContainerStyle={styles.threadBarContent}
+      >
+        <TouchableOpacity
+          style={[styles.threadChip, !activeThreadId && styles.threadChipActive]}
+          onPress={startNewThread}
+        >
+          <Text style={[styles.threadChipText, !activeThreadId && styles.threadChipTextActive]}>+ New topic</Text>
+        </TouchableOpacity>
+        {(threads || []).map(thread => {
+          const active = thread.id === activeThreadId;
+          return (
+            <TouchableOpacity
+              key={thread.id}
+              style={[styles.threadChip, active && styles.threadChipActive]}
+              onPress={() => selectThread(thread.id)}
+            >
+              <Text style={[styles.threadChipText, active && styles.threadChipTextActive]} numberOfLines={1}>
+                {thread.title}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
       <FlatList
         ref={flatListRef}
         data={messageList}
@@ -115,12 +213,16 @@ export const ChatScreen: React.FC = () => {
           style={styles.inputField}
           onSubmitEditing={handleSend}
         />
-        <Button
-          title={sendMutation.isPending ? '...' : '→'}
-          onPress={handleSend}
-          disabled={!inputText.trim() || sendMutation.isPending}
-          style={styles.sendButton}
-        />
+        {isStreaming ? (
+          <Button title="■" onPress={handleCancel} style={styles.sendButton} />
+        ) : (
+          <Button
+            title={sendMutation.isPending ? '...' : '→'}
+            onPress={handleSend}
+            disabled={!inputText.trim() || sendMutation.isPending}
+            style={styles.sendButton}
+          />
+        )}
       </View>
     </KeyboardAvoidingView>
   );
@@ -131,6 +233,36 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: theme.colors.background,
   },
+  threadBar: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: theme.colors.card,
+  },
+  threadBarContent: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.sm,
+  },
+  threadChip: {
+    maxWidth: 180,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
+  },
+  threadChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  threadChipText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text,
+  },
+  threadChipTextActive: {
+    color: '#fff',
+  },
   messageList: {
     padding: theme.spacing.lg,
     flexGrow: 1,
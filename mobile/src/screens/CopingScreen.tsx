@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Modal } from 'react-native';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getToolScript } from '@sahaay/shared';
+import type { RecommendedTool } from '@sahaay/shared';
+import { Card, ExercisePlayer, Loading } from '../components';
+import { getCopingRecommendations } from '../api/coping.service';
+import type { CheckIn } from '../api/checkin.service';
+import { getCopingToolAppearance } from '../theme/copingTools';
+import { theme } from '../theme';
+
+export const CopingScreen: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [playing, setPlaying] = useState<RecommendedTool | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['copingRecommendations'],
+    queryFn: () => {
+      // Offline, the on-device ranking uses today's check-in if the Dashboard already loaded it.
+      const today = queryClient.getQueryData<CheckIn | null>(['todayCheckin']);
+      return getCopingRecommendations(today ? [today] : []);
+    },
+  });
+
+  // Only tools with a step script can be played here.
+  const tools = (data?.recommendations ?? [])
+    .map((tool) => ({ ...tool, script: getToolScript(tool) }))
+    .filter((tool) => tool.script);
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.title}>Ways to feel better</Text>
+      <Text style={styles.subtitle}>Pick a guided exercise that feels right for you right now.</Text>
+      {data?.offline && <Text style={styles.offline}>You're offline, so these are ranked on your phone.</Text>}
+
+      {isLoading ? (
+        <Loading />
+      ) : (
+        tools.map((tool) => {
+          const appearance = getCopingToolAppearance(tool.id);
+          return (
+            <TouchableOpacity key={tool.id} onPress={() => setPlaying(tool)}>
+              <Card style={styles.card}>
+                <View style={styles.row}>
+                  <View style={[styles.icon, { backgroundColor: appearance.color }]}>
+                    <Text style={styles.emoji}>{appearance.emoji}</Text>
+                  </View>
+                  <View style={styles.body}>
+                    <Text style={styles.toolTitle}>{tool.title}</Text>
+                    <Text style={styles.description}>{tool.description}</Text>
+                    {tool.score >= 50 && <Text style={styles.reason}>💡 {tool.reason}</Text>}
+                  </View>
+                </View>
+              </Card>
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      <Modal visible={Boolean(playing)} animationType="slide" onRequestClose={() => setPlaying(null)}>
+        <View style={styles.modal}>
+          <Text style={styles.title}>{playing?.title}</Text>
+          {playing?.script && (
+            <ExercisePlayer key={playing.id} script={playing.script} onClose={() => setPlaying(null)} />
+          )}
+          <TouchableOpacity onPress={() => setPlaying(null)}>
+            <Text style={styles.close}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.typography.fontSize['2xl'],
+    fontWeight: theme.typography.fontWeight.bold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.textMuted,
+    marginBottom: theme.spacing.lg,
+  },
+  offline: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.warning,
+    marginBottom: theme.spacing.md,
+  },
+  card: {
+    marginBottom: theme.spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+  },
+  icon: {
+    width: 48,
+    height: 48,
+    borderRadius: theme.borderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emoji: {
+    fontSize: 24,
+  },
+  body: {
+    flex: 1,
+  },
+  toolTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text,
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.textMuted,
+    marginTop: theme.spacing.xs,
+  },
+  reason: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.primary,
+    fontStyle: 'italic',
+    marginTop: theme.spacing.sm,
+  },
+  modal: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+    padding: theme.spacing.lg,
+    paddingTop: theme.spacing.xxl,
+  },
+  close: {
+    fontSize: theme.typography.fontSize.base,
+    color: theme.colors.textMuted,
+    textAlign: 'center',
+    marginTop: theme.spacing.lg,
+  },
+});
@@ -1,6 +1,7 @@
 export { LoginScreen } from './LoginScreen';
 export { DashboardScreen } from './DashboardScreen';
 export { ChatScreen } from './ChatScreen';
+export { CopingScreen } from './CopingScreen';
 export { AnalyticsScreen } from './AnalyticsScreen';
 export { JournalScreen } from './JournalScreen';
 export { SettingsScreen } from './SettingsScreen';
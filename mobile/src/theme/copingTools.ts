@@ -0,0 +1,27 @@
+import { theme } from './index';
+
+export interface CopingToolAppearance {
+  emoji: string;
+  color: string;
+}
+
+// Mobile presentation for the tools in @sahaay/shared, keyed by tool id.
+const TOOL_APPEARANCE: Record<string, CopingToolAppearance> = {
+  'box-breathing': { emoji: '🌬️', color: '#d1fae5' },
+  '478-breathing': { emoji: '🌬️', color: '#d1fae5' },
+  'simple-breathing': { emoji: '🌬️', color: '#d1fae5' },
+  '54321-grounding': { emoji: '⛰️', color: '#ede9fe' },
+  'body-scan': { emoji: '⛰️', color: '#ede9fe' },
+  'progressive-muscle-relaxation': { emoji: '💆', color: '#ede9fe' },
+  'cognitive-reframing': { emoji: '🧠', color: '#dbeafe' },
+  'thought-journaling': { emoji: '📝', color: '#dbeafe' },
+  affirmations: { emoji: '✨', color: '#ffe4e6' },
+  'gratitude-reflection': { emoji: '💛', color: '#ffe4e6' },
+  'self-compassion': { emoji: '💛', color: '#ffe4e6' },
+  'quick-exercises': { emoji: '🏃', color: theme.colors.surface },
+};
+
+const FALLBACK_APPEARANCE: CopingToolAppearance = { emoji: '✨', color: '#ffe4e6' };
+
+export const getCopingToolAppearance = (toolId: string): CopingToolAppearance =>
+  TOOL_APPEARANCE[toolId] ?? FALLBACK_APPEARANCE;
@@ -0,0 +1,249 @@
+import type { CopingTool } from "./recommendation.js";
+import type { ExerciseScript } from "./exercise.js";
+
+const BREATHE_IN = { label: "Inhale", animation: "expand", cue: { haptic: "light" } } as const;
+const HOLD = { label: "Hold", animation: "hold" } as const;
+const BREATHE_OUT = { label: "Exhale", animation: "contract", cue: { haptic: "light" } } as const;
+
+const SIMPLE_BREATHING: ExerciseScript = {
+  intro: "Sit comfortably. We'll breathe together for four rounds.",
+  steps: [
+    { ...BREATHE_IN, prompt: "Breathe in slowly…", durationSeconds: 4 },
+    { ...HOLD, prompt: "Hold gently…", durationSeconds: 4 },
+    { ...BREATHE_OUT, prompt: "Release slowly…", durationSeconds: 4 },
+  ],
+  repetitions: 4,
+};
+
+const BOX_BREATHING: ExerciseScript = {
+  intro: "Used by Navy SEALs for stress management. Four counts for each side of the box.",
+  steps: [
+    { ...BREATHE_IN, prompt: "Breathe in through your nose…", durationSeconds: 4 },
+    { ...HOLD, prompt: "Hold…", durationSeconds: 4 },
+    { ...BREATHE_OUT, prompt: "Exhale through your mouth…", durationSeconds: 4 },
+    { ...HOLD, prompt: "Hold with empty lungs…", durationSeconds: 4 },
+  ],
+  repetitions: 4,
+};
+
+const BREATHING_478: ExerciseScript = {
+  intro: "Dr. Weil's technique for deep relaxation.",
+  steps: [
+    { ...BREATHE_IN, prompt: "Breathe in quietly through your nose…", durationSeconds: 4 },
+    { ...HOLD, prompt: "Hold your breath…", durationSeconds: 7 },
+    { ...BREATHE_OUT, prompt: "Exhale completely through your mouth…", durationSeconds: 8 },
+  ],
+  repetitions: 4,
+};
+
+const GROUNDING_54321: ExerciseScript = {
+  intro: "Take your time with each sense. Move on whenever you're ready.",
+  steps: [
+    { label: "5", prompt: "Name five things you can see 👀" },
+    { label: "4", prompt: "Name four things you can touch ✋" },
+    { label: "3", prompt: "Name three things you can hear 👂" },
+    { label: "2", prompt: "Name two things you can smell 🌸" },
+    { label: "1", prompt: "Name one thing you can taste 👅" },
+  ],
+  repetitions: 1,
+  outro: "Notice how you feel now, here in the present moment.",
+};
+
+const BODY_SCAN: ExerciseScript = {
+  intro: "Close your eyes and notice sensations in each area.",
+  steps: [
+    { label: "Head and face", prompt: "🧠 Release any tension in your jaw and forehead.", durationSeconds: 30, cue: { haptic: "light" } },
+    { label: "Neck and shoulders", prompt: "💆 Let your shoulders drop.", durationSeconds: 30, cue: { haptic: "light" } },
+    { label: "Chest and breathing", prompt: "🫁 Notice the rhythm of your breath.", durationSeconds: 30, cue: { haptic: "light" } },
+    { label: "Arms and hands", prompt: "🤲 Feel their weight.", durationSeconds: 30, cue: { haptic: "light" } },
+    { label: "Legs and feet", prompt: "🦵 Feel them grounded and stable.", durationSeconds: 30, cue: { haptic: "light" } },
+  ],
+  repetitions: 1,
+};
+
+const tenseAndRelease = (group: string, tense: string) => [
+  { label: `Tense: ${group}`, prompt: tense, durationSeconds: 5, cue: { haptic: "medium" } } as const,
+  { label: `Release: ${group}`, prompt: "Let go and notice the difference.", durationSeconds: 10, cue: { haptic: "light" } } as const,
+];
+
+const PROGRESSIVE_MUSCLE_RELAXATION: ExerciseScript = {
+  intro: "Tense each muscle group for 5 seconds, then release.",
+  steps: [
+    ...tenseAndRelease("Hands", "✊ Make tight fists."),
+    ...tenseAndRelease("Arms", "💪 Flex your biceps."),
+    ...tenseAndRelease("Face", "😤 Scrunch your face tight."),
+    ...tenseAndRelease("Shoulders", "🫸 Raise your shoulders to your ears."),
+    ...tenseAndRelease("Legs", "🦵 Tighten your thighs."),
+    ...tenseAndRelease("Feet", "🦶 Curl your toes down."),
+  ],
+  repetitions: 1,
+};
+
+
+/**
+ * The built-in coping tools, without any presentation. Each app layers its
+ * own icons and colors on by tool id.
+ *
+ * Clinical references:
+ * - Box Breathing: Used in trauma therapy, military stress management
+ * - 4-7-8 Breathing: Dr. Andrew Weil's relaxation technique
+ * - 5-4-3-2-1 Grounding: Standard DBT distress tolerance skill
+ * - Body Scan: MBSR (Mindfulness-Based Stress Reduction)
+ * - Progressive Muscle Relaxation: Jacobson's relaxation technique
+ * - Cognitive Reframing: Core CBT technique for challenging thoughts
+ * - Thought Journaling: CBT/ACT-based cognitive defusion
+ * - Gratitude Practice: Positive psychology intervention
+ * - Movement Reset: Somatic therapy, embodied cognition research
+ * - Self-Compassion: ACT, CFT (Compassion-Focused Therapy)
+ */
+export const COPING_TOOLS: CopingTool[] = [
+  // ===================================
+  // BREATHING TECHNIQUES
+  // ===================================
+  {
+    id: "box-breathing",
+    title: "Box Breathing",
+    description: "4-4-4-4 breathing used by Navy SEALs to manage stress",
+    category: "breathing",
+    supportedMoods: ["anxious", "frustrated", "neutral"],
+    intensityLevel: "high",
+    durationMinutes: 2,
+    type: "box-breathing",
+    script: BOX_BREATHING,
+  },
+  {
+    id: "478-breathing",
+    title: "4-7-8 Breathing",
+    description: "Deeply calming breath pattern for sleep and anxiety",
+    category: "breathing",
+    supportedMoods: ["anxious", "frustrated", "sad", "neutral"],
+    intensityLevel: "medium",
+    durationMinutes: 3,
+    type: "478-breathing",
+    script: BREATHING_478,
+  },
+  {
+    id: "simple-breathing",
+    title: "Simple Breathing",
+    description: "Gentle 4-4 breathing to calm your nervous system",
+    category: "breathing",
+    supportedMoods: ["anxious", "frustrated", "neutral", "calm"],
+    intensityLevel: "low",
+    durationMinutes: 2,
+    type: "breathing",
+    script: SIMPLE_BREATHING,
+  },
+
+  // ===================================
+  // GROUNDING TECHNIQUES
+  // ===================================
+  {
+    id: "54321-grounding",
+    title: "5-4-3-2-1 Grounding",
+    description: "Use your five senses to anchor yourself in the present moment",
+    category: "grounding",
+    supportedMoods: ["anxious", "frustrated", "sad"],
+    intensityLevel: "high",
+    durationMinutes: 3,
+    type: "grounding",
+    script: GROUNDING_54321,
+  },
+  {
+    id: "body-scan",
+    title: "Body Scan Meditation",
+    description: "Notice sensations from head to toe to reconnect with your body",
+    category: "grounding",
+    supportedMoods: ["anxious", "frustrated", "neutral", "calm"],
+    intensityLevel: "medium",
+    durationMinutes: 5,
+    type: "body-scan",
+    script: BODY_SCAN,
+  },
+  {
+    id: "progressive-muscle-relaxation",
+    title: "Progressive Muscle Relaxation",
+    description: "Tense and release muscle groups to release physical tension",
+    category: "grounding",
+    supportedMoods: ["anxious", "frustrated", "neutral"],
+    intensityLevel: "medium",
+    durationMinutes: 7,
+    type: "pmr",
+    script: PROGRESSIVE_MUSCLE_RELAXATION,
+  },
+
+  // ===================================
+  // COGNITIVE TECHNIQUES
+  // ===================================
+  {
+    id: "cognitive-reframing",
+    title: "Cognitive Reframing",
+    description: "Challenge unhelpful thoughts with evidence-based questions",
+    category: "cognitive",
+    supportedMoods: ["anxious", "sad", "frustrated", "neutral"],
+    intensityLevel: "medium",
+    durationMinutes: 5,
+    type: "cognitive-reframing",
+  },
+  {
+    id: "thought-journaling",
+    title: "Thought Journaling",
+    description: "Write down your thoughts to gain distance and perspective",
+    category: "cognitive",
+    supportedMoods: ["anxious", "sad", "frustrated", "neutral"],
+    intensityLevel: "low",
+    durationMinutes: 10,
+    type: "thought-journaling",
+  },
+
+  // ===================================
+  // REFLECTION TECHNIQUES
+  // ===================================
+  {
+    id: "affirmations",
+    title: "Self-Affirmations",
+    description: "Gentle reminders of your strength, worth, and resilience",
+    category: "reflection",
+    supportedMoods: ["sad", "frustrated", "neutral", "anxious"],
+    intensityLevel: "low",
+    durationMinutes: 2,
+    type: "affirmations",
+  },
+  {
+    id: "gratitude-reflection",
+    title: "Gratitude Reflection",
+    description: "Notice three things you're grateful for right now",
+    category: "reflection",
+    supportedMoods: ["sad", "neutral", "calm", "happy"],
+    intensityLevel: "low",
+    durationMinutes: 3,
+    type: "gratitude",
+  },
+  {
+    id: "self-compassion",
+    title: "Self-Compassion Break",
+    description: "Treat yourself with the kindness you'd offer a friend",
+    category: "reflection",
+    supportedMoods: ["sad", "frustrated", "anxious", "neutral"],
+    intensityLevel: "low",
+    durationMinutes: 4,
+    type: "self-compassion",
+  },
+
+  // ===================================
+  // MOVEMENT TECHNIQUES
+  // ===================================
+  {
+    id: "quick-exercises",
+    title: "Movement Reset",
+    description: "Simple stretches and movements to release tension",
+    category: "movement",
+    supportedMoods: ["frustrated", "anxious", "neutral", "happy"],
+    intensityLevel: "medium",
+    durationMinutes: 5,
+    type: "exercises",
+  },
+];
+
+/** A tool's step script; tools stored before scripts existed fall back to the built-in tool with the same id. */
+export const getToolScript = (tool: Pick<CopingTool, "id" | "script">) =>
+  tool.script ?? COPING_TOOLS.find((item) => item.id === tool.id)?.script;
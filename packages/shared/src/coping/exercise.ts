@@ -0,0 +1,74 @@
+export const EXERCISE_ANIMATIONS = ["expand", "hold", "contract"] as const;
+export const HAPTIC_STRENGTHS = ["light", "medium", "strong"] as const;
+
+export type ExerciseAnimation = (typeof EXERCISE_ANIMATIONS)[number];
+export type HapticStrength = (typeof HAPTIC_STRENGTHS)[number];
+
+export interface ExerciseCue {
+  haptic?: HapticStrength;
+  // URL of a short sound to play as the step starts.
+  audio?: string;
+}
+
+export interface ExerciseStep {
+  label: string;
+  prompt: string;
+  // Timed steps move on by themselves; without a duration the user moves on when ready.
+  durationSeconds?: number;
+  // Breathing visual: grow, stay, or shrink over the step.
+  animation?: ExerciseAnimation;
+  cue?: ExerciseCue;
+}
+
+/**
+ * A guided exercise as data: its steps run in order, `repetitions` times.
+ * Any tool with a script can be played by the web and mobile players.
+ */
+export interface ExerciseScript {
+  intro?: string;
+  steps: ExerciseStep[];
+  repetitions: number;
+  outro?: string;
+}
+
+export interface ExerciseFrame {
+  step: ExerciseStep;
+  stepIndex: number;
+  // 1-based, for "Round 2 of 4".
+  round: number;
+}
+
+// Vibration length per strength; both navigator.vibrate and React Native's Vibration take milliseconds.
+export const HAPTIC_DURATION_MS: Record<HapticStrength, number> = {
+  light: 20,
+  medium: 40,
+  strong: 80,
+};
+
+// Visual scale for each animation, relative to the circle at rest.
+const ANIMATION_SCALE: Record<Exclude<ExerciseAnimation, "hold">, number> = {
+  expand: 1.25,
+  contract: 0.9,
+};
+
+/** Every step the player will show, in order, with the round it belongs to. */
+export const expandScript = (script: ExerciseScript): ExerciseFrame[] =>
+  Array.from({ length: Math.max(1, script.repetitions) }, (_, roundIndex) =>
+    script.steps.map((step, stepIndex) => ({ step, stepIndex, round: roundIndex + 1 })),
+  ).flat();
+
+/** Seconds the timed steps take in total; untimed steps add nothing. */
+export const scriptDurationSeconds = (script: ExerciseScript) =>
+  script.steps.reduce((sum, step) => sum + (step.durationSeconds ?? 0), 0) * Math.max(1, script.repetitions);
+
+/**
+ * How large the breathing circle should be at a frame. A hold keeps the size
+ * the last expand or contract left it at.
+ */
+export const frameScale = (frames: ExerciseFrame[], index: number) => {
+  for (let current = index; current >= 0; current -= 1) {
+    const animation = frames[current]?.step.animation;
+    if (animation && animation !== "hold") return ANIMATION_SCALE[animation];
+  }
+  return 1;
+};
@@ -0,0 +1,5 @@
+export { COPING_TOOLS, getToolScript } from "./catalog.js";
+export { EXERCISE_ANIMATIONS, HAPTIC_DURATION_MS, HAPTIC_STRENGTHS, expandScript, frameScale, scriptDurationSeconds } from "./exercise.js";
+export type { ExerciseAnimation, ExerciseCue, ExerciseFrame, ExerciseScript, ExerciseStep, HapticStrength } from "./exercise.js";
+export { COPING_CATEGORIES, INTENSITY_LEVELS, analyzeChatSentiment, buildRecommendationContext, getMoodIntensity, getRecommendedCopingTools } from "./recommendation.js";
+export type { CopingCategory, CopingTool, IntensityLevel, MoodTrend, RecommendationContext, RecommendationSignals, RecommendedTool, TimeOfDay } from "./recommendation.js";
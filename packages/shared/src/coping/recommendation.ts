@@ -0,0 +1,325 @@
+import type { Mood } from "../types.js";
+import { matchSignals } from "../lexicon/index.js";
+import type { ExerciseScript } from "./exercise.js";
+
+export const COPING_CATEGORIES = ["breathing", "grounding", "cognitive", "movement", "reflection"] as const;
+export const INTENSITY_LEVELS = ["low", "medium", "high"] as const;
+
+export type CopingCategory = (typeof COPING_CATEGORIES)[number];
+export type IntensityLevel = (typeof INTENSITY_LEVELS)[number];
+
+export interface CopingTool {
+  id: string;
+  title: string;
+  description: string;
+  category: CopingCategory;
+  supportedMoods: Mood[];
+  intensityLevel: IntensityLevel;
+  durationMinutes: number;
+  type: string;
+  // Steps for the guided player; tools without one open their own view.
+  script?: ExerciseScript;
+}
+
+export interface RecommendedTool extends CopingTool {
+  score: number;
+  reason: string;
+}
+
+export type MoodTrend = "improving" | "steady" | "declining";
+export type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+
+export interface RecommendationContext {
+  currentMood: Mood | null;
+  // Whether the user said so in a check-in or it was inferred from chat.
+  currentMoodSource: "manual" | "chat" | null;
+  moodIntensity: number;
+  recentChatSummary: string;
+  chatKeywords: string[];
+  // Direction of the last seven days of check-ins; null until there are three days to go on.
+  moodTrend: MoodTrend | null;
+  timeOfDay: TimeOfDay;
+  // What the user said they have time for; null when they didn't say.
+  availableMinutes: number | null;
+  // Tools used in the last day, moved down so the same one isn't suggested every time.
+  recentToolIds: string[];
+  safetyPlanSteps: string[];
+}
+
+export const analyzeChatSentiment = (chatText: string) => {
+  const signals = matchSignals(chatText);
+  const keywords = Array.from(new Set([...signals.crisis, ...signals.lowMood, ...signals.stress]));
+
+  return {
+    keywords,
+    hasCrisis: signals.crisis.length > 0,
+    hasLowMood: signals.lowMood.length > 0,
+    hasStress: signals.stress.length > 0,
+  };
+};
+
+export const getMoodIntensity = (mood: Mood | null): number => {
+  const intensityMap: Record<Mood, number> = {
+    anxious: 8,
+    frustrated: 7,
+    sad: 6,
+    neutral: 4,
+    calm: 3,
+    happy: 2,
+  };
+
+  return mood ? intensityMap[mood] : 5;
+};
+
+const normalizeText = (text: string) => text.trim().toLowerCase();
+
+// A step such as "Box breathing when panic starts" counts for the "Box Breathing" tool.
+const isInSafetyPlan = (tool: CopingTool, steps: string[]) => {
+  const title = normalizeText(tool.title);
+  return steps.some((step) => normalizeText(step).includes(title));
+};
+
+const scoreTool = (tool: CopingTool, context: RecommendationContext) => {
+  let score = 0;
+  if (context.currentMood && tool.supportedMoods.includes(context.currentMood)) {
+    score += 40;
+  } else if (context.currentMood) {
+    score += 20;
+  }
+
+  const sentiment = analyzeChatSentiment(context.recentChatSummary);
+  if (sentiment.hasCrisis) {
+    if (tool.category === "breathing" || tool.category === "grounding") score += 30;
+  } else if (sentiment.hasLowMood) {
+    if (tool.category === "reflection" || tool.category === "cognitive") score += 30;
+  } else if (sentiment.hasStress) {
+    if (tool.category === "movement" || tool.category === "grounding") score += 30;
+  }
+
+  if (context.moodIntensity >= 7) {
+    if (tool.intensityLevel === "high") score += 20;
+    if (tool.intensityLevel === "medium") score += 10;
+  } else if (context.moodIntensity >= 4) {
+    if (tool.intensityLevel === "medium") score += 20;
+    if (tool.intensityLevel === "low") score += 15;
+  } else {
+    if (tool.intensityLevel === "low") score += 20;
+    if (tool.intensityLevel === "medium") score += 10;
+  }
+
+  if (!context.currentMood || context.currentMood === "neutral") {
+    if (tool.durationMinutes <= 3) score += 10;
+    else if (tool.durationMinutes <= 5) score += 5;
+  }
+
+  if (context.moodTrend === "declining" && (tool.category === "reflection" || tool.category === "cognitive")) {
+    score += 10;
+  }
+
+  if (context.timeOfDay === "night") {
+    if (tool.intensityLevel === "low") score += 10;
+    if (tool.category === "movement") score -= 10;
+  } else if (context.timeOfDay === "morning" && tool.category === "movement") {
+    score += 10;
+  }
+
+  if (context.availableMinutes !== null) {
+    score += tool.durationMinutes <= context.availableMinutes ? 10 : -20;
+  }
+
+  if (context.recentToolIds.includes(tool.id)) score -= 15;
+  if (isInSafetyPlan(tool, context.safetyPlanSteps)) score += 15;
+
+  return Math.max(0, Math.min(score, 100));
+};
+
+// Longer explanations stop being read; the first reasons are the most personal.
+const MAX_REASONS = 3;
+
+const joinReasons = (reasons: string[]) =>
+  reasons.length > 1 ? `${reasons.slice(0, -1).join(", ")} and ${reasons[reasons.length - 1]}` : reasons[0];
+
+const generateExplanation = (tool: CopingTool, context: RecommendationContext) => {
+  const reasons: string[] = [];
+  const sentiment = analyzeChatSentiment(context.recentChatSummary);
+
+  if (isInSafetyPlan(tool, context.safetyPlanSteps)) {
+    reasons.push("it's one of the coping steps in your safety plan");
+  }
+
+  if (context.currentMood) {
+    reasons.push(
+      context.currentMoodSource === "chat"
+        ? `your recent messages sounded ${context.currentMood}`
+        : `you checked in feeling ${context.currentMood}`,
+    );
+  }
+
+  if (sentiment.hasCrisis && (tool.category === "breathing" || tool.category === "grounding")) {
+    reasons.push("you mentioned feeling overwhelmed");
+  } else if (sentiment.hasLowMood && (tool.category === "reflection" || tool.category === "cognitive")) {
+    reasons.push("you expressed feelings of sadness or hopelessness");
+  } else if (sentiment.hasStress && (tool.category === "movement" || tool.category === "grounding")) {
+    reasons.push("you mentioned feeling stressed or tense");
+  }
+
+  if (context.moodTrend === "declining" && (tool.category === "reflection" || tool.category === "cognitive")) {
+    reasons.push("your mood has been dipping over the past week");
+  }
+
+  if (context.moodIntensity >= 7 && tool.intensityLevel === "high") {
+    reasons.push("this offers quick relief");
+  }
+
+  if (context.timeOfDay === "night" && tool.intensityLevel === "low") {
+    reasons.push("it's gentle enough for late at night");
+  } else if (context.timeOfDay === "morning" && tool.category === "movement") {
+    reasons.push("moving a little in the morning can set up your day");
+  }
+
+  if (context.availableMinutes !== null && tool.durationMinutes <= context.availableMinutes) {
+    reasons.push(`it fits in the ${context.availableMinutes} minutes you have`);
+  }
+
+  if (reasons.length === 0) {
+    return `This ${tool.category} technique is gentle and effective.`;
+  }
+
+  return `This technique is suggested because ${joinReasons(reasons.slice(0, MAX_REASONS))}.`;
+};
+
+export const getRecommendedCopingTools = (tools: CopingTool[], context: RecommendationContext): RecommendedTool[] => {
+  const scored = tools.map((tool) => ({
+    ...tool,
+    score: scoreTool(tool, context),
+    reason: generateExplanation(tool, context),
+  }));
+
+  scored.sort((a, b) => b.score - a.score);
+  return scored;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_DAYS = 7;
+const MIN_TREND_DAYS = 3;
+// Points per day on the 1-5 scale below; about one point over a week.
+const TREND_THRESHOLD = 0.15;
+
+// The same 1-5 scale the analytics charts use.
+const MOOD_VALENCE: Record<Mood, number> = {
+  happy: 5,
+  calm: 4,
+  neutral: 3,
+  sad: 2,
+  anxious: 1,
+  frustrated: 1,
+};
+
+export interface RecommendationSignals {
+  // Entries without a source are taken as the user's own check-ins.
+  checkIns: Array<{ mood: Mood; createdAt: string; source?: "manual" | "chat" }>;
+  // Newest first, and only what the user wrote.
+  chatMessages?: Array<{ text: string }>;
+  sessions?: Array<{ toolId: string; createdAt: string }>;
+  safetyPlanSteps?: string[];
+  availableMinutes?: number | null;
+  // The user's IANA time zone; the device's when omitted.
+  timeZone?: string;
+  now?: Date;
+}
+
+// Days since the epoch for the calendar date the user saw on their own clock.
+const getLocalDayNumber = (date: Date, timeZone?: string) => {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", { year: "numeric", month: "numeric", day: "numeric", timeZone }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((item) => item.type === type)?.value);
+    return Date.UTC(part("year"), part("month") - 1, part("day")) / DAY_MS;
+  } catch {
+    // An unknown time zone name; the device clock is the best guess left.
+    return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS;
+  }
+};
+
+/** Least-squares slope of the daily average mood across the last week, by the user's local days. */
+const getMoodTrend = (checkIns: RecommendationSignals["checkIns"], now: Date, timeZone?: string): MoodTrend | null => {
+  const since = now.getTime() - TREND_DAYS * DAY_MS;
+  const byDay = new Map<number, number[]>();
+  checkIns.forEach((item) => {
+    const date = new Date(item.createdAt);
+    const time = date.getTime();
+    if (time < since || time > now.getTime()) return;
+    const day = getLocalDayNumber(date, timeZone);
+    byDay.set(day, [...(byDay.get(day) ?? []), MOOD_VALENCE[item.mood]]);
+  });
+  if (byDay.size < MIN_TREND_DAYS) return null;
+
+  const points = Array.from(byDay.entries()).map(([day, scores]) => ({
+    x: day,
+    y: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+  }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const numerator = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0);
+  const denominator = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  const slope = denominator ? numerator / denominator : 0;
+
+  if (slope <= -TREND_THRESHOLD) return "declining";
+  if (slope >= TREND_THRESHOLD) return "improving";
+  return "steady";
+};
+
+const getTimeOfDay = (now: Date, timeZone?: string): TimeOfDay => {
+  let hour: number;
+  try {
+    hour = Number(new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone }).format(now));
+  } catch {
+    // An unknown time zone name; the device clock is the best guess left.
+    hour = now.getHours();
+  }
+  if (hour >= 22 || hour < 5) return "night";
+  if (hour < 12) return "morning";
+  if (hour < 17) return "afternoon";
+  return "evening";
+};
+
+/**
+ * Builds the context the engine scores against. The server and the apps
+ * (offline) call it with whatever they hold: the latest check-in from the
+ * last 24 hours is the current mood, a week of check-ins gives the trend,
+ * the last five messages the chat signals and the last day's sessions the
+ * tools to rest for now.
+ */
+export const buildRecommendationContext = ({
+  checkIns,
+  chatMessages = [],
+  sessions = [],
+  safetyPlanSteps = [],
+  availableMinutes = null,
+  timeZone,
+  now = new Date(),
+}: RecommendationSignals): RecommendationContext => {
+  const recentSince = new Date(now.getTime() - DAY_MS).toISOString();
+  // As with a day's mood on the server, chat inference never overrides what the user checked in.
+  const latestFirst = checkIns
+    .filter((item) => item.createdAt >= recentSince)
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+  const latest = latestFirst.find((item) => item.source !== "chat") ?? latestFirst[0];
+  const currentMood = latest?.mood ?? null;
+  const recentChatSummary = chatMessages
+    .slice(0, 5)
+    .map((message) => message.text)
+    .join(" ");
+
+  return {
+    currentMood,
+    currentMoodSource: latest ? (latest.source === "chat" ? "chat" : "manual") : null,
+    moodIntensity: getMoodIntensity(currentMood),
+    recentChatSummary,
+    chatKeywords: analyzeChatSentiment(recentChatSummary).keywords,
+    moodTrend: getMoodTrend(checkIns, now, timeZone),
+    timeOfDay: getTimeOfDay(now, timeZone),
+    availableMinutes,
+    recentToolIds: Array.from(new Set(sessions.filter((session) => session.createdAt >= recentSince).map((session) => session.toolId))),
+    safetyPlanSteps: safetyPlanSteps.filter((step) => step.trim()),
+  };
+};
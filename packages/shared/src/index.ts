@@ -0,0 +1,6 @@
+// Code shared by the backend, the web app and the mobile app. Keep it free of
+// platform dependencies: no Node, DOM or React Native APIs.
+export * from "./coping/index.js";
+export * from "./lexicon/index.js";
+export { MOODS } from "./types.js";
+export type { EmotionLabel, Mood } from "./types.js";
@@ -0,0 +1,144 @@
+import type { EmotionLabel } from "../types.js";
+import { en } from "./languages/en.js";
+import { hi } from "./languages/hi.js";
+import { hiLatn } from "./languages/hi-Latn.js";
+import type { Lexicon, SignalCategory } from "./types.js";
+
+export type { Lexicon, SignalCategory } from "./types.js";
+
+// To support a new language, add a file under ./languages and list it here.
+const LEXICONS: Lexicon[] = [en, hiLatn, hi];
+
+const EMOTION_LABELS: EmotionLabel[] = ["happy", "calm", "neutral", "sad", "anxious", "frustrated"];
+const POSITIVE_EMOTIONS: EmotionLabel[] = ["happy", "calm", "neutral"];
+
+interface PhraseEntry<K> {
+  key: K;
+  phrase: string;
+  tokens: string[];
+  lexicon: Lexicon;
+}
+
+interface PhraseMatch<K> {
+  key: K;
+  phrase: string;
+  language: string;
+  negated: boolean;
+  weight: number;
+}
+
+export const tokenize = (text: string) =>
+  text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/['’`]/g, "")
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+
+const lexiconsFor = (text: string) => {
+  const hasDevanagari = /[\u0900-\u097F]/.test(text);
+  const hasLatin = /[a-z]/i.test(text);
+  return LEXICONS.filter((lexicon) => (lexicon.script === "devanagari" ? hasDevanagari : hasLatin));
+};
+
+const buildEntries = <K>(lexicons: Lexicon[], pick: (lexicon: Lexicon) => Array<{ key: K; phrase: string }>) =>
+  lexicons.flatMap((lexicon) =>
+    pick(lexicon).map(({ key, phrase }) => ({ key, phrase, tokens: tokenize(phrase), lexicon }) as PhraseEntry<K>),
+  );
+
+const isNegated = (tokens: string[], start: number, end: number, lexicons: Lexicon[]) =>
+  lexicons.some(({ negation }) =>
+    tokens.some((token, index) => {
+      if (!negation.words.includes(token)) return false;
+      if (index < start) return start - index <= negation.forward;
+      if (index > end) return index - end <= negation.backward;
+      return false;
+    }),
+  );
+
+const intensityAt = (tokens: string[], start: number, lexicons: Lexicon[]) => {
+  for (let index = start - 1; index >= Math.max(0, start - 2); index -= 1) {
+    for (const lexicon of lexicons) {
+      const factor = lexicon.intensifiers[tokens[index]];
+      if (factor) return factor;
+    }
+  }
+  return 1;
+};
+
+const matchClause = <K>(clause: string, entries: PhraseEntry<K>[], lexicons: Lexicon[]) => {
+  const tokens = tokenize(clause);
+  const claimed = new Array<boolean>(tokens.length).fill(false);
+  const matches: PhraseMatch<K>[] = [];
+
+  entries.forEach((entry) => {
+    const size = entry.tokens.length;
+    for (let start = 0; start + size <= tokens.length; start += 1) {
+      const end = start + size - 1;
+      const hit = entry.tokens.every((token, offset) => tokens[start + offset] === token);
+      if (!hit || claimed.slice(start, end + 1).some(Boolean)) continue;
+      claimed.fill(true, start, end + 1);
+      matches.push({
+        key: entry.key,
+        phrase: entry.phrase,
+        language: entry.lexicon.language,
+        negated: isNegated(tokens, start, end, lexicons),
+        weight: intensityAt(tokens, start, lexicons),
+      });
+    }
+  });
+
+  return matches;
+};
+
+/**
+ * Finds phrase occurrences on token boundaries, clause by clause so negation
+ * does not leak across punctuation ("happy, not sad"). Longer phrases win over
+ * the shorter ones they contain, so "thik thak" is not also counted as "thik".
+ */
+const findMatches = <K>(text: string, pick: (lexicon: Lexicon) => Array<{ key: K; phrase: string }>) => {
+  const lexicons = lexiconsFor(text);
+  const entries = buildEntries(lexicons, pick).sort((a, b) => b.tokens.length - a.tokens.length);
+  return text.split(/[,.;:!?।\n]+/).flatMap((clause) => matchClause(clause, entries, lexicons));
+};
+
+const languagesOf = (matches: Array<{ language: string }>) => Array.from(new Set(matches.map((match) => match.language)));
+
+/**
+ * Weighted emotion scores. A negated positive or neutral phrase ("not okay",
+ * "theek nahi") counts towards sad; a negated negative phrase ("not sad") is ignored.
+ */
+export const scoreEmotions = (text: string) => {
+  const matches = findMatches(text, (lexicon) =>
+    EMOTION_LABELS.flatMap((label) => lexicon.emotions[label].map((phrase) => ({ key: label, phrase }))),
+  );
+
+  const scores = Object.fromEntries(EMOTION_LABELS.map((label) => [label, 0])) as Record<EmotionLabel, number>;
+  matches.forEach((match) => {
+    if (!match.negated) {
+      scores[match.key] += match.weight;
+    } else if (POSITIVE_EMOTIONS.includes(match.key)) {
+      scores.sad += match.weight;
+    }
+  });
+
+  return { scores, languages: languagesOf(matches) };
+};
+
+export const matchCrisisPhrases = (text: string) => {
+  const matches = findMatches(text, (lexicon) => lexicon.crisis.map((phrase) => ({ key: "crisis" as const, phrase })));
+  return { phrases: matches.map((match) => match.phrase), languages: languagesOf(matches) };
+};
+
+export const matchSignals = (text: string) => {
+  const categories: SignalCategory[] = ["crisis", "lowMood", "stress"];
+  const matches = findMatches(text, (lexicon) =>
+    categories.flatMap((category) => lexicon.signals[category].map((phrase) => ({ key: category, phrase }))),
+  ).filter((match) => !match.negated);
+
+  const byCategory = Object.fromEntries(
+    categories.map((category) => [category, matches.filter((match) => match.key === category).map((match) => match.phrase)]),
+  ) as Record<SignalCategory, string[]>;
+
+  return { ...byCategory, languages: languagesOf(matches) };
+};
@@ -0,0 +1,62 @@
+import type { Lexicon } from "../types.js";
+
+export const en: Lexicon = {
+  language: "en",
+  script: "latin",
+  crisis: [
+    "suicide",
+    "suicidal",
+    "kill myself",
+    "end it all",
+    "end my life",
+    "self harm",
+    "hurt myself",
+    "cut myself",
+    "dont want to live",
+    "i want to die",
+    "better off dead",
+    "no reason to live",
+  ],
+  emotions: {
+    happy: ["happy", "grateful", "excited", "joy", "glad", "great", "good"],
+    calm: ["calm", "relaxed", "steady", "peace", "peaceful", "rested"],
+    neutral: ["okay", "ok", "fine", "neutral", "alright"],
+    sad: ["sad", "down", "hopeless", "empty", "cry", "cried", "crying", "lonely", "miserable", "depressed"],
+    anxious: ["anxious", "panic", "worried", "overwhelmed", "scared", "nervous", "afraid"],
+    frustrated: ["frustrated", "angry", "irritated", "stuck", "tense", "annoyed", "furious"],
+  },
+  signals: {
+    crisis: [
+      "panic",
+      "overwhelmed",
+      "heart racing",
+      "cant breathe",
+      "scared",
+      "terrified",
+      "anxiety attack",
+      "out of control",
+      "dizzy",
+      "shaking",
+    ],
+    lowMood: ["tired", "hopeless", "alone", "sad", "depressed", "empty", "worthless", "numb", "crying", "heavy", "dark"],
+    stress: ["stressed", "overloaded", "too much", "pressure", "deadline", "exhausted", "tense", "tight", "sore", "headache"],
+  },
+  negation: {
+    words: ["not", "no", "never", "dont", "doesnt", "didnt", "isnt", "arent", "wasnt", "werent", "hardly", "without"],
+    forward: 2,
+    backward: 0,
+  },
+  intensifiers: {
+    very: 1.5,
+    so: 1.5,
+    really: 1.5,
+    extremely: 2,
+    super: 1.5,
+    totally: 1.5,
+    too: 1.3,
+    slightly: 0.5,
+    little: 0.6,
+    bit: 0.6,
+    somewhat: 0.7,
+  },
+};
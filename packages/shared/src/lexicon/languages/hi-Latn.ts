@@ -0,0 +1,57 @@
+import type { Lexicon } from "../types.js";
+
+// Romanized Hindi as typed in chat, including common Hinglish spellings.
+export const hiLatn: Lexicon = {
+  language: "hi-Latn",
+  script: "latin",
+  crisis: [
+    "aatmahatya",
+    "atmahatya",
+    "khudkushi",
+    "khud ko maar",
+    "khud ko nuksan",
+    "marna chahta",
+    "marna chahti",
+    "mar jana chahta",
+    "mar jana chahti",
+    "mar jaana chahta",
+    "mar jaana chahti",
+    "jeena nahi chahta",
+    "jeena nahi chahti",
+    "jina nahi chahta",
+    "jina nahi chahti",
+    "jeene ka mann nahi",
+    "sab khatam kar",
+    "zindagi khatam",
+  ],
+  emotions: {
+    happy: ["khush", "khushi", "mast", "accha lag", "acha lag", "maza"],
+    calm: ["shaant", "shant", "sukoon", "sukun", "aaram"],
+    neutral: ["theek", "thik", "thik thak", "chal raha"],
+    sad: ["udaas", "udas", "dukhi", "dukh", "rona", "ro raha", "ro rahi", "akela", "akeli", "bura lag", "mann nahi"],
+    anxious: ["ghabrahat", "ghabra", "ghabraya", "ghabrayi", "darr", "dar lag", "tension", "chinta", "pareshan"],
+    frustrated: ["gussa", "chidchida", "chidchidi", "tang aa", "pak gaya", "pak gayi"],
+  },
+  signals: {
+    crisis: ["ghabrahat", "saans nahi", "dil tez", "haath kaamp", "bahut darr"],
+    lowMood: ["udaas", "udas", "akela", "akeli", "thaka", "thaki", "khali", "bekaar", "nirasha"],
+    stress: ["tension", "pressure", "dabav", "bojh", "thakan", "sar dard", "deadline"],
+  },
+  negation: {
+    words: ["nahi", "nahin", "nhi", "na", "mat"],
+    forward: 2,
+    backward: 2,
+  },
+  intensifiers: {
+    bahut: 1.5,
+    bohot: 1.5,
+    bohut: 1.5,
+    bht: 1.5,
+    zyada: 1.5,
+    jyada: 1.5,
+    ekdum: 1.8,
+    thoda: 0.6,
+    thodi: 0.6,
+    halka: 0.6,
+  },
+};
@@ -0,0 +1,50 @@
+import type { Lexicon } from "../types.js";
+
+export const hi: Lexicon = {
+  language: "hi",
+  script: "devanagari",
+  crisis: [
+    "आत्महत्या",
+    "ख़ुदकुशी",
+    "खुदकुशी",
+    "खुद को मार",
+    "ख़ुद को मार",
+    "खुद को नुकसान",
+    "मरना चाहता",
+    "मरना चाहती",
+    "मर जाना चाहता",
+    "मर जाना चाहती",
+    "जीना नहीं चाहता",
+    "जीना नहीं चाहती",
+    "जीने का मन नहीं",
+    "सब खत्म कर",
+    "ज़िंदगी खत्म",
+    "जिंदगी खत्म",
+  ],
+  emotions: {
+    happy: ["खुश", "ख़ुश", "खुशी", "अच्छा लग", "मज़ा"],
+    calm: ["शांत", "सुकून", "आराम"],
+    neutral: ["ठीक", "ठीक ठाक"],
+    sad: ["उदास", "दुखी", "दुख", "रोना", "रो रहा", "रो रही", "अकेला", "अकेली", "बुरा लग", "मन नहीं"],
+    anxious: ["घबराहट", "घबरा", "घबराया", "घबराई", "डर", "चिंता", "परेशान", "टेंशन"],
+    frustrated: ["गुस्सा", "ग़ुस्सा", "चिड़चिड़ा", "चिड़चिड़ी", "तंग आ"],
+  },
+  signals: {
+    crisis: ["घबराहट", "सांस नहीं", "दिल तेज़", "हाथ कांप"],
+    lowMood: ["उदास", "अकेला", "अकेली", "थका", "थकी", "खाली", "बेकार", "निराशा"],
+    stress: ["तनाव", "टेंशन", "दबाव", "बोझ", "थकान", "सिर दर्द"],
+  },
+  negation: {
+    words: ["नहीं", "नही", "न", "मत"],
+    forward: 2,
+    backward: 2,
+  },
+  intensifiers: {
+    बहुत: 1.5,
+    ज़्यादा: 1.5,
+    ज्यादा: 1.5,
+    एकदम: 1.8,
+    थोड़ा: 0.6,
+    थोड़ी: 0.6,
+  },
+};
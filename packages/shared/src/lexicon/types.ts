@@ -0,0 +1,23 @@
+import type { EmotionLabel } from "../types.js";
+
+export type SignalCategory = "crisis" | "lowMood" | "stress";
+
+export interface Lexicon {
+  /** BCP 47 tag, e.g. "en", "hi" (Devanagari) or "hi-Latn" (romanized Hindi/Hinglish). */
+  language: string;
+  script: "latin" | "devanagari";
+  /** Self-harm phrases. Matched regardless of negation so a hedged disclosure is never dropped. */
+  crisis: string[];
+  emotions: Record<EmotionLabel, string[]>;
+  /** Phrases the coping recommender groups into crisis, low-mood and stress signals. */
+  signals: Record<SignalCategory, string[]>;
+  negation: {
+    words: string[];
+    /** How many tokens after the negation word a phrase may start and still be negated ("not okay"). */
+    forward: number;
+    /** How many tokens before the negation word a phrase may end and still be negated ("theek nahi"). */
+    backward: number;
+  };
+  /** Multipliers applied when the word sits just before a phrase: >1 intensifies, <1 softens. */
+  intensifiers: Record<string, number>;
+}
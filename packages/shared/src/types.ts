@@ -0,0 +1,5 @@
+export const MOODS = ["happy", "calm", "neutral", "sad", "anxious", "frustrated"] as const;
+export type Mood = (typeof MOODS)[number];
+
+// The emotion engine labels text with the same six moods a check-in can have.
+export type EmotionLabel = Mood;
@@ -17,6 +17,7 @@ import Journal from "./pages/Journal";
 import Settings from "./pages/Settings";
 import SafetyPlan from "./pages/SafetyPlan";
 import ChatHistory from "./pages/ChatHistory";
+import Search from "./pages/Search";
 import { useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUser } from "@/contexts/UserContext";
@@ -69,6 +70,7 @@ const App = () => {
               />
               <Route path="/chat" element={<Chat />} />
               <Route path="/chat/history" element={<ChatHistory />} />
+              <Route path="/search" element={<Search />} />
               <Route path="/analytics" element={<Analytics />} />
               <Route path="/coping" element={<CopingTools />} />
               <Route path="/community" element={<Community />} />
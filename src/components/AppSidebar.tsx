@@ -2,6 +2,7 @@ import {
   LayoutDashboard,
   MessageCircleHeart,
   History,
+  Search,
   BarChart3,
   Heart,
   Users,
@@ -28,6 +29,7 @@ const navItems = [
   { title: "Home", url: "/dashboard", icon: LayoutDashboard },
   { title: "Talk to Sahaay", url: "/chat", icon: MessageCircleHeart },
   { title: "Chat History", url: "/chat/history", icon: History },
+  { title: "Search", url: "/search", icon: Search },
   { title: "Your Mood Journey", url: "/analytics", icon: BarChart3 },
   { title: "Ways to Feel Better", url: "/coping", icon: Heart },
   { title: "Community", url: "/community", icon: Users },
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ClipboardList } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import CrisisProtocolCard from "@/components/CrisisProtocolCard";
+import { apiFetch } from "@/lib/api";
+import type { AssessmentRecord, AssessmentSummary, AssessmentType, CrisisEvent, Questionnaire } from "@/types";
+
+interface SubmitResult {
+  assessment: AssessmentRecord;
+  message: string;
+  crisisEvent: CrisisEvent | null;
+  nextDueAt: string;
+}
+
+const trendText: Record<NonNullable<AssessmentSummary["trend"]>, string> = {
+  improving: "Lower than last time",
+  worsening: "Higher than last time",
+  steady: "About the same as last time",
+};
+
+const lineColors: Record<AssessmentType, string> = {
+  phq9: "hsl(var(--primary))",
+  gad7: "hsl(var(--peach-foreground))",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const AssessmentsPanel = () => {
+  const [questionnaires, setQuestionnaires] = useState<Questionnaire[]>([]);
+  const [history, setHistory] = useState<AssessmentRecord[]>([]);
+  const [summary, setSummary] = useState<Partial<Record<AssessmentType, AssessmentSummary>>>({});
+  const [active, setActive] = useState<Questionnaire | null>(null);
+  const [answers, setAnswers] = useState<Array<number | null>>([]);
+  const [result, setResult] = useState<SubmitResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const refresh = useCallback(() => {
+    apiFetch<{ assessments: AssessmentRecord[]; summary: Record<AssessmentType, AssessmentSummary> }>("/api/assessments")
+      .then((data) => {
+        setHistory(data.assessments);
+        setSummary(data.summary);
+      })
+      .catch(() => null);
+  }, []);
+
+  useEffect(() => {
+    apiFetch<{ questionnaires: Questionnaire[] }>("/api/assessments/questionnaires")
+      .then((data) => setQuestionnaires(data.questionnaires))
+      .catch(() => setQuestionnaires([]));
+    refresh();
+  }, [refresh]);
+
+  // One point per date; PHQ-9 and GAD-7 share the axis since they are usually taken together.
+  const chartData = useMemo(() => {
+    const points = new Map<string, { date: string } & Partial<Record<AssessmentType, number>>>();
+    history
+      .slice()
+      .reverse()
+      .forEach((record) => {
+        const date = formatDate(record.createdAt);
+        points.set(date, { ...points.get(date), date, [record.type]: record.score });
+      });
+    return Array.from(points.values());
+  }, [history]);
+
+  const start = (questionnaire: Questionnaire) => {
+    setActive(questionnaire);
+    setAnswers(questionnaire.items.map(() => null));
+    setResult(null);
+  };
+
+  const close = () => {
+    setActive(null);
+    setResult(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!active || answers.some((answer) => answer === null)) return;
+    setSubmitting(true);
+    try {
+      const data = await apiFetch<SubmitResult>("/api/assessments", {
+        method: "POST",
+        body: JSON.stringify({ type: active.type, answers }),
+      });
+      setResult(data);
+      refresh();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resolveCrisis = async () => {
+    if (!result?.crisisEvent) return;
+    await apiFetch(`/api/crisis/${result.crisisEvent.id}/resolve`, { method: "POST", body: JSON.stringify({}) });
+    setResult({ ...result, crisisEvent: null });
+  };
+
+  return (
+    <section>
+      <h2 className="mb-4 font-display text-lg font-semibold text-foreground">Self-assessments</h2>
+      <Card className="card-elevated rounded-2xl">
+        <CardContent className="space-y-6 p-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            {questionnaires.map((questionnaire) => {
+              const item = summary[questionnaire.type];
+              const due = !item?.nextDueAt || new Date(item.nextDueAt) <= new Date();
+              return (
+                <div key={questionnaire.type} className="flex flex-col gap-3 rounded-2xl border border-border bg-surface p-4">
+                  <div className="flex items-center gap-2">
+                    <ClipboardList className="h-4 w-4 text-primary" />
+                    <p className="text-sm font-semibold text-foreground">{questionnaire.title}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{questionnaire.description}</p>
+                  {item?.latest ? (
+                    <div className="text-sm text-foreground">
+                      <p>
+                        Last score {item.latest.score}/{item.latest.maxScore} · {item.latest.severityLabel}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(item.latest.createdAt)}
+                        {item.trend ? ` · ${trendText[item.trend]}` : ""}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Not taken yet.</p>
+                  )}
+                  <Button size="sm" variant={due ? "default" : "outline"} onClick={() => start(questionnaire)}>
+                    {item?.latest ? (due ? "Retake now" : `Next due ${formatDate(item.nextDueAt as string)}`) : "Take it"}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {chartData.length > 1 && (
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} stroke="hsl(var(--text-muted))" />
+                <YAxis domain={[0, 27]} tick={{ fontSize: 12 }} stroke="hsl(var(--text-muted))" />
+                <Tooltip contentStyle={{ borderRadius: 12, border: "none", boxShadow: "0 4px 12px rgba(0,0,0,0.08)" }} />
+                <Legend />
+                {questionnaires.map((questionnaire) => (
+                  <Line
+                    key={questionnaire.type}
+                    type="monotone"
+                    dataKey={questionnaire.type}
+                    name={questionnaire.title}
+                    stroke={lineColors[questionnaire.type]}
+                    strokeWidth={3}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            These are screening questionnaires, not a diagnosis. Lower scores mean fewer symptoms.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(active)} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto rounded-3xl sm:max-w-xl">
+          {active && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-display text-xl text-foreground">{active.title}</DialogTitle>
+                <DialogDescription>{active.prompt}</DialogDescription>
+              </DialogHeader>
+
+              {result ? (
+                <div className="space-y-4 text-sm">
+                  <p className="font-display text-2xl font-bold text-foreground">
+                    {result.assessment.score}/{result.assessment.maxScore} · {result.assessment.severityLabel}
+                  </p>
+                  <p className="text-muted-foreground">{result.message}</p>
+                  {result.crisisEvent && <CrisisProtocolCard event={result.crisisEvent} onResolve={resolveCrisis} />}
+                  <p className="text-xs text-muted-foreground">
+                    We'll remind you to check again around {formatDate(result.nextDueAt)}.
+                  </p>
+                  <Button onClick={close}>Done</Button>
+                </div>
+              ) : (
+                <div className="space-y-5">
+                  {active.items.map((item, index) => (
+                    <div key={item.id} className="space-y-2">
+                      <p className="text-sm font-medium text-foreground">
+                        {index + 1}. {item.text}
+                      </p>
+                      <RadioGroup
+                        value={answers[index] === null ? "" : String(answers[index])}
+                        onValueChange={(value) =>
+                          setAnswers((prev) => prev.map((answer, i) => (i === index ? Number(value) : answer)))
+                        }
+                        className="grid grid-cols-2 gap-2"
+                      >
+                        {active.options.map((option) => (
+                          <label
+                            key={option.value}
+                            className="flex cursor-pointer items-center gap-2 rounded-xl border border-border px-3 py-2 text-xs"
+                          >
+                            <RadioGroupItem value={String(option.value)} />
+                            {option.label}
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </div>
+                  ))}
+                  <Button onClick={handleSubmit} disabled={submitting || answers.some((answer) => answer === null)}>
+                    {submitting ? "Scoring..." : "See my result"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default AssessmentsPanel;
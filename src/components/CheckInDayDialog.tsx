@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { useUser } from "@/contexts/UserContext";
+import type { CheckIn, CheckInChanges, Mood } from "@/types";
+
+const moodOptions: Array<{ value: Mood; emoji: string; label: string }> = [
+  { value: "happy", emoji: "😊", label: "Happy" },
+  { value: "calm", emoji: "😌", label: "Calm" },
+  { value: "neutral", emoji: "😐", label: "Neutral" },
+  { value: "sad", emoji: "😔", label: "Sad" },
+  { value: "anxious", emoji: "😰", label: "Anxious" },
+  { value: "frustrated", emoji: "😤", label: "Frustrated" },
+];
+
+const splitTags = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+interface EntryEditorProps {
+  entry: CheckIn;
+  onCancel: () => void;
+  onSave: (changes: CheckInChanges) => Promise<void>;
+}
+
+const EntryEditor = ({ entry, onCancel, onSave }: EntryEditorProps) => {
+  const [mood, setMood] = useState<Mood>(entry.mood);
+  const [note, setNote] = useState(entry.note ?? "");
+  const [intensity, setIntensity] = useState(entry.intensity ?? 5);
+  const [energy, setEnergy] = useState(entry.energy ?? 5);
+  const [sleepHours, setSleepHours] = useState(entry.sleepHours === null || entry.sleepHours === undefined ? "" : String(entry.sleepHours));
+  const [activities, setActivities] = useState((entry.activities ?? []).join(", "));
+  const [people, setPeople] = useState((entry.people ?? []).join(", "));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const next: CheckInChanges = {
+      mood,
+      note,
+      intensity,
+      energy,
+      sleepHours: sleepHours === "" ? null : Number(sleepHours),
+      activities: splitTags(activities),
+      people: splitTags(people),
+    };
+    const initial: CheckInChanges = {
+      mood: entry.mood,
+      note: entry.note ?? "",
+      intensity: entry.intensity ?? 5,
+      energy: entry.energy ?? 5,
+      sleepHours: entry.sleepHours ?? null,
+      activities: entry.activities ?? [],
+      people: entry.people ?? [],
+    };
+    // Only send what was actually touched, so the history records real corrections.
+    const changes = Object.fromEntries(
+      Object.entries(next).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(initial[key as keyof CheckInChanges])),
+    ) as CheckInChanges;
+    if (!Object.keys(changes).length) {
+      onCancel();
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(changes);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary/30 bg-surface p-3">
+      <div className="flex flex-wrap gap-2">
+        {moodOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setMood(option.value)}
+            aria-label={`Select mood: ${option.label}`}
+            className={`rounded-xl border px-2 py-1 text-lg ${mood === option.value ? "border-primary ring-2 ring-primary/40" : "border-border"}`}
+          >
+            {option.emoji}
+          </button>
+        ))}
+      </div>
+      <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note" className="min-h-[70px] bg-card" />
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">Intensity {intensity}/10</label>
+          <Slider min={1} max={10} step={1} value={[intensity]} onValueChange={([value]) => setIntensity(value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs text-muted-foreground">Energy {energy}/10</label>
+          <Slider min={1} max={10} step={1} value={[energy]} onValueChange={([value]) => setEnergy(value)} />
+        </div>
+        <Input
+          type="number"
+          min={0}
+          max={24}
+          step={0.5}
+          value={sleepHours}
+          onChange={(e) => setSleepHours(e.target.value)}
+          placeholder="Hours slept"
+          className="bg-card"
+        />
+        <Input value={activities} onChange={(e) => setActivities(e.target.value)} placeholder="Activities" className="bg-card" />
+        <Input value={people} onChange={(e) => setPeople(e.target.value)} placeholder="People" className="bg-card sm:col-span-2" />
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface CheckInDayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  entries: CheckIn[];
+}
+
+/**
+ * Lists one day's check-ins and lets the user correct or remove them.
+ * Chat-derived entries can be corrected too; changing their mood makes
+ * them count as a manual check-in.
+ */
+const CheckInDayDialog = ({ open, onOpenChange, title, entries }: CheckInDayDialogProps) => {
+  const { updateCheckIn, deleteCheckIn } = useUser();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const sorted = entries.slice().sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditingId(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-h-[85vh] overflow-y-auto rounded-3xl sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-foreground">{title}</DialogTitle>
+          <DialogDescription>Fix a mood you logged by mistake, or remove it.</DialogDescription>
+        </DialogHeader>
+
+        {sorted.length === 0 && <p className="text-sm text-muted-foreground">No check-ins on this day.</p>}
+
+        <div className="space-y-3">
+          {sorted.map((entry) => {
+            const option = moodOptions.find((item) => item.value === entry.mood);
+            if (editingId === entry.id) {
+              return (
+                <EntryEditor
+                  key={entry.id}
+                  entry={entry}
+                  onCancel={() => setEditingId(null)}
+                  onSave={async (changes) => {
+                    await updateCheckIn(entry, changes);
+                    setEditingId(null);
+                  }}
+                />
+              );
+            }
+            return (
+              <div key={entry.id} className="flex items-start gap-3 rounded-2xl border border-border bg-surface px-3 py-2 text-sm">
+                <span className="text-xl">{option?.emoji ?? "🙂"}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-foreground">{option?.label ?? entry.mood}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                    </span>
+                    {entry.source === "chat" && <span className="text-[10px] uppercase text-muted-foreground">from chat</span>}
+                    {(entry.history?.length ?? 0) > 0 && <span className="text-[10px] uppercase text-muted-foreground">edited</span>}
+                    {entry.pending && <span className="text-[10px] uppercase text-muted-foreground">waiting to sync</span>}
+                  </div>
+                  {entry.note && <p className="mt-1 truncate text-xs text-muted-foreground">{entry.note}</p>}
+                </div>
+                <Button size="icon" variant="ghost" aria-label="Edit check-in" onClick={() => setEditingId(entry.id)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" aria-label="Delete check-in" onClick={() => deleteCheckIn(entry)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckInDayDialog;
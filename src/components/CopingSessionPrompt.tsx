@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiFetch } from "@/lib/api";
+
+export interface FinishedCopingSession {
+  toolId: string;
+  title: string;
+  startedAt: string;
+  endedAt: string;
+  // Set when a guided exercise ran to its last step.
+  completed?: boolean;
+}
+
+interface CopingSessionPromptProps {
+  session: FinishedCopingSession | null;
+  onDone: () => void;
+}
+
+const RatingRow = ({ label, value, onChange }: { label: string; value: number | null; onChange: (value: number | null) => void }) => (
+  <div className="space-y-2">
+    <p className="text-sm text-foreground">{label}</p>
+    <div className="flex flex-wrap gap-1.5">
+      {Array.from({ length: 10 }, (_, index) => index + 1).map((rating) => (
+        <button
+          key={rating}
+          type="button"
+          aria-label={`${label} ${rating} out of 10`}
+          onClick={() => onChange(value === rating ? null : rating)}
+          className={`h-8 w-8 rounded-lg border text-xs ${
+            value === rating ? "border-primary bg-primary/10 text-foreground" : "border-border bg-surface text-muted-foreground"
+          }`}
+        >
+          {rating}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+/**
+ * Asks how an exercise went once its dialog closes. Both ratings are
+ * optional; skipping still records that the tool was used.
+ */
+const CopingSessionPrompt = ({ session, onDone }: CopingSessionPromptProps) => {
+  const [preMood, setPreMood] = useState<number | null>(null);
+  const [postMood, setPostMood] = useState<number | null>(null);
+  const [completed, setCompleted] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setPreMood(null);
+    setPostMood(null);
+    setCompleted(session?.completed ?? true);
+  }, [session]);
+
+  const save = async (withRatings: boolean) => {
+    if (!session) return;
+    setSaving(true);
+    const durationSeconds = Math.max(0, (new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime()) / 1000);
+    await apiFetch("/api/coping/sessions", {
+      method: "POST",
+      body: JSON.stringify({
+        toolId: session.toolId,
+        durationSeconds: Math.min(durationSeconds, 7200),
+        completed,
+        startedAt: session.startedAt,
+        ...(withRatings ? { preMood, postMood } : {}),
+      }),
+    }).catch(() => null);
+    setSaving(false);
+    onDone();
+  };
+
+  return (
+    <Dialog open={Boolean(session)} onOpenChange={(open) => !open && save(false)}>
+      <DialogContent className="rounded-3xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-foreground">How did that feel?</DialogTitle>
+          <DialogDescription>
+            Rating {session?.title ?? "this exercise"} helps us suggest what works for you. Both are optional.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RatingRow label="Before, I felt" value={preMood} onChange={setPreMood} />
+          <RatingRow label="Now I feel" value={postMood} onChange={setPostMood} />
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <Checkbox checked={completed} onCheckedChange={(checked) => setCompleted(checked === true)} />
+            I finished the exercise
+          </label>
+          <div className="flex gap-2">
+            <Button onClick={() => save(true)} disabled={saving}>
+              Save
+            </Button>
+            <Button variant="ghost" onClick={() => save(false)} disabled={saving}>
+              Skip
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CopingSessionPrompt;
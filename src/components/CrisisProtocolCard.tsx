@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { HeartHandshake, Phone, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CrisisEvent } from "@/types";
+
+interface CrisisProtocolCardProps {
+  event: CrisisEvent;
+  onResolve: () => Promise<void>;
+}
+
+const CrisisProtocolCard = ({ event, onResolve }: CrisisProtocolCardProps) => {
+  const [resolving, setResolving] = useState(false);
+  const { helplines, copingSteps, contacts } = event.protocol;
+  const alerted = event.contactAlerts.filter((alert) => alert.status === "sent");
+
+  const handleResolve = async () => {
+    setResolving(true);
+    try {
+      await onResolve();
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 max-h-[40vh] space-y-4 overflow-y-auto rounded-2xl border border-peach bg-peach/20 p-5 text-sm text-foreground animate-fade-in">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="mt-0.5 h-5 w-5 shrink-0 text-peach-foreground" />
+        <div>
+          <p className="font-semibold">You don't have to go through this alone.</p>
+          <p className="text-muted-foreground">Let's take this one step at a time. Start with whichever feels possible.</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">1. Talk to someone now</p>
+        <div className="flex flex-wrap gap-2">
+          {helplines.map((line) => (
+            <a
+              key={line.name}
+              href={`tel:${line.number}`}
+              className="inline-flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-primary"
+            >
+              <Phone className="h-3.5 w-3.5" />
+              {line.name}: {line.number}
+            </a>
+          ))}
+        </div>
+      </div>
+
+      {copingSteps.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">2. Steps from your safety plan</p>
+          <ol className="list-decimal space-y-1 pl-5">
+            {copingSteps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {contacts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            {copingSteps.length > 0 ? "3." : "2."} Reach out to someone you trust
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {contacts.map((contact) =>
+              contact.phone ? (
+                <a
+                  key={contact.id}
+                  href={`tel:${contact.phone}`}
+                  className="inline-flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-primary"
+                >
+                  <HeartHandshake className="h-3.5 w-3.5" />
+                  {contact.name}
+                  {contact.relation ? ` (${contact.relation})` : ""}
+                </a>
+              ) : (
+                <span key={contact.id} className="rounded-full border border-border bg-card px-3 py-1.5">
+                  {contact.name}
+                </span>
+              ),
+            )}
+          </div>
+          {alerted.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              We let {alerted.map((alert) => alert.name).join(", ")} know you could use some support.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 pt-1">
+        <Button size="sm" variant="secondary" onClick={handleResolve} disabled={resolving}>
+          I'm safe for now
+        </Button>
+        <Link to="/safety" className="text-xs text-primary underline-offset-4 hover:underline">
+          Open full safety plan
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default CrisisProtocolCard;
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { COPING_CATEGORIES, MOODS } from "@sahaay/shared";
+import type { CopingCategory, CopingTool, Mood } from "@sahaay/shared";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { apiFetch } from "@/lib/api";
+
+// A coping tool the user made for themselves, such as "call my cousin".
+export interface CustomCopingTool extends CopingTool {
+  custom: true;
+  inSafetyPlan: boolean;
+}
+
+interface CustomCopingToolDialogProps {
+  open: boolean;
+  // The tool being edited; null to create a new one.
+  tool: CustomCopingTool | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const chipClass = (selected: boolean) =>
+  `rounded-full border px-3 py-1.5 text-xs capitalize transition-all ${
+    selected ? "border-primary/40 bg-primary/10 text-foreground" : "border-border bg-surface text-muted-foreground hover:text-foreground"
+  }`;
+
+/**
+ * Creates, edits or deletes one of the user's own coping tools. The server
+ * scores them with the built-in tools and keeps the safety plan in step.
+ */
+const CustomCopingToolDialog = ({ open, tool, onClose, onSaved }: CustomCopingToolDialogProps) => {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState<CopingCategory>("movement");
+  const [moods, setMoods] = useState<Mood[]>([]);
+  const [duration, setDuration] = useState("5");
+  const [inSafetyPlan, setInSafetyPlan] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(tool?.title ?? "");
+    setDescription(tool?.description ?? "");
+    setCategory(tool?.category ?? "movement");
+    setMoods(tool?.supportedMoods ?? []);
+    setDuration(String(tool?.durationMinutes ?? 5));
+    setInSafetyPlan(tool?.inSafetyPlan ?? false);
+    setError(null);
+  }, [open, tool]);
+
+  const toggleMood = (mood: Mood) =>
+    setMoods((prev) => (prev.includes(mood) ? prev.filter((item) => item !== mood) : [...prev, mood]));
+
+  const request = async (path: string, options: RequestInit) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await apiFetch(path, options);
+      onSaved();
+    } catch {
+      setError("We couldn't save that. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = () => {
+    const durationMinutes = Number(duration);
+    if (!title.trim() || !moods.length || !Number.isInteger(durationMinutes) || durationMinutes < 1 || durationMinutes > 240) {
+      setError("Add a name, at least one mood and a duration between 1 and 240 minutes.");
+      return;
+    }
+    void request(tool ? `/api/coping/custom-tools/${tool.id}` : "/api/coping/custom-tools", {
+      method: tool ? "PUT" : "POST",
+      body: JSON.stringify({ title, description, category, supportedMoods: moods, durationMinutes, inSafetyPlan }),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="rounded-3xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-foreground">{tool ? "Edit your tool" : "Add your own tool"}</DialogTitle>
+          <DialogDescription>Something that helps you, like calling a friend or a walk to the terrace.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground">Name</label>
+            <Input value={title} onChange={(event) => setTitle(event.target.value)} maxLength={80} placeholder="Call my cousin" />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground">Notes (optional)</label>
+            <Textarea
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              maxLength={300}
+              className="min-h-[70px] rounded-2xl bg-card"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground">Kind of tool</label>
+            <div className="flex flex-wrap gap-2">
+              {COPING_CATEGORIES.map((item) => (
+                <button key={item} type="button" onClick={() => setCategory(item)} className={chipClass(category === item)}>
+                  {item}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground">Helps when I feel</label>
+            <div className="flex flex-wrap gap-2">
+              {MOODS.map((mood) => (
+                <button key={mood} type="button" aria-pressed={moods.includes(mood)} onClick={() => toggleMood(mood)} className={chipClass(moods.includes(mood))}>
+                  {mood}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-muted-foreground">Minutes</label>
+            <Input type="number" min={1} max={240} value={duration} onChange={(event) => setDuration(event.target.value)} className="w-24" />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <Checkbox checked={inSafetyPlan} onCheckedChange={(checked) => setInSafetyPlan(checked === true)} />
+            Add to my safety plan's coping steps
+          </label>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="flex gap-2">
+            <Button onClick={save} disabled={saving}>
+              Save
+            </Button>
+            {tool && (
+              <Button
+                variant="ghost"
+                disabled={saving}
+                onClick={() => void request(`/api/coping/custom-tools/${tool.id}`, { method: "DELETE" })}
+              >
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomCopingToolDialog;
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { HAPTIC_DURATION_MS, expandScript, frameScale } from "@sahaay/shared";
+import type { ExerciseCue, ExerciseScript } from "@sahaay/shared";
+import { Button } from "@/components/ui/button";
+
+interface ExercisePlayerProps {
+  script: ExerciseScript;
+  onFinish?: () => void;
+  onClose: () => void;
+}
+
+type PlayerStatus = "ready" | "running" | "paused" | "finished";
+
+const playCue = (cue?: ExerciseCue) => {
+  if (cue?.haptic && "vibrate" in navigator) navigator.vibrate(HAPTIC_DURATION_MS[cue.haptic]);
+  if (cue?.audio) void new Audio(cue.audio).play().catch(() => undefined);
+};
+
+/**
+ * Plays any coping tool's step script: timed steps count down and move on by
+ * themselves, untimed ones wait for "Next". Remount it (via `key`) to restart.
+ */
+const ExercisePlayer = ({ script, onFinish, onClose }: ExercisePlayerProps) => {
+  const frames = useMemo(() => expandScript(script), [script]);
+  const [status, setStatus] = useState<PlayerStatus>("ready");
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const frame = frames[index];
+  const timed = Boolean(frame?.step.durationSeconds);
+  const hasVisual = frames.some((item) => item.step.animation);
+
+  const goTo = useCallback(
+    (next: number) => {
+      if (next >= frames.length) {
+        setStatus("finished");
+        onFinish?.();
+        return;
+      }
+      setIndex(next);
+      setRemaining(frames[next].step.durationSeconds ?? 0);
+      playCue(frames[next].step.cue);
+    },
+    [frames, onFinish],
+  );
+
+  useEffect(() => {
+    if (status !== "running" || !timed) return;
+    if (remaining <= 0) {
+      goTo(index + 1);
+      return;
+    }
+    const id = window.setTimeout(() => setRemaining((value) => value - 1), 1000);
+    return () => window.clearTimeout(id);
+  }, [status, timed, remaining, index, goTo]);
+
+  const start = () => {
+    setStatus("running");
+    goTo(0);
+  };
+
+  if (status === "ready") {
+    return (
+      <div className="flex flex-col items-center gap-6 py-8 text-center">
+        {script.intro && <p className="text-sm text-muted-foreground">{script.intro}</p>}
+        <Button onClick={start} className="rounded-xl">Start</Button>
+      </div>
+    );
+  }
+
+  if (status === "finished") {
+    return (
+      <div className="flex flex-col items-center gap-6 py-8 text-center">
+        <p className="text-sm text-foreground">{script.outro ?? "Nice work. Take a moment to notice how you feel."}</p>
+        <Button onClick={onClose} className="rounded-xl">Done</Button>
+      </div>
+    );
+  }
+
+  const scale = frameScale(frames, index);
+  const progress = script.repetitions > 1 ? `Round ${frame.round} of ${script.repetitions}` : `Step ${index + 1} of ${frames.length}`;
+
+  return (
+    <div className="flex flex-col items-center gap-6 py-8">
+      {hasVisual ? (
+        <div
+          className="flex h-36 w-36 items-center justify-center rounded-full bg-primary/20 transition-transform ease-in-out"
+          style={{ transform: `scale(${scale})`, transitionDuration: `${frame.step.durationSeconds ?? 1}s` }}
+        >
+          <span className="text-lg font-medium text-primary">{frame.step.label}</span>
+        </div>
+      ) : (
+        <div className="flex min-h-24 items-center justify-center rounded-2xl bg-card/80 px-6 py-4 shadow-sm">
+          <span className="font-display text-2xl font-semibold text-primary">{frame.step.label}</span>
+        </div>
+      )}
+      <p className="text-center text-sm text-foreground">{frame.step.prompt}</p>
+      <p className="text-xs text-muted-foreground">
+        {progress}
+        {timed && ` · ${remaining}s`}
+      </p>
+      <div className="flex gap-2">
+        {timed ? (
+          <Button variant="outline" className="rounded-xl" onClick={() => setStatus(status === "paused" ? "running" : "paused")}>
+            {status === "paused" ? "Resume" : "Pause"}
+          </Button>
+        ) : (
+          <Button className="rounded-xl" onClick={() => goTo(index + 1)}>
+            {index === frames.length - 1 ? "Finish" : "Next"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExercisePlayer;
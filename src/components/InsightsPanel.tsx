@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useUser } from "@/contexts/UserContext";
+import { apiFetch } from "@/lib/api";
+import type { InsightsReport } from "@/types";
+
+interface InsightsPanelProps {
+  limit?: number;
+  compact?: boolean;
+}
+
+/**
+ * What tends to go with better or worse days, worked out on the server from
+ * check-in tags, chat topics and timing. Nothing is shown until a pattern has
+ * enough check-ins or messages behind it.
+ */
+const InsightsPanel = ({ limit, compact = false }: InsightsPanelProps) => {
+  const { settings, checkIns } = useUser();
+  const [report, setReport] = useState<InsightsReport | null>(null);
+  const timezone = settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+  useEffect(() => {
+    apiFetch<InsightsReport>(`/api/analytics/insights?timezone=${encodeURIComponent(timezone)}`)
+      .then(setReport)
+      .catch(() => setReport(null));
+  }, [timezone, checkIns]);
+
+  const insights = (report?.insights ?? []).slice(0, limit);
+
+  return (
+    <Card className="card-elevated rounded-2xl">
+      <CardContent className={compact ? "space-y-3 p-6" : "space-y-4 p-6"}>
+        {insights.length ? (
+          insights.map((insight) => {
+            const Icon = insight.direction === "better" ? TrendingUp : TrendingDown;
+            return (
+              <div key={insight.id} className="flex items-start gap-3">
+                <div
+                  className={`flex h-9 w-9 shrink-0 items-center justify-center rounded-xl ${
+                    insight.direction === "better" ? "bg-mint text-mint-foreground" : "bg-peach text-peach-foreground"
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                </div>
+                <div>
+                  <p className="text-sm text-foreground">{insight.explanation}</p>
+                  {!compact && (
+                    <p className="text-xs text-muted-foreground">
+                      {insight.confidence === "strong" ? "Clear pattern" : "Possible pattern"} · {insight.sampleSize} times
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {report && report.observationCount < report.minimumSamples * 2
+              ? "Keep checking in — patterns appear once there are a few weeks of check-ins to compare."
+              : "No clear patterns yet. Tagging activities and people in your check-ins helps."}
+          </p>
+        )}
+        {!compact && (
+          <p className="text-xs text-muted-foreground">
+            These are patterns in your own check-ins and chats over the last {report?.window.days ?? 90} days, not causes.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InsightsPanel;
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiFetch } from "@/lib/api";
+import type { ChatMemory } from "@/types";
+
+interface MemoryPanelProps {
+  privateMode: boolean;
+}
+
+const MemoryPanel = ({ privateMode }: MemoryPanelProps) => {
+  const [memories, setMemories] = useState<ChatMemory[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [newText, setNewText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ memories: ChatMemory[] }>("/api/chat/memory")
+      .then((data) => setMemories(data.memories))
+      .catch(() => null);
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const addMemory = () =>
+    run(async () => {
+      const text = newText.trim();
+      if (!text) return;
+      const data = await apiFetch<{ memory: ChatMemory }>("/api/chat/memory", {
+        method: "POST",
+        body: JSON.stringify({ text }),
+      });
+      setMemories((prev) => [data.memory, ...prev]);
+      setNewText("");
+    });
+
+  const saveEdit = (id: string) =>
+    run(async () => {
+      const text = draft.trim();
+      if (!text) return;
+      const data = await apiFetch<{ memory: ChatMemory }>(`/api/chat/memory/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ text }),
+      });
+      setMemories((prev) => prev.map((memory) => (memory.id === id ? data.memory : memory)));
+      setEditingId(null);
+    });
+
+  const removeMemory = (id: string) =>
+    run(async () => {
+      await apiFetch(`/api/chat/memory/${id}`, { method: "DELETE" });
+      setMemories((prev) => prev.filter((memory) => memory.id !== id));
+    });
+
+  const clearAll = () =>
+    run(async () => {
+      await apiFetch("/api/chat/memory", { method: "DELETE" });
+      setMemories([]);
+    });
+
+  return (
+    <Card className="card-elevated rounded-2xl">
+      <CardContent className="space-y-5 p-6">
+        <div>
+          <h2 className="font-display text-lg font-semibold text-foreground">What Sahaay remembers</h2>
+          <p className="text-xs text-muted-foreground">
+            {privateMode
+              ? "Memory is paused while private mode is on. You can still review and delete what is saved."
+              : "Facts from your chats that help Sahaay pick up where you left off. Edit or remove anything."}
+          </p>
+        </div>
+
+        {!privateMode && (
+          <div className="flex gap-2">
+            <Input
+              value={newText}
+              onChange={(e) => setNewText(e.target.value)}
+              placeholder="Add something to remember"
+              maxLength={200}
+            />
+            <Button variant="secondary" onClick={addMemory} disabled={!newText.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {memories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing saved yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {memories.map((memory) => (
+              <li key={memory.id} className="flex items-center gap-2 rounded-xl border border-border px-3 py-2">
+                {editingId === memory.id ? (
+                  <>
+                    <Input value={draft} onChange={(e) => setDraft(e.target.value)} maxLength={200} />
+                    <Button size="icon" variant="ghost" onClick={() => saveEdit(memory.id)} aria-label="Save">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => setEditingId(null)} aria-label="Cancel">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm text-foreground">{memory.text}</span>
+                    {!privateMode && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => {
+                          setEditingId(memory.id);
+                          setDraft(memory.text);
+                        }}
+                        aria-label="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button size="icon" variant="ghost" onClick={() => removeMemory(memory.id)} aria-label="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {memories.length > 0 && (
+          <Button variant="outline" onClick={clearAll}>
+            Forget everything
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MemoryPanel;
@@ -1,7 +1,24 @@
 import { createContext, useContext, useEffect, useMemo, useState } from "react";
-import type { CheckIn, JournalEntry, SafetyPlan, UserProfile, UserSettings, WeeklyGoal } from "@/types";
+import type {
+  CheckIn,
+  CheckInChanges,
+  JournalEntry,
+  SafetyPlan,
+  UserProfile,
+  UserSettings,
+  WeeklyGoal,
+} from "@/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { apiFetch } from "@/lib/api";
+import type { ApiError } from "@/lib/api";
+import {
+  getQueuedCheckIns,
+  getQueuedCheckInEdits,
+  queueCheckIn,
+  queueCheckInEdit,
+  removeQueuedCheckIn,
+  removeQueuedCheckInEdit,
+} from "@/lib/idb";
 import { migrateLocalDataToBackend } from "@/lib/migration";
 
 interface UserContextValue {
@@ -16,8 +33,12 @@ interface UserContextValue {
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
   updateWeeklyGoal: (goal: WeeklyGoal) => Promise<void>;
   addCheckIn: (checkIn: CheckIn) => Promise<void>;
+  updateCheckIn: (checkIn: CheckIn, changes: CheckInChanges) => Promise<void>;
+  deleteCheckIn: (checkIn: CheckIn) => Promise<void>;
   addJournalEntry: (entry: JournalEntry) => Promise<void>;
   updateSafetyPlan: (plan: SafetyPlan) => Promise<void>;
+  // For changes the server made to the plan, such as a custom coping tool's step.
+  reloadSafetyPlan: () => Promise<void>;
   exportData: () => Promise<void>;
   deleteAllData: () => Promise<void>;
 }
@@ -26,6 +47,53 @@ const UserContext = createContext<UserContextValue | undefined>(undefined);
 
 const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
 
+// fetch rejects with a TypeError when the request never reached the server.
+const isOffline = (err: unknown) => !navigator.onLine || err instanceof TypeError;
+
+type DailyCheckInDoc = { id: string; dayKey?: string; entries?: CheckIn[] };
+
+const checkInBody = (checkIn: CheckIn) => ({
+  mood: checkIn.mood,
+  note: checkIn.note,
+  intensity: checkIn.intensity ?? undefined,
+  energy: checkIn.energy ?? undefined,
+  sleepHours: checkIn.sleepHours ?? undefined,
+  activities: checkIn.activities,
+  people: checkIn.people,
+});
+
+const entryPath = (dayKey: string, entryId: string) =>
+  `/api/checkins/${encodeURIComponent(dayKey)}/entries/${encodeURIComponent(entryId)}`;
+
+/**
+ * Replays check-ins and edits saved while offline, oldest first. Each item
+ * leaves the queue only once the server has it, so a failure part-way
+ * through never sends anything twice.
+ */
+const flushCheckInQueue = async (timezone: string) => {
+  const [queued, edits] = await Promise.all([getQueuedCheckIns(), getQueuedCheckInEdits()]);
+  for (const checkIn of queued) {
+    await apiFetch("/api/checkins", {
+      method: "POST",
+      body: JSON.stringify({ ...checkInBody(checkIn), timezone, createdAt: checkIn.createdAt }),
+    });
+    await removeQueuedCheckIn(checkIn.id);
+  }
+  for (const edit of edits) {
+    try {
+      await apiFetch(entryPath(edit.dayKey, edit.entryId), {
+        method: edit.kind === "delete" ? "DELETE" : "PUT",
+        ...(edit.kind === "update" ? { body: JSON.stringify(edit.changes) } : {}),
+      });
+    } catch (err) {
+      // The entry is already gone (deleted elsewhere); the edit has nothing left to apply to.
+      if ((err as ApiError).status !== 404) throw err;
+    }
+    await removeQueuedCheckInEdit(edit.id);
+  }
+  return queued.length + edits.length > 0;
+};
+
 const DEFAULT_SETTINGS: UserSettings = {
   fontScale: 1,
   reduceMotion: false,
@@ -46,16 +114,24 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
   const [safetyPlan, setSafetyPlan] = useState<SafetyPlan | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const mapCheckIns = (dailyDocs: Array<{ id: string; entries?: CheckIn[] }>) => {
+  const mapCheckIns = (dailyDocs: DailyCheckInDoc[]) => {
     const entries: CheckIn[] = [];
     dailyDocs.forEach((doc) => {
       (doc.entries || []).forEach((entry) => {
         entries.push({
-          id: `${doc.id}-${entry.createdAt}`,
+          id: entry.id || `${doc.id}-${entry.createdAt}`,
           mood: entry.mood,
           moodLabel: entry.moodLabel ?? null,
           note: entry.note,
+          intensity: entry.intensity ?? null,
+          energy: entry.energy ?? null,
+          sleepHours: entry.sleepHours ?? null,
+          activities: entry.activities ?? [],
+          people: entry.people ?? [],
+          source: entry.source ?? "manual",
+          dayKey: doc.dayKey,
           createdAt: entry.createdAt,
+          history: entry.history ?? [],
         });
       });
     });
@@ -78,11 +154,13 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
 
     const hydrate = async () => {
       await migrateLocalDataToBackend(user.uid);
+      await flushCheckInQueue(getBrowserTimezone()).catch(() => null);
+      const queued = await getQueuedCheckIns().catch(() => [] as CheckIn[]);
       const [profileRes, settingsRes, goalRes, checkinsRes, journalsRes, planRes] = await Promise.all([
         apiFetch<{ profile: UserProfile | null }>("/api/user/profile"),
         apiFetch<{ settings: UserSettings | null }>("/api/user/settings"),
         apiFetch<{ goal: WeeklyGoal | null }>("/api/weekly-goal"),
-        apiFetch<{ checkIns: Array<{ id: string; entries?: CheckIn[] }> }>("/api/checkins"),
+        apiFetch<{ checkIns: DailyCheckInDoc[] }>("/api/checkins"),
         apiFetch<{ entries: JournalEntry[] }>("/api/journals"),
         apiFetch<{ plan: SafetyPlan | null }>("/api/safety-plan"),
       ]);
@@ -100,7 +178,8 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
       setProfile(profileRes.profile ?? null);
       setSettings({ ...DEFAULT_SETTINGS, ...(settingsRes.settings ?? {}) });
       setWeeklyGoal(goalRes.goal ?? null);
-      setCheckIns(mapCheckIns(checkinsRes.checkIns || []));
+      // Anything still queued (the flush failed) stays visible until it syncs.
+      setCheckIns([...queued.map((item) => ({ ...item, pending: true })), ...mapCheckIns(checkinsRes.checkIns || [])]);
       setJournals(journalsRes.entries ?? []);
       setSafetyPlan(planRes.plan ?? null);
     };
@@ -110,6 +189,21 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
       .finally(() => setLoading(false));
   }, [user]);
 
+  useEffect(() => {
+    if (!user) return;
+    const handleOnline = () => {
+      flushCheckInQueue(settings.timezone || getBrowserTimezone())
+        .then(async (flushed) => {
+          if (!flushed) return;
+          const result = await apiFetch<{ checkIns: DailyCheckInDoc[] }>("/api/checkins");
+          setCheckIns(mapCheckIns(result.checkIns || []));
+        })
+        .catch(() => null);
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [user, settings.timezone]);
+
   useEffect(() => {
     document.documentElement.style.fontSize = `${settings.fontScale * 16}px`;
     if (settings.reduceMotion) {
@@ -161,19 +255,77 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
   const addCheckIn = async (checkIn: CheckIn) => {
     if (!user) return;
     const timezone = settings.timezone || getBrowserTimezone();
-    await apiFetch("/api/checkins", {
-      method: "POST",
-      body: JSON.stringify({
-        mood: checkIn.mood,
-        note: checkIn.note,
-        timezone,
-      }),
-    });
-    setCheckIns((prev) => {
-      const dayKey = new Date(checkIn.createdAt).toDateString();
-      const filtered = prev.filter((item) => new Date(item.createdAt).toDateString() !== dayKey);
-      return [checkIn, ...filtered];
-    });
+    try {
+      const result = await apiFetch<{ result: { dayKey: string; entryId: string } }>("/api/checkins", {
+        method: "POST",
+        body: JSON.stringify({ ...checkInBody(checkIn), timezone }),
+      });
+      // Entries accumulate through the day; the new one simply joins the list.
+      setCheckIns((prev) => [
+        { ...checkIn, id: result.result.entryId, dayKey: result.result.dayKey, source: "manual" },
+        ...prev,
+      ]);
+    } catch (err) {
+      if (!settings.offlineSync || !isOffline(err)) throw err;
+      const pending = { ...checkIn, source: "manual" as const, pending: true };
+      await queueCheckIn(pending);
+      setCheckIns((prev) => [pending, ...prev]);
+    }
+  };
+
+  const updateCheckIn = async (checkIn: CheckIn, changes: CheckInChanges) => {
+    if (!user) return;
+    const replace = (next: CheckIn) => setCheckIns((prev) => prev.map((item) => (item.id === checkIn.id ? next : item)));
+    if (checkIn.pending) {
+      // Not on the server yet, so the queued check-in itself is corrected.
+      const next = { ...checkIn, ...changes };
+      await queueCheckIn(next);
+      replace(next);
+      return;
+    }
+    const dayKey = checkIn.dayKey as string;
+    try {
+      const result = await apiFetch<{ result: { entry: CheckIn | null } }>(entryPath(dayKey, checkIn.id), {
+        method: "PUT",
+        body: JSON.stringify(changes),
+      });
+      replace({ ...checkIn, ...result.result.entry, dayKey });
+    } catch (err) {
+      if (!settings.offlineSync || !isOffline(err)) throw err;
+      await queueCheckInEdit({
+        id: `${checkIn.id}-${Date.now()}`,
+        kind: "update",
+        dayKey,
+        entryId: checkIn.id,
+        changes,
+        queuedAt: new Date().toISOString(),
+      });
+      replace({ ...checkIn, ...changes, ...(changes.mood ? { source: "manual" as const } : {}) });
+    }
+  };
+
+  const deleteCheckIn = async (checkIn: CheckIn) => {
+    if (!user) return;
+    const remove = () => setCheckIns((prev) => prev.filter((item) => item.id !== checkIn.id));
+    if (checkIn.pending) {
+      await removeQueuedCheckIn(checkIn.id);
+      remove();
+      return;
+    }
+    const dayKey = checkIn.dayKey as string;
+    try {
+      await apiFetch(entryPath(dayKey, checkIn.id), { method: "DELETE" });
+    } catch (err) {
+      if (!settings.offlineSync || !isOffline(err)) throw err;
+      await queueCheckInEdit({
+        id: `${checkIn.id}-${Date.now()}`,
+        kind: "delete",
+        dayKey,
+        entryId: checkIn.id,
+        queuedAt: new Date().toISOString(),
+      });
+    }
+    remove();
   };
 
   const addJournalEntry = async (entry: JournalEntry) => {
@@ -195,6 +347,12 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
     setSafetyPlan(result.plan ?? nextPlan);
   };
 
+  const reloadSafetyPlan = async () => {
+    if (!user) return;
+    const result = await apiFetch<{ plan: SafetyPlan | null }>("/api/safety-plan");
+    setSafetyPlan(result.plan ?? null);
+  };
+
   const exportData = async () => {
     if (!user) return;
     const exportPayload = await apiFetch<unknown>("/api/user/export");
@@ -233,8 +391,11 @@ export const UserProvider = ({ children }: { children: React.ReactNode }) => {
       updateSettings,
       updateWeeklyGoal,
       addCheckIn,
+      updateCheckIn,
+      deleteCheckIn,
       addJournalEntry,
       updateSafetyPlan,
+      reloadSafetyPlan,
       exportData,
       deleteAllData,
     }),
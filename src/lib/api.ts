@@ -52,3 +52,66 @@ export const apiFetch = async <T>(path: string, options?: RequestInit): Promise<
 
   return response.json() as Promise<T>;
 };
+
+export interface StreamEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+const parseSseBlock = (block: string): StreamEvent | null => {
+  let event = "message";
+  const dataLines: string[] = [];
+  block.split("\n").forEach((line) => {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  });
+  if (!dataLines.length) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return { event, data: dataLines.join("\n") };
+  }
+};
+
+/**
+ * POSTs to an endpoint that answers with Server-Sent Events and hands each
+ * event to `onEvent` as it arrives. Abort through `options.signal` to cancel.
+ */
+export const apiStream = async (
+  path: string,
+  onEvent: (event: StreamEvent) => void,
+  options?: RequestInit,
+): Promise<void> => {
+  const response = await fetch(buildUrl(path), {
+    credentials: "include",
+    ...options,
+    headers: {
+      ...getAuthHeaders(),
+      Accept: "text/event-stream",
+      ...(options?.headers || {}),
+    },
+  });
+
+  if (!response.ok || !response.body) {
+    const err: ApiError = new Error("API request failed");
+    err.status = response.status;
+    throw err;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseSseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+};
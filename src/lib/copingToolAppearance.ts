@@ -0,0 +1,44 @@
+/**
+ * Web presentation for the shared coping tools
+ *
+ * The tools, their clinical metadata and the recommendation engine live in
+ * @sahaay/shared so the web app, the mobile app and the backend rank them the
+ * same way. This file only adds what the web UI needs on top: a Lucide icon
+ * and Tailwind color classes per tool id.
+ *
+ * @module copingToolAppearance
+ */
+
+import { Wind, Mountain, Sparkles, Dumbbell, Brain, BookHeart, Heart, Activity } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import type { CopingTool } from "@sahaay/shared";
+
+export interface CopingToolAppearance {
+  icon: LucideIcon;
+  color: string; // Tailwind color classes
+}
+
+const BREATHING: CopingToolAppearance = { icon: Wind, color: "bg-mint text-mint-foreground" };
+
+const TOOL_APPEARANCE: Record<string, CopingToolAppearance> = {
+  "box-breathing": BREATHING,
+  "478-breathing": BREATHING,
+  "simple-breathing": BREATHING,
+  "54321-grounding": { icon: Mountain, color: "bg-lavender text-lavender-foreground" },
+  "body-scan": { icon: Mountain, color: "bg-lavender text-lavender-foreground" },
+  "progressive-muscle-relaxation": { icon: Activity, color: "bg-lavender text-lavender-foreground" },
+  "cognitive-reframing": { icon: Brain, color: "bg-blue-100 text-blue-900" },
+  "thought-journaling": { icon: BookHeart, color: "bg-blue-100 text-blue-900" },
+  affirmations: { icon: Sparkles, color: "bg-peach text-peach-foreground" },
+  "gratitude-reflection": { icon: Heart, color: "bg-peach text-peach-foreground" },
+  "self-compassion": { icon: Heart, color: "bg-peach text-peach-foreground" },
+  "quick-exercises": { icon: Dumbbell, color: "bg-secondary text-secondary-foreground" },
+};
+
+// Tools added on the server without a matching entry above.
+const FALLBACK_APPEARANCE: CopingToolAppearance = { icon: Sparkles, color: "bg-peach text-peach-foreground" };
+
+export const withAppearance = <T extends CopingTool>(tool: T): T & CopingToolAppearance => ({
+  ...tool,
+  ...(TOOL_APPEARANCE[tool.id] ?? FALLBACK_APPEARANCE),
+});
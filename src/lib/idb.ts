@@ -1,8 +1,8 @@
 import { openDB } from "idb";
-import type { CheckIn, JournalEntry } from "@/types";
+import type { CheckIn, CheckInEdit, JournalEntry } from "@/types";
 
 const DB_NAME = "sahaay_offline";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 const dbPromise = openDB(DB_NAME, DB_VERSION, {
   upgrade(db) {
@@ -12,6 +12,9 @@ const dbPromise = openDB(DB_NAME, DB_VERSION, {
     if (!db.objectStoreNames.contains("pendingJournals")) {
       db.createObjectStore("pendingJournals", { keyPath: "id" });
     }
+    if (!db.objectStoreNames.contains("pendingCheckInEdits")) {
+      db.createObjectStore("pendingCheckInEdits", { keyPath: "id" });
+    }
   },
 });
 
@@ -20,6 +23,11 @@ export const queueCheckIn = async (checkIn: CheckIn) => {
   await db.put("pendingCheckIns", checkIn);
 };
 
+export const queueCheckInEdit = async (edit: CheckInEdit) => {
+  const db = await dbPromise;
+  await db.put("pendingCheckInEdits", edit);
+};
+
 export const queueJournal = async (entry: JournalEntry) => {
   const db = await dbPromise;
   await db.put("pendingJournals", entry);
@@ -30,6 +38,12 @@ export const getQueuedCheckIns = async () => {
   return db.getAll("pendingCheckIns");
 };
 
+export const getQueuedCheckInEdits = async (): Promise<CheckInEdit[]> => {
+  const db = await dbPromise;
+  const edits: CheckInEdit[] = await db.getAll("pendingCheckInEdits");
+  return edits.sort((a, b) => (a.queuedAt < b.queuedAt ? -1 : 1));
+};
+
 export const getQueuedJournals = async () => {
   const db = await dbPromise;
   return db.getAll("pendingJournals");
@@ -40,6 +54,16 @@ export const clearQueuedCheckIns = async () => {
   await db.clear("pendingCheckIns");
 };
 
+export const removeQueuedCheckIn = async (id: string) => {
+  const db = await dbPromise;
+  await db.delete("pendingCheckIns", id);
+};
+
+export const removeQueuedCheckInEdit = async (id: string) => {
+  const db = await dbPromise;
+  await db.delete("pendingCheckInEdits", id);
+};
+
 export const clearQueuedJournals = async () => {
   const db = await dbPromise;
   await db.clear("pendingJournals");
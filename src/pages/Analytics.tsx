@@ -4,23 +4,44 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
 } from "recharts";
+import AssessmentsPanel from "@/components/AssessmentsPanel";
+import CheckInDayDialog from "@/components/CheckInDayDialog";
+import InsightsPanel from "@/components/InsightsPanel";
 import { useUser } from "@/contexts/UserContext";
 import { apiFetch } from "@/lib/api";
 
+type AnalyticsRange = "week" | "month" | "quarter" | "year";
+
+interface PeriodSummary {
+  days: number;
+  entryCount: number;
+  averageMood: number | null;
+  averageStress: number | null;
+  averageSentiment: number | null;
+  dominantMood: string | null;
+  moodDistribution: Array<{ mood: string; days: number; share: number }>;
+}
+
 interface AnalyticsPayload {
   streak: number;
   averageSentiment: number;
-  sentimentByDay: Array<{
-    dayKey: string;
-    sentiment: number;
-    normalizedMood: string;
-    moodScore: number;
-    moodScore10?: number;
-    stressScore?: number;
-    entryCount?: number;
-  }>;
+  range: { range: string; granularity: "day" | "week" | "month"; from: string; to: string; previousFrom: string; previousTo: string };
+  summary: PeriodSummary;
+  previous: PeriodSummary;
+  change: Record<"days" | "entryCount" | "averageMood" | "averageStress" | "averageSentiment", number | null>;
+  buckets: Array<PeriodSummary & { from: string; to: string; label: string }>;
 }
 
+const rangeLabels: Record<AnalyticsRange, string> = {
+  week: "Week",
+  month: "Month",
+  quarter: "Quarter",
+  year: "Year",
+};
+
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
 const moodEmojis: Record<string, string> = {
   happy: "😊",
   calm: "😌",
@@ -31,50 +52,49 @@ const moodEmojis: Record<string, string> = {
 };
 
 const Analytics = () => {
-  const [range, setRange] = useState("weekly");
+  const [range, setRange] = useState<AnalyticsRange>("week");
   const { settings, checkIns } = useUser();
   const [analytics, setAnalytics] = useState<AnalyticsPayload | null>(null);
+  const [calendar, setCalendar] = useState<AnalyticsPayload | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
   const timezone = settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
 
   useEffect(() => {
-    apiFetch<{ analytics: AnalyticsPayload }>(`/api/analytics?timezone=${encodeURIComponent(timezone)}`)
+    apiFetch<{ analytics: AnalyticsPayload }>(`/api/analytics?timezone=${encodeURIComponent(timezone)}&range=${range}`)
       .then((result) => setAnalytics(result.analytics))
       .catch(() => setAnalytics(null));
-  }, [timezone]);
+    // Refetch after check-ins change so corrections show up in the charts and calendar.
+  }, [timezone, range, checkIns]);
 
-  const sentimentDays = analytics?.sentimentByDay ?? [];
-  const weeklyData = sentimentDays.slice(0, 7).reverse().map((day) => {
-    const label = new Date(`${day.dayKey}T00:00:00`).toLocaleDateString(undefined, { weekday: "short" });
-    const mood = day.moodScore10 ?? Math.round(day.sentiment * 10);
-    const moodLabel = day.normalizedMood || "neutral";
-    const emoji = moodEmojis[moodLabel] || "😐";
-    const stress = day.stressScore ?? Math.max(0, 10 - mood);
-    return { day: label, mood, stress, moodLabel, emoji, entryCount: day.entryCount ?? 0 };
-  });
-
-  const monthlyData = (() => {
-    const buckets: Record<string, { mood: number; stress: number; count: number }> = {};
-    sentimentDays.forEach((day) => {
-      const date = new Date(`${day.dayKey}T00:00:00`);
-      const weekKey = `W${Math.ceil(date.getDate() / 7)}`;
-      if (!buckets[weekKey]) {
-        buckets[weekKey] = { mood: 0, stress: 0, count: 0 };
-      }
-      const mood = day.moodScore10 ?? Math.round(day.sentiment * 10);
-      buckets[weekKey].mood += mood;
-      buckets[weekKey].stress += day.stressScore ?? Math.max(0, 10 - mood);
-      buckets[weekKey].count += 1;
-    });
+  useEffect(() => {
+    const now = new Date();
+    const from = toDayKey(new Date(now.getFullYear(), now.getMonth(), 1));
+    const to = toDayKey(new Date(now.getFullYear(), now.getMonth() + 1, 0));
+    apiFetch<{ analytics: AnalyticsPayload }>(
+      `/api/analytics?timezone=${encodeURIComponent(timezone)}&range=custom&from=${from}&to=${to}&granularity=day`,
+    )
+      .then((result) => setCalendar(result.analytics))
+      .catch(() => setCalendar(null));
+  }, [timezone, checkIns]);
 
-    return Object.entries(buckets).map(([week, value]) => ({
-      week,
-      mood: value.count ? Number((value.mood / value.count).toFixed(1)) : 0,
-      stress: value.count ? Number((value.stress / value.count).toFixed(1)) : 0,
-    }));
-  })();
+  // Buckets come from the server already grouped by day, ISO week or month; empty ones are gaps in the charts.
+  const data = (analytics?.buckets ?? []).map((bucket) => ({
+    label: bucket.label,
+    mood: bucket.averageMood,
+    stress: bucket.averageStress,
+    moodLabel: bucket.dominantMood,
+    emoji: bucket.dominantMood ? moodEmojis[bucket.dominantMood] : undefined,
+    entryCount: bucket.entryCount,
+  }));
 
-  const data = range === "weekly" ? weeklyData : monthlyData;
-  const xKey = range === "weekly" ? "day" : "week";
+  const comparison = analytics
+    ? [
+        { label: "Average mood", value: analytics.summary.averageMood, change: analytics.change.averageMood, higherIsBetter: true },
+        { label: "Average stress", value: analytics.summary.averageStress, change: analytics.change.averageStress, higherIsBetter: false },
+        { label: "Days checked in", value: analytics.summary.days, change: analytics.change.days, higherIsBetter: true },
+        { label: "Check-ins", value: analytics.summary.entryCount, change: analytics.change.entryCount, higherIsBetter: true },
+      ]
+    : [];
 
   const weeklySummary = useMemo(() => {
     if (!checkIns.length) return "Keep going — your mood story will appear here soon.";
@@ -96,44 +116,6 @@ const Analytics = () => {
     return days;
   }, [checkIns]);
 
-  const bestTime = useMemo(() => {
-    if (!checkIns.length) return "Not enough check-ins yet.";
-    const buckets = { morning: 0, afternoon: 0, evening: 0 };
-    const counts = { morning: 0, afternoon: 0, evening: 0 };
-    checkIns.slice(0, 14).forEach((item) => {
-      const hour = new Date(item.createdAt).getHours();
-      const key = hour < 12 ? "morning" : hour < 18 ? "afternoon" : "evening";
-      const score = item.mood === "happy" ? 4 : item.mood === "calm" ? 3 : item.mood === "neutral" ? 2 : 1;
-      buckets[key] += score;
-      counts[key] += 1;
-    });
-    const averages = Object.keys(buckets).map((key) => ({
-      key,
-      value: counts[key as keyof typeof counts] ? buckets[key as keyof typeof buckets] / counts[key as keyof typeof counts] : 0,
-    }));
-    const top = averages.sort((a, b) => b.value - a.value)[0];
-    return top?.value ? `${top.key} tends to feel best for you.` : "Not enough data yet.";
-  }, [checkIns]);
-
-  const bestDayOfWeek = useMemo(() => {
-    if (!checkIns.length) return "Not enough data yet.";
-    const dayScores: Record<string, { total: number; count: number }> = {};
-    checkIns.slice(0, 30).forEach((item) => {
-      const dayName = new Date(item.createdAt).toLocaleDateString(undefined, { weekday: 'long' });
-      const score = item.mood === "happy" ? 4 : item.mood === "calm" ? 3 : item.mood === "neutral" ? 2 : 1;
-      if (!dayScores[dayName]) dayScores[dayName] = { total: 0, count: 0 };
-      dayScores[dayName].total += score;
-      dayScores[dayName].count += 1;
-    });
-    const averages = Object.entries(dayScores).map(([day, data]) => ({
-      day,
-      avg: data.total / data.count,
-    }));
-    if (!averages.length) return "Not enough data yet.";
-    const best = averages.sort((a, b) => b.avg - a.avg)[0];
-    return best.avg >= 3 ? `${best.day}s tend to be your brightest days.` : "Keep tracking to see your patterns emerge.";
-  }, [checkIns]);
-
   const moodTrend = useMemo(() => {
     if (checkIns.length < 3) return "Keep checking in to see your mood trend.";
     const recent = checkIns.slice(0, 7);
@@ -147,14 +129,6 @@ const Analytics = () => {
     return "Your mood has been steady — that's a sign of resilience.";
   }, [checkIns]);
 
-  const insights = [
-    analytics?.averageSentiment
-      ? `Your overall positivity score this period: ${Math.round(analytics.averageSentiment * 100)}%.`
-      : moodTrend,
-    `Current streak: ${analytics?.streak ?? 0} day${analytics?.streak === 1 ? '' : 's'}.`,
-    bestDayOfWeek,
-  ];
-
   return (
     <div className="mx-auto max-w-4xl space-y-8 animate-fade-in">
       <div className="flex flex-wrap items-center justify-between gap-4">
@@ -162,14 +136,39 @@ const Analytics = () => {
           <h1 className="font-display text-2xl font-bold text-foreground">Your mood journey</h1>
           <p className="text-sm text-muted-foreground">Gentle patterns and progress over time.</p>
         </div>
-        <Tabs value={range} onValueChange={setRange}>
+        <Tabs value={range} onValueChange={(value) => setRange(value as AnalyticsRange)}>
           <TabsList className="rounded-xl">
-            <TabsTrigger value="weekly" className="rounded-lg">Weekly</TabsTrigger>
-            <TabsTrigger value="monthly" className="rounded-lg">Monthly</TabsTrigger>
+            {(Object.keys(rangeLabels) as AnalyticsRange[]).map((value) => (
+              <TabsTrigger key={value} value={value} className="rounded-lg">{rangeLabels[value]}</TabsTrigger>
+            ))}
           </TabsList>
         </Tabs>
       </div>
 
+      {/* Comparison with the previous period */}
+      {analytics && (
+        <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-4">
+          {comparison.map((item) => {
+            const better = item.change !== null && item.change !== 0 && (item.change > 0) === item.higherIsBetter;
+            return (
+              <Card key={item.label} className="card-elevated rounded-2xl">
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="font-display text-2xl font-bold text-foreground">{item.value ?? "–"}</p>
+                  <p className={`text-xs ${item.change ? (better ? "text-primary" : "text-peach-foreground") : "text-muted-foreground"}`}>
+                    {item.change === null
+                      ? "Nothing to compare yet"
+                      : item.change === 0
+                        ? "Same as the previous period"
+                        : `${item.change > 0 ? "+" : ""}${item.change} vs previous period`}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
       {/* Mood Line Chart */}
       <Card className="card-elevated rounded-2xl">
         <CardContent className="p-6">
@@ -178,7 +177,7 @@ const Analytics = () => {
             <LineChart data={data}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis
-                dataKey={xKey}
+                dataKey="label"
                 tick={{ fontSize: 12, fill: "hsl(var(--foreground))" }}
                 stroke="hsl(var(--text-muted))"
                 interval={0}
@@ -196,7 +195,7 @@ const Analytics = () => {
                   return [value, name];
                 }}
               />
-              <Line type="monotone" dataKey="mood" stroke="hsl(var(--primary))" strokeWidth={3} dot={{ r: 5, fill: "hsl(var(--primary))" }} />
+              <Line type="monotone" dataKey="mood" stroke="hsl(var(--primary))" strokeWidth={3} dot={{ r: 5, fill: "hsl(var(--primary))" }} connectNulls />
             </LineChart>
           </ResponsiveContainer>
           <p className="mt-3 text-sm text-muted-foreground">
@@ -213,7 +212,7 @@ const Analytics = () => {
             <BarChart data={data}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis
-                dataKey={xKey}
+                dataKey="label"
                 tick={{ fontSize: 12 }}
                 stroke="hsl(var(--text-muted))"
                 interval={0}
@@ -242,20 +241,53 @@ const Analytics = () => {
         </CardContent>
       </Card>
 
+      {/* Mood distribution */}
+      <Card className="card-elevated rounded-2xl">
+        <CardContent className="p-6">
+          <h3 className="mb-4 font-display text-sm font-semibold text-muted-foreground uppercase tracking-wider">Mood distribution</h3>
+          {analytics?.summary.days ? (
+            <div className="space-y-3">
+              {analytics.summary.moodDistribution.map((item) => (
+                <div key={item.mood} className="flex items-center gap-3 text-sm">
+                  <span className="w-28 shrink-0 capitalize text-foreground">
+                    {moodEmojis[item.mood]} {item.mood}
+                  </span>
+                  <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                    <div className="h-full rounded-full bg-primary" style={{ width: `${Math.round(item.share * 100)}%` }} />
+                  </div>
+                  <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+                    {item.days} day{item.days === 1 ? "" : "s"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No check-ins in this period yet.</p>
+          )}
+          <p className="mt-3 text-sm text-muted-foreground">
+            Each day counts once, by the mood it settled on.
+          </p>
+        </CardContent>
+      </Card>
+
+      <section>
+        <h2 className="mb-4 font-display text-lg font-semibold text-foreground">Insights</h2>
+        <InsightsPanel />
+      </section>
+
       <section>
         <h2 className="mb-4 font-display text-lg font-semibold text-foreground">Mood calendar</h2>
         <Card className="card-elevated rounded-2xl">
           <CardContent className="p-6">
-            {sentimentDays.length ? (
+            {calendar?.summary.days ? (
               (() => {
                 const now = new Date();
                 const year = now.getFullYear();
                 const month = now.getMonth();
                 const firstDay = new Date(year, month, 1).getDay();
                 const daysInMonth = new Date(year, month + 1, 0).getDate();
-                const dayKeys = sentimentDays.reduce<Record<string, string>>((acc, day) => {
-                  const emoji = moodEmojis[day.normalizedMood] || "😐";
-                  acc[day.dayKey] = emoji;
+                const dayKeys = calendar.buckets.reduce<Record<string, string>>((acc, day) => {
+                  if (day.dominantMood) acc[day.from] = moodEmojis[day.dominantMood] || "😐";
                   return acc;
                 }, {});
 
@@ -265,7 +297,7 @@ const Analytics = () => {
                   cells.push({ key: `empty-${i}` });
                 }
                 for (let d = 1; d <= daysInMonth; d += 1) {
-                  const dayKey = new Date(year, month, d).toISOString().slice(0, 10);
+                  const dayKey = toDayKey(new Date(year, month, d));
                   cells.push({
                     key: dayKey,
                     label: d,
@@ -284,7 +316,11 @@ const Analytics = () => {
                       {cells.map((cell) => (
                         <div
                           key={cell.key}
-                          className="rounded-2xl border border-border bg-surface px-2 py-3 min-h-[60px]"
+                          role={cell.emoji ? "button" : undefined}
+                          tabIndex={cell.emoji ? 0 : undefined}
+                          onClick={() => cell.emoji && setSelectedDay(cell.key)}
+                          onKeyDown={(e) => e.key === "Enter" && cell.emoji && setSelectedDay(cell.key)}
+                          className={`rounded-2xl border border-border bg-surface px-2 py-3 min-h-[60px] ${cell.emoji ? "cursor-pointer hover:border-primary/40" : ""}`}
                         >
                           {cell.label ? (
                             <>
@@ -304,6 +340,15 @@ const Analytics = () => {
           </CardContent>
         </Card>
       </section>
+
+      <CheckInDayDialog
+        open={Boolean(selectedDay)}
+        onOpenChange={(open) => !open && setSelectedDay(null)}
+        title={selectedDay ? new Date(`${selectedDay}T00:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" }) : ""}
+        entries={checkIns.filter((item) => item.dayKey === selectedDay)}
+      />
+
+      <AssessmentsPanel />
     </div>
   );
 };
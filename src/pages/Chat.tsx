@@ -1,12 +1,15 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { SendHorizonal, Phone, ShieldAlert, Tag, History as HistoryIcon, ArrowLeft } from "lucide-react";
+import { SendHorizonal, Phone, ShieldAlert, Tag, History as HistoryIcon, ArrowLeft, Square, Plus } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useUser } from "@/contexts/UserContext";
 import { Link, useSearchParams } from "react-router-dom";
-import { apiFetch } from "@/lib/api";
+import { apiFetch, apiStream } from "@/lib/api";
 import { format, isToday } from "date-fns";
+import CrisisProtocolCard from "@/components/CrisisProtocolCard";
+import type { ChatThread, CrisisEvent } from "@/types";
 
 interface Helpline {
   name: string;
@@ -20,6 +23,7 @@ interface Message {
   isCrisis?: boolean;
   tags?: string[];
   createdAt?: string;
+  isStreaming?: boolean;
 }
 
 const mockResponses = [
@@ -43,17 +47,21 @@ const TypingIndicator = () => (
 );
 
 const Chat = () => {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const dayKey = searchParams.get("day");
+  const threadParam = searchParams.get("thread");
   const isHistorical = dayKey && !isToday(new Date(dayKey));
 
-  const initialMessage: Message = {
-    id: 0,
-    text: isHistorical
-      ? `Viewing conversation from ${format(new Date(dayKey!), "MMMM do, yyyy")} 🌿`
-      : "Hi there 🌿 I'm here to listen. How are you feeling right now?",
-    sender: "ai",
-  };
+  const initialMessage = useMemo<Message>(
+    () => ({
+      id: 0,
+      text: isHistorical
+        ? `Viewing conversation from ${format(new Date(dayKey!), "MMMM do, yyyy")} 🌿`
+        : "Hi there 🌿 I'm here to listen. How are you feeling right now?",
+      sender: "ai",
+    }),
+    [dayKey, isHistorical],
+  );
 
   const [messages, setMessages] = useState<Message[]>([initialMessage]);
   const [input, setInput] = useState("");
@@ -62,15 +70,41 @@ const Chat = () => {
   const [isFocused, setIsFocused] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const endRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const { safetyPlan } = useUser();
   const [helplines, setHelplines] = useState<Helpline[]>([]);
+  const [activeCrisis, setActiveCrisis] = useState<CrisisEvent | null>(null);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(threadParam);
+
+  const refreshThreads = useCallback(
+    () =>
+      apiFetch<{ threads: ChatThread[] }>("/api/chat/threads")
+        .then((result) => {
+          setThreads(result.threads);
+          return result.threads;
+        })
+        .catch(() => [] as ChatThread[]),
+    [],
+  );
+
+  // Day view shows every thread from that day; otherwise show the chosen thread, or the one still open.
+  const resolveMessagesUrl = useCallback(async () => {
+    const list = await refreshThreads();
+    if (dayKey) return `/api/chat?dayKey=${dayKey}`;
+    const target = threadParam ?? list.find((thread) => thread.status === "open")?.id ?? null;
+    setActiveThreadId(target);
+    return target ? `/api/chat?threadId=${target}` : null;
+  }, [dayKey, threadParam, refreshThreads]);
 
   useEffect(() => {
     setIsLoading(true);
-    const url = dayKey ? `/api/chat?dayKey=${dayKey}` : "/api/chat";
-    apiFetch<{ messages: Array<{ id: string; text: string; createdAt: string; sender?: "user" | "ai"; tags?: string[]; crisis?: { severity?: string } }> }>(
-      url,
-    )
+    resolveMessagesUrl()
+      .then((url) =>
+        url
+          ? apiFetch<{ messages: Array<{ id: string; text: string; createdAt: string; sender?: "user" | "ai"; tags?: string[]; crisis?: { severity?: string } }> }>(url)
+          : { messages: [] },
+      )
       .then((result) => {
         const history = result.messages
           .map((msg: any) => ({
@@ -102,7 +136,35 @@ const Chat = () => {
           endRef.current?.scrollIntoView({ behavior: "smooth" });
         }, 100);
       });
-  }, [dayKey]);
+  }, [resolveMessagesUrl, initialMessage]);
+
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  const switchThread = (threadId: string) => {
+    setSearchParams({ thread: threadId });
+  };
+
+  const startNewThread = async () => {
+    if (isSending) return;
+    const result = await apiFetch<{ thread: ChatThread }>("/api/chat/threads", {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+    setSearchParams({ thread: result.thread.id });
+  };
+
+  useEffect(() => {
+    if (isHistorical) return;
+    apiFetch<{ event: CrisisEvent | null }>("/api/crisis/active")
+      .then((result) => setActiveCrisis(result.event))
+      .catch(() => setActiveCrisis(null));
+  }, [isHistorical]);
+
+  const resolveCrisis = async () => {
+    if (!activeCrisis) return;
+    await apiFetch(`/api/crisis/${activeCrisis.id}/resolve`, { method: "POST", body: JSON.stringify({}) });
+    setActiveCrisis(null);
+  };
 
   useEffect(() => {
     apiFetch<{ helplines: Helpline[] }>("/api/config/helplines")
@@ -123,49 +185,79 @@ const Chat = () => {
     }
     : null;
 
+  const updateMessage = (id: number, updater: (msg: Message) => Message) => {
+    setMessages((prev) => prev.map((msg) => (msg.id === id ? updater(msg) : msg)));
+  };
+
+  const handleStop = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleSend = () => {
     if (!input.trim() || isHistorical) return;
     const userMsg: Message = { id: Date.now(), text: input.trim(), sender: "user" };
+    const aiMsgId = userMsg.id + 1;
     setMessages((prev) => [...prev, userMsg]);
     setInput("");
     setIsTyping(true);
     setIsSending(true);
 
-    apiFetch<{ tags: string[]; crisis: { severity: string } }>("/api/chat", {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    apiFetch<{ tags: string[]; crisis: { severity: string }; crisisEvent: CrisisEvent | null; threadId: string }>("/api/chat", {
       method: "POST",
-      body: JSON.stringify({ text: userMsg.text }),
+      body: JSON.stringify({ text: userMsg.text, threadId: activeThreadId ?? undefined }),
+      signal: controller.signal,
     })
       .then((result) => {
+        if (result.threadId !== activeThreadId) {
+          setActiveThreadId(result.threadId);
+          refreshThreads();
+        }
         const isCrisis = result.crisis?.severity === "high";
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === userMsg.id ? { ...msg, tags: result.tags, isCrisis } : msg,
-          ),
-        );
+        if (result.crisisEvent) setActiveCrisis(result.crisisEvent);
+        updateMessage(userMsg.id, (msg) => ({ ...msg, tags: result.tags, isCrisis }));
+        setMessages((prev) => [...prev, { id: aiMsgId, text: "", sender: "ai", isCrisis, isStreaming: true }]);
 
-        return apiFetch<{ response: { text: string } }>("/api/chat/respond", {
-          method: "POST",
-          body: JSON.stringify({ text: userMsg.text }),
-        }).then((response) => ({ response, isCrisis }));
-      })
-      .then(({ response, isCrisis }) => {
-        const aiMsg: Message = {
-          id: Date.now() + 1,
-          text: response.response.text,
-          sender: "ai",
-          isCrisis,
-        };
-        setMessages((prev) => [...prev, aiMsg]);
+        return apiStream(
+          "/api/chat/respond",
+          (event) => {
+            if (event.event === "token") {
+              const { text } = event.data as { text: string };
+              setIsTyping(false);
+              updateMessage(aiMsgId, (msg) => ({ ...msg, text: msg.text + text }));
+            }
+            if (event.event === "done") {
+              // The final text wins: the server's response guard may have replaced what was streamed.
+              const { response } = event.data as { response: { text: string } };
+              updateMessage(aiMsgId, (msg) => ({ ...msg, text: response.text || msg.text, isStreaming: false }));
+            }
+          },
+          {
+            method: "POST",
+            body: JSON.stringify({ text: userMsg.text, threadId: result.threadId }),
+            signal: controller.signal,
+          },
+        );
       })
       .catch(() => {
-        const aiMsg: Message = {
-          id: Date.now() + 1,
-          text: "I am here for you. Tell me more.",
-          sender: "ai",
-        };
-        setMessages((prev) => [...prev, aiMsg]);
+        if (controller.signal.aborted) return;
+        setMessages((prev) => {
+          const existing = prev.find((msg) => msg.id === aiMsgId);
+          if (existing?.text) return prev;
+          const fallback: Message = { id: aiMsgId, text: "I am here for you. Tell me more.", sender: "ai" };
+          return existing ? prev.map((msg) => (msg.id === aiMsgId ? fallback : msg)) : [...prev, fallback];
+        });
       })
       .finally(() => {
+        // Drop the placeholder if the reply was cancelled before any text arrived.
+        setMessages((prev) =>
+          prev
+            .filter((msg) => msg.id !== aiMsgId || msg.text)
+            .map((msg) => (msg.id === aiMsgId ? { ...msg, isStreaming: false } : msg)),
+        );
+        if (streamAbortRef.current === controller) streamAbortRef.current = null;
         setIsTyping(false);
         setIsSending(false);
       });
@@ -195,6 +287,28 @@ const Chat = () => {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          {threads.length > 0 && (
+            <Select value={activeThreadId ?? undefined} onValueChange={switchThread}>
+              <SelectTrigger className="h-9 w-[200px] rounded-xl text-xs">
+                <SelectValue placeholder={isHistorical ? "Threads from this day" : "Switch conversation"} />
+              </SelectTrigger>
+              <SelectContent>
+                {threads
+                  .filter((thread) => !dayKey || thread.dayKey === dayKey)
+                  .map((thread) => (
+                    <SelectItem key={thread.id} value={thread.id} className="text-xs">
+                      {thread.title} · {format(new Date(thread.startedAt), "MMM d")}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+          {!isHistorical && (
+            <Button variant="outline" size="sm" onClick={startNewThread} disabled={isSending}>
+              <Plus className="mr-1 h-4 w-4" />
+              New topic
+            </Button>
+          )}
           <div className="hidden items-center gap-2 rounded-2xl border border-border bg-surface px-3 py-2 text-xs text-muted-foreground shadow-sm sm:flex">
             {isHistorical ? (
               <>
@@ -245,7 +359,7 @@ const Chat = () => {
 
           {/* Messages */}
           <div className="flex-1 overflow-y-auto space-y-4 pb-4 pr-2 scrollbar-none">
-            {messages.map((msg) => (
+            {messages.filter((msg) => msg.text).map((msg) => (
               <div key={msg.id || `${msg.sender}-${msg.createdAt}`}>
                 <div
                   className={`flex ${msg.sender === "user" ? "justify-end" : "justify-start"}`}
@@ -257,6 +371,9 @@ const Chat = () => {
                       }`}
                   >
                     {msg.text}
+                    {msg.isStreaming && msg.text && (
+                      <span className="ml-0.5 inline-block h-4 w-1.5 translate-y-0.5 rounded-sm bg-primary/50 animate-pulse-soft" />
+                    )}
                   </div>
                 </div>
                 {msg.isCrisis && (
@@ -304,6 +421,7 @@ const Chat = () => {
       {/* Input */}
       {!isHistorical && !isLoading && (
         <div className="border-t border-border bg-surface/80 backdrop-blur-sm pt-4">
+          {activeCrisis && <CrisisProtocolCard event={activeCrisis} onResolve={resolveCrisis} />}
           <div className="mb-3 flex flex-wrap gap-2 text-xs text-muted-foreground">
             {[
               "I have been feeling anxious lately",
@@ -337,19 +455,26 @@ const Chat = () => {
               rows={1}
               aria-label="Chat message"
             />
-            <Button
-              onClick={handleSend}
-              size="icon"
-              className="h-12 w-12 shrink-0 rounded-2xl bg-primary text-primary-foreground shadow-md hover:shadow-lg transition-all"
-              aria-label="Send message"
-              disabled={isSending}
-            >
-              {isSending ? (
-                <span className="h-5 w-5 animate-spin rounded-full border-2 border-primary-foreground/60 border-t-transparent" />
-              ) : (
+            {isSending ? (
+              <Button
+                onClick={handleStop}
+                size="icon"
+                variant="outline"
+                className="h-12 w-12 shrink-0 rounded-2xl shadow-md transition-all"
+                aria-label="Stop reply"
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                size="icon"
+                className="h-12 w-12 shrink-0 rounded-2xl bg-primary text-primary-foreground shadow-md hover:shadow-lg transition-all"
+                aria-label="Send message"
+              >
                 <SendHorizonal className="h-5 w-5" />
-              )}
-            </Button>
+              </Button>
+            )}
           </div>
         </div>
       )}
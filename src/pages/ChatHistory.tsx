@@ -20,6 +20,7 @@ interface DailySummary {
     summary: string;
     topEmotions: string[];
     messageCount: number;
+    threads?: Array<{ id: string; title: string; startedAt: string; messageCount: number }>;
 }
 
 const ChatHistory = () => {
@@ -108,46 +109,60 @@ const ChatHistory = () => {
             ) : filteredHistory.length > 0 ? (
                 <div className="grid gap-6">
                     {filteredHistory.map((item) => (
-                        <Link
-                            key={item.id}
-                            to={`/chat?day=${item.dayKey}`}
-                            className="group relative flex flex-col gap-4 rounded-3xl border border-border/50 bg-card p-6 shadow-sm transition-all hover:border-primary/30 hover:shadow-md hover:-translate-y-0.5"
-                        >
-                            <div className="flex items-center justify-between">
-                                <div className="flex items-center gap-3">
-                                    <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary/10 text-primary">
-                                        <Calendar className="h-5 w-5" />
-                                    </div>
-                                    <div>
-                                        <h3 className="font-semibold text-foreground">
-                                            {formatDateString(item.dayKey)}
-                                        </h3>
-                                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                                            <MessageSquare className="h-3 w-3" />
-                                            {item.messageCount} messages
+                        <div key={item.id} className="space-y-2">
+                            <Link
+                                to={`/chat?day=${item.dayKey}`}
+                                className="group relative flex flex-col gap-4 rounded-3xl border border-border/50 bg-card p-6 shadow-sm transition-all hover:border-primary/30 hover:shadow-md hover:-translate-y-0.5"
+                            >
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary/10 text-primary">
+                                            <Calendar className="h-5 w-5" />
+                                        </div>
+                                        <div>
+                                            <h3 className="font-semibold text-foreground">
+                                                {formatDateString(item.dayKey)}
+                                            </h3>
+                                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                                                <MessageSquare className="h-3 w-3" />
+                                                {item.messageCount} messages
+                                            </div>
                                         </div>
                                     </div>
+                                    <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-primary transition-colors" />
                                 </div>
-                                <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-primary transition-colors" />
-                            </div>
 
-                            <div className="text-sm leading-relaxed text-muted-foreground line-clamp-2">
-                                {item.summary}
-                            </div>
+                                <div className="text-sm leading-relaxed text-muted-foreground line-clamp-2">
+                                    {item.summary}
+                                </div>
 
-                            {item.topEmotions.length > 0 && (
-                                <div className="flex flex-wrap gap-2 pt-2">
-                                    {item.topEmotions.map(emotion => (
-                                        <span
-                                            key={emotion}
-                                            className="rounded-full bg-surface-muted px-2.5 py-0.5 text-[10px] font-medium uppercase tracking-wider text-muted-foreground border border-border/30"
+                                {item.topEmotions.length > 0 && (
+                                    <div className="flex flex-wrap gap-2 pt-2">
+                                        {item.topEmotions.map(emotion => (
+                                            <span
+                                                key={emotion}
+                                                className="rounded-full bg-surface-muted px-2.5 py-0.5 text-[10px] font-medium uppercase tracking-wider text-muted-foreground border border-border/30"
+                                            >
+                                                {emotion}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                            </Link>
+                            {item.threads && item.threads.length > 0 && (
+                                <div className="flex flex-wrap gap-2 px-2">
+                                    {item.threads.map(thread => (
+                                        <Link
+                                            key={thread.id}
+                                            to={`/chat?thread=${thread.id}`}
+                                            className="rounded-full border border-border/50 bg-card px-3 py-1 text-xs text-muted-foreground transition-colors hover:border-primary/30 hover:text-primary"
                                         >
-                                            {emotion}
-                                        </span>
+                                            {thread.title}
+                                        </Link>
                                     ))}
                                 </div>
                             )}
-                        </Link>
+                        </div>
                     ))}
                 </div>
             ) : (
@@ -1,12 +1,20 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Wind, Mountain, Sparkles, Dumbbell, X } from "lucide-react";
+import { Wind, Mountain, Sparkles, Dumbbell, X, ThumbsUp, ThumbsDown, Star, Plus } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import CopingSessionPrompt from "@/components/CopingSessionPrompt";
+import CustomCopingToolDialog from "@/components/CustomCopingToolDialog";
+import type { CustomCopingTool } from "@/components/CustomCopingToolDialog";
+import ExercisePlayer from "@/components/ExercisePlayer";
+import { Button } from "@/components/ui/button";
+import type { FinishedCopingSession } from "@/components/CopingSessionPrompt";
+import { COPING_TOOLS, buildRecommendationContext, getRecommendedCopingTools, getToolScript } from "@sahaay/shared";
+import type { CopingTool, RecommendedTool } from "@sahaay/shared";
 import { useUser } from "@/contexts/UserContext";
-import { EVIDENCE_BASED_COPING_TOOLS } from "@/lib/copingToolsData";
-import type { RecommendedTool } from "@/lib/copingRecommendation";
+import { withAppearance } from "@/lib/copingToolAppearance";
+import type { CopingToolAppearance } from "@/lib/copingToolAppearance";
 import { apiFetch } from "@/lib/api";
+import type { CopingToolStats } from "@/types";
 
 const affirmations = [
   "I am doing the best I can, and that is enough. 🌱",
@@ -16,10 +24,25 @@ const affirmations = [
   "It's okay to take things one step at a time.",
 ];
 
+type ToolVote = "up" | "down";
+
+// Recommendations come back re-ranked by what has worked for this user, favorites first.
+type PersonalizedTool = RecommendedTool & {
+  learned?: boolean;
+  exploration?: boolean;
+  vote?: ToolVote | null;
+  favorite?: boolean;
+  custom?: boolean;
+  inSafetyPlan?: boolean;
+};
+
 const CopingTools = () => {
   const [activeTool, setActiveTool] = useState<string | null>(null);
-  const [breathPhase, setBreathPhase] = useState<"idle" | "inhale" | "hold" | "exhale">("idle");
-  const { profile } = useUser();
+  const [playingTool, setPlayingTool] = useState<CopingTool | null>(null);
+  const [openCustomTool, setOpenCustomTool] = useState<CustomCopingTool | null>(null);
+  const [toolForm, setToolForm] = useState<{ tool: CustomCopingTool | null } | null>(null);
+  const { profile, checkIns, safetyPlan, reloadSafetyPlan } = useUser();
+  const [availableMinutes, setAvailableMinutes] = useState<number | null>(null);
   const [moodFocus, setMoodFocus] = useState<"anxious" | "sad" | "happy" | "neutral">(
     profile?.baselineMood === "anxious"
       ? "anxious"
@@ -30,25 +53,61 @@ const CopingTools = () => {
           : "neutral",
   );
 
-  const [recommendedTools, setRecommendedTools] = useState<RecommendedTool[]>([]);
-  const timeoutsRef = useRef<number[]>([]);
+  const [recommendedTools, setRecommendedTools] = useState<Array<PersonalizedTool & CopingToolAppearance>>([]);
+  const [toolStats, setToolStats] = useState<Record<string, CopingToolStats>>({});
+  const [activeSession, setActiveSession] = useState<Omit<FinishedCopingSession, "endedAt"> | null>(null);
+  const [finishedSession, setFinishedSession] = useState<FinishedCopingSession | null>(null);
 
-  useEffect(() => {
-    apiFetch<{ recommendations: RecommendedTool[] }>("/api/coping/recommendations")
-      .then((result) => {
-        const iconMap = new Map(EVIDENCE_BASED_COPING_TOOLS.map((tool) => [tool.id, tool]));
-        const merged = result.recommendations.map((tool) => {
-          const meta = iconMap.get(tool.id);
-          return {
-            ...tool,
-            icon: meta?.icon ?? Sparkles,
-            color: meta?.color ?? "bg-peach text-peach-foreground",
-          };
+  const loadRecommendations = useCallback(() => {
+    apiFetch<{ stats: Record<string, CopingToolStats> }>("/api/coping/sessions")
+      .then((result) => setToolStats(result.stats))
+      .catch(() => setToolStats({}));
+    const query = new URLSearchParams({ locale: navigator.language });
+    if (availableMinutes) query.set("minutes", String(availableMinutes));
+    apiFetch<{ recommendations: PersonalizedTool[] }>(`/api/coping/recommendations?${query}`)
+      .then((result) => setRecommendedTools(result.recommendations.map(withAppearance)))
+      // Offline, rank the built-in tools on this device; the shared engine gives the server's heuristic order.
+      .catch(() => {
+        const context = buildRecommendationContext({
+          checkIns,
+          safetyPlanSteps: safetyPlan?.copingSteps,
+          availableMinutes,
         });
-        setRecommendedTools(merged);
-      })
-      .catch(() => setRecommendedTools([]));
-  }, []);
+        setRecommendedTools(getRecommendedCopingTools(COPING_TOOLS, context).map(withAppearance));
+      });
+  }, [checkIns, safetyPlan, availableMinutes]);
+
+  useEffect(() => {
+    loadRecommendations();
+  }, [loadRecommendations]);
+
+  // Voting the same way twice takes the vote back.
+  const voteOnTool = async (toolId: string, vote: ToolVote) => {
+    const current = recommendedTools.find((tool) => tool.id === toolId)?.vote ?? null;
+    const next = current === vote ? null : vote;
+    setRecommendedTools((prev) => prev.map((tool) => (tool.id === toolId ? { ...tool, vote: next } : tool)));
+    try {
+      await apiFetch("/api/coping/feedback", {
+        method: "POST",
+        body: JSON.stringify({ toolId, vote: next }),
+      });
+    } catch {
+      setRecommendedTools((prev) => prev.map((tool) => (tool.id === toolId ? { ...tool, vote: current } : tool)));
+    }
+  };
+
+  const toggleFavorite = async (toolId: string) => {
+    const current = recommendedTools.find((tool) => tool.id === toolId)?.favorite ?? false;
+    setRecommendedTools((prev) => prev.map((tool) => (tool.id === toolId ? { ...tool, favorite: !current } : tool)));
+    try {
+      await apiFetch("/api/coping/favorites", {
+        method: "POST",
+        body: JSON.stringify({ toolId, favorite: !current }),
+      });
+    } catch {
+      setRecommendedTools((prev) => prev.map((tool) => (tool.id === toolId ? { ...tool, favorite: current } : tool)));
+    }
+  };
 
   useEffect(() => {
     if (!profile?.baselineMood) return;
@@ -80,61 +139,48 @@ const CopingTools = () => {
           ? tool.score + 10 // Boost score for mood-matching tools
           : tool.score
       }));
-      
-      // Re-sort after boosting
-      filtered.sort((a, b) => b.score - a.score);
     }
     
+    // Favorites stay on top; everything else re-sorts after boosting
+    filtered.sort((a, b) => Number(Boolean(b.favorite)) - Number(Boolean(a.favorite)) || b.score - a.score);
     return filtered;
   }, [recommendedTools, moodFocus]);
 
-  /**
-   * Breathing exercise handlers
-   */
-  const clearBreathingTimers = () => {
-    timeoutsRef.current.forEach((id) => window.clearTimeout(id));
-    timeoutsRef.current = [];
-  };
-
-  const scheduleBreathPhase = (phase: "inhale" | "hold" | "exhale", delayMs: number) => {
-    const id = window.setTimeout(() => setBreathPhase(phase), delayMs);
-    timeoutsRef.current.push(id);
-  };
-
-  const startBreathing = () => {
-    clearBreathingTimers();
-    setBreathPhase("inhale");
-    scheduleBreathPhase("hold", 4000);
-    scheduleBreathPhase("exhale", 8000);
-    scheduleBreathPhase("inhale", 12000);
+  // Closing an exercise ends its session and asks how it went.
+  const closeTool = () => {
+    setActiveTool(null);
+    setPlayingTool(null);
+    setOpenCustomTool(null);
+    if (activeSession) {
+      setFinishedSession({ ...activeSession, endedAt: new Date().toISOString() });
+      setActiveSession(null);
+    }
   };
 
-  const startBoxBreathing = () => {
-    clearBreathingTimers();
-    setBreathPhase("inhale");
-    scheduleBreathPhase("hold", 4000);
-    scheduleBreathPhase("exhale", 8000);
-    scheduleBreathPhase("hold", 12000);
-    scheduleBreathPhase("inhale", 16000);
+  // "I did it" on one of the user's own tools counts as finishing it.
+  const finishCustomTool = () => {
+    if (activeSession) setFinishedSession({ ...activeSession, completed: true, endedAt: new Date().toISOString() });
+    setActiveSession(null);
+    setOpenCustomTool(null);
   };
 
-  const start478Breathing = () => {
-    clearBreathingTimers();
-    setBreathPhase("inhale");
-    scheduleBreathPhase("hold", 4000);
-    scheduleBreathPhase("exhale", 11000); // 4 + 7
-    scheduleBreathPhase("inhale", 19000); // 4 + 7 + 8
+  const editCustomTool = (tool: CustomCopingTool) => {
+    setActiveSession(null);
+    setOpenCustomTool(null);
+    setToolForm({ tool });
   };
 
-  useEffect(() => {
-    return () => clearBreathingTimers();
-  }, []);
-
   return (
     <div className="mx-auto max-w-4xl space-y-8 animate-fade-in">
-      <div>
-        <h1 className="font-display text-2xl font-bold text-foreground">Ways to feel better</h1>
-        <p className="text-muted-foreground">Pick a tool that feels right for you right now.</p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="font-display text-2xl font-bold text-foreground">Ways to feel better</h1>
+          <p className="text-muted-foreground">Pick a tool that feels right for you right now.</p>
+        </div>
+        <Button variant="outline" className="rounded-xl" onClick={() => setToolForm({ tool: null })}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add your own
+        </Button>
       </div>
 
       <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
@@ -159,16 +205,40 @@ const CopingTools = () => {
         ))}
       </div>
 
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="mr-1">Time I have:</span>
+        {[
+          { label: "Any", value: null },
+          { label: "2 min", value: 2 },
+          { label: "5 min", value: 5 },
+          { label: "15 min", value: 15 },
+        ].map((item) => (
+          <button
+            key={item.label}
+            type="button"
+            onClick={() => setAvailableMinutes(item.value)}
+            className={`rounded-full border px-3 py-1.5 transition-all ${
+              availableMinutes === item.value
+                ? "border-primary/40 bg-primary/10 text-foreground"
+                : "border-border bg-surface text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
       <div className="grid gap-4 sm:grid-cols-2">
         {prioritizedTools.map((tool) => (
           <Card
             key={tool.id}
             className="card-elevated group cursor-pointer rounded-2xl"
             onClick={() => {
-              setActiveTool(tool.type);
-              if (tool.type === "breathing") startBreathing();
-              if (tool.type === "box-breathing") startBoxBreathing();
-              if (tool.type === "478-breathing") start478Breathing();
+              const script = getToolScript(tool);
+              if (tool.custom) setOpenCustomTool(tool as CustomCopingTool);
+              else if (script) setPlayingTool({ ...tool, script });
+              else setActiveTool(tool.type);
+              setActiveSession({ toolId: tool.id, title: tool.title, startedAt: new Date().toISOString() });
             }}
           >
             <CardContent className="flex items-start gap-4 p-6">
@@ -176,91 +246,121 @@ const CopingTools = () => {
                 <tool.icon className="h-6 w-6" />
               </div>
               <div className="flex-1">
-                <h3 className="font-display text-lg font-semibold text-foreground">{tool.title}</h3>
+                <div className="flex items-center gap-2">
+                  <h3 className="font-display text-lg font-semibold text-foreground">{tool.title}</h3>
+                  {tool.exploration && (
+                    <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-medium text-primary">New to try</span>
+                  )}
+                  {tool.custom && (
+                    <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-medium text-muted-foreground">Yours</span>
+                  )}
+                  <button
+                    type="button"
+                    aria-label={tool.favorite ? "Remove from favorites" : "Add to favorites"}
+                    aria-pressed={Boolean(tool.favorite)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void toggleFavorite(tool.id);
+                    }}
+                    className={`ml-auto rounded-full p-1.5 transition-colors ${
+                      tool.favorite ? "text-amber-500" : "text-muted-foreground hover:bg-muted hover:text-foreground"
+                    }`}
+                  >
+                    <Star className="h-4 w-4" fill={tool.favorite ? "currentColor" : "none"} />
+                  </button>
+                </div>
                 <p className="mt-1 text-sm text-muted-foreground">{tool.description}</p>
                 {/* AI EXPLAINABILITY: Show recommendation reason */}
-                {tool.score >= 50 && (
+                {(tool.score >= 50 || tool.learned || tool.exploration) && (
                   <p className="mt-2 text-xs text-primary/80 italic">
                     💡 {tool.reason}
                   </p>
                 )}
+                {toolStats[tool.id] && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Used {toolStats[tool.id].sessions} time{toolStats[tool.id].sessions === 1 ? "" : "s"}
+                    {toolStats[tool.id].averageMoodChange !== null &&
+                      ` · mood ${(toolStats[tool.id].averageMoodChange ?? 0) > 0 ? "+" : ""}${toolStats[tool.id].averageMoodChange} on average`}
+                  </p>
+                )}
+                <div className="mt-3 flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="mr-1">Did this help?</span>
+                  {(["up", "down"] as const).map((vote) => {
+                    const Icon = vote === "up" ? ThumbsUp : ThumbsDown;
+                    return (
+                      <button
+                        key={vote}
+                        type="button"
+                        aria-label={vote === "up" ? "This helps me" : "This doesn't help me"}
+                        aria-pressed={tool.vote === vote}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          void voteOnTool(tool.id, vote);
+                        }}
+                        className={`rounded-full p-1.5 transition-colors ${
+                          tool.vote === vote ? "bg-primary/15 text-primary" : "hover:bg-muted hover:text-foreground"
+                        }`}
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                      </button>
+                    );
+                  })}
+                </div>
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      {/* Breathing Dialog */}
-      <Dialog open={activeTool === "breathing"} onOpenChange={() => { setActiveTool(null); setBreathPhase("idle"); }}>
+      {/* Guided exercises: any tool with a step script */}
+      <Dialog open={Boolean(playingTool)} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-mint to-secondary sm:max-w-md">
           <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">Breathe with me</DialogTitle>
+            <DialogTitle className="font-display text-xl text-foreground text-center">{playingTool?.title}</DialogTitle>
           </DialogHeader>
-          <div className="flex flex-col items-center gap-6 py-8">
-            <div className={`flex h-36 w-36 items-center justify-center rounded-full bg-primary/20 transition-all [transition-duration:4s] ease-in-out ${breathPhase === "inhale" ? "scale-125" : breathPhase === "exhale" ? "scale-90" : "scale-100"}`}>
-              <span className="text-lg font-medium text-primary capitalize">{breathPhase === "idle" ? "Ready" : breathPhase}</span>
-            </div>
-            <p className="text-sm text-muted-foreground text-center">
-              {breathPhase === "inhale" && "Breathe in slowly… 4 seconds"}
-              {breathPhase === "hold" && "Hold gently… 4 seconds"}
-              {breathPhase === "exhale" && "Release slowly… 4 seconds"}
-              {breathPhase === "idle" && "Click the button to begin"}
-            </p>
-            {breathPhase === "idle" && (
-              <Button onClick={startBreathing} className="rounded-xl">Start</Button>
-            )}
-          </div>
+          {playingTool?.script && (
+            <ExercisePlayer
+              key={playingTool.id}
+              script={playingTool.script}
+              onFinish={() => setActiveSession((session) => session && { ...session, completed: true })}
+              onClose={closeTool}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
-      {/* Box Breathing Dialog */}
-      <Dialog open={activeTool === "box-breathing"} onOpenChange={() => { setActiveTool(null); setBreathPhase("idle"); }}>
-        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-mint to-secondary sm:max-w-md">
+      {/* The user's own tools: no script, just a reminder of what to do */}
+      <Dialog open={Boolean(openCustomTool)} onOpenChange={closeTool}>
+        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-peach/40 to-mint/40 sm:max-w-md">
           <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">Box Breathing (4-4-4-4)</DialogTitle>
+            <DialogTitle className="font-display text-xl text-foreground text-center">{openCustomTool?.title}</DialogTitle>
           </DialogHeader>
-          <div className="flex flex-col items-center gap-6 py-8">
-            <div className={`flex h-36 w-36 items-center justify-center rounded-xl bg-primary/20 transition-all [transition-duration:4s] ease-in-out ${breathPhase === "inhale" ? "scale-125" : breathPhase === "exhale" ? "scale-90" : "scale-100"}`}>
-              <span className="text-lg font-medium text-primary capitalize">{breathPhase === "idle" ? "Ready" : breathPhase}</span>
+          <div className="space-y-4 py-4 text-center">
+            {openCustomTool?.description && <p className="text-sm text-foreground">{openCustomTool.description}</p>}
+            <p className="text-xs text-muted-foreground">About {openCustomTool?.durationMinutes} min. Come back when you're done.</p>
+            <div className="flex justify-center gap-2">
+              <Button className="rounded-xl" onClick={finishCustomTool}>I did it</Button>
+              <Button variant="ghost" className="rounded-xl" onClick={() => openCustomTool && editCustomTool(openCustomTool)}>
+                Edit
+              </Button>
             </div>
-            <p className="text-sm text-muted-foreground text-center">
-              {breathPhase === "inhale" && "Breathe in through nose… 4 seconds"}
-              {breathPhase === "hold" && breathPhase === "hold" && "Hold… 4 seconds"}
-              {breathPhase === "exhale" && "Exhale through mouth… 4 seconds"}
-              {breathPhase === "idle" && "Used by Navy SEALs for stress management"}
-            </p>
-            {breathPhase === "idle" && (
-              <Button onClick={startBoxBreathing} className="rounded-xl">Start Box Breathing</Button>
-            )}
           </div>
         </DialogContent>
       </Dialog>
 
-      {/* 4-7-8 Breathing Dialog */}
-      <Dialog open={activeTool === "478-breathing"} onOpenChange={() => { setActiveTool(null); setBreathPhase("idle"); }}>
-        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-mint to-secondary sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">4-7-8 Breathing</DialogTitle>
-          </DialogHeader>
-          <div className="flex flex-col items-center gap-6 py-8">
-            <div className={`flex h-36 w-36 items-center justify-center rounded-full bg-primary/20 transition-all [transition-duration:7s] ease-in-out ${breathPhase === "inhale" ? "scale-125" : breathPhase === "exhale" ? "scale-90" : "scale-100"}`}>
-              <span className="text-lg font-medium text-primary capitalize">{breathPhase === "idle" ? "Ready" : breathPhase}</span>
-            </div>
-            <p className="text-sm text-muted-foreground text-center">
-              {breathPhase === "inhale" && "Breathe in quietly through nose… 4 seconds"}
-              {breathPhase === "hold" && "Hold your breath… 7 seconds"}
-              {breathPhase === "exhale" && "Exhale completely through mouth… 8 seconds"}
-              {breathPhase === "idle" && "Dr. Weil's technique for deep relaxation"}
-            </p>
-            {breathPhase === "idle" && (
-              <Button onClick={start478Breathing} className="rounded-xl">Start 4-7-8</Button>
-            )}
-          </div>
-        </DialogContent>
-      </Dialog>
+      <CustomCopingToolDialog
+        open={Boolean(toolForm)}
+        tool={toolForm?.tool ?? null}
+        onClose={() => setToolForm(null)}
+        onSaved={() => {
+          setToolForm(null);
+          loadRecommendations();
+          void reloadSafetyPlan().catch(() => null);
+        }}
+      />
 
       {/* Affirmations Dialog */}
-      <Dialog open={activeTool === "affirmations"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "affirmations"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-peach/40 to-lavender/40 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Daily Affirmations</DialogTitle>
@@ -275,31 +375,8 @@ const CopingTools = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Grounding Dialog */}
-      <Dialog open={activeTool === "grounding"} onOpenChange={() => setActiveTool(null)}>
-        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-lavender to-mint/40 sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">5-4-3-2-1 Grounding</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-3 py-4">
-            {[
-              { n: 5, sense: "things you can see 👀" },
-              { n: 4, sense: "things you can touch ✋" },
-              { n: 3, sense: "things you can hear 👂" },
-              { n: 2, sense: "things you can smell 🌸" },
-              { n: 1, sense: "thing you can taste 👅" },
-            ].map((item, i) => (
-              <div key={i} className="flex items-center gap-3 rounded-2xl bg-card/80 p-4 shadow-sm animate-fade-in" style={{ animationDelay: `${i * 120}ms` }}>
-                <span className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/20 text-sm font-bold text-primary">{item.n}</span>
-                <span className="text-sm font-medium text-foreground">{item.sense}</span>
-              </div>
-            ))}
-          </div>
-        </DialogContent>
-      </Dialog>
-
       {/* Exercises Dialog */}
-      <Dialog open={activeTool === "exercises"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "exercises"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-secondary to-mint/30 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Movement Reset</DialogTitle>
@@ -320,59 +397,8 @@ const CopingTools = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Body Scan Dialog */}
-      <Dialog open={activeTool === "body-scan"} onOpenChange={() => setActiveTool(null)}>
-        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-lavender to-mint/40 sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">Body Scan Meditation</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-3 py-4">
-            <p className="text-sm text-muted-foreground text-center mb-4">
-              Close your eyes and notice sensations in each area:
-            </p>
-            {[
-              "🧠 Head and face - release jaw tension",
-              "💆 Neck and shoulders - let them drop",
-              "🫁 Chest and breathing - notice the rhythm",
-              "🤲 Arms and hands - feel their weight",
-              "🦵 Legs and feet - grounded and stable",
-            ].map((area, i) => (
-              <div key={i} className="rounded-2xl bg-card/80 p-4 text-sm font-medium text-foreground shadow-sm animate-fade-in" style={{ animationDelay: `${i * 120}ms` }}>
-                {area}
-              </div>
-            ))}
-          </div>
-        </DialogContent>
-      </Dialog>
-
-      {/* Progressive Muscle Relaxation Dialog */}
-      <Dialog open={activeTool === "pmr"} onOpenChange={() => setActiveTool(null)}>
-        <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-lavender to-mint/40 sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="font-display text-xl text-foreground text-center">Progressive Muscle Relaxation</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-3 py-4">
-            <p className="text-sm text-muted-foreground text-center mb-4">
-              Tense each muscle group for 5 seconds, then release:
-            </p>
-            {[
-              "✊ Hands - make tight fists, then release",
-              "💪 Arms - flex biceps, then let go",
-              "😤 Face - scrunch face tight, then relax",
-              "🫸 Shoulders - raise to ears, then drop",
-              "🦵 Legs - tighten thighs, then soften",
-              "🦶 Feet - curl toes down, then release",
-            ].map((step, i) => (
-              <div key={i} className="rounded-2xl bg-card/80 p-4 text-sm font-medium text-foreground shadow-sm animate-fade-in" style={{ animationDelay: `${i * 100}ms` }}>
-                {step}
-              </div>
-            ))}
-          </div>
-        </DialogContent>
-      </Dialog>
-
       {/* Cognitive Reframing Dialog */}
-      <Dialog open={activeTool === "cognitive-reframing"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "cognitive-reframing"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-blue-50 to-lavender/40 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Cognitive Reframing</DialogTitle>
@@ -398,7 +424,7 @@ const CopingTools = () => {
       </Dialog>
 
       {/* Thought Journaling Dialog */}
-      <Dialog open={activeTool === "thought-journaling"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "thought-journaling"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-blue-50 to-peach/40 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Thought Journaling</DialogTitle>
@@ -426,7 +452,7 @@ const CopingTools = () => {
       </Dialog>
 
       {/* Gratitude Reflection Dialog */}
-      <Dialog open={activeTool === "gratitude"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "gratitude"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-peach/40 to-lavender/40 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Gratitude Reflection</DialogTitle>
@@ -452,7 +478,7 @@ const CopingTools = () => {
       </Dialog>
 
       {/* Self-Compassion Dialog */}
-      <Dialog open={activeTool === "self-compassion"} onOpenChange={() => setActiveTool(null)}>
+      <Dialog open={activeTool === "self-compassion"} onOpenChange={closeTool}>
         <DialogContent className="rounded-3xl border-0 bg-gradient-to-br from-peach/40 to-lavender/40 sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="font-display text-xl text-foreground text-center">Self-Compassion Break</DialogTitle>
@@ -475,6 +501,14 @@ const CopingTools = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <CopingSessionPrompt
+        session={finishedSession}
+        onDone={() => {
+          setFinishedSession(null);
+          loadRecommendations();
+        }}
+      />
     </div>
   );
 };
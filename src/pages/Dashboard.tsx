@@ -3,11 +3,14 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
 import { Textarea } from "@/components/ui/textarea";
-import { Flame, TrendingUp, Sparkles, Bell, NotebookPen } from "lucide-react";
+import { Flame, TrendingUp, Bell, NotebookPen } from "lucide-react";
+import CheckInDayDialog from "@/components/CheckInDayDialog";
+import InsightsPanel from "@/components/InsightsPanel";
 import { useUser } from "@/contexts/UserContext";
 import { apiFetch } from "@/lib/api";
-import type { CheckIn, Mood, WeeklyGoal } from "@/types";
+import type { CheckIn, EarlyWarning, Mood, WeeklyGoal } from "@/types";
 
 const moods: { emoji: string; label: string; value: Mood }[] = [
   { emoji: "😊", label: "Happy", value: "happy" },
@@ -18,21 +21,43 @@ const moods: { emoji: string; label: string; value: Mood }[] = [
   { emoji: "😤", label: "Frustrated", value: "frustrated" },
 ];
 
-const insights = [
-  { text: "You felt calmer 3 days in a row", icon: TrendingUp, color: "bg-mint text-mint-foreground" },
-  { text: "5-day check-in streak! 🔥", icon: Flame, color: "bg-peach text-peach-foreground" },
-  { text: "Your top coping tool: Breathing", icon: Sparkles, color: "bg-lavender text-lavender-foreground" },
-];
+const splitTags = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+const entryDay = (item: CheckIn) => item.dayKey ?? new Date(item.createdAt).toDateString();
+
+// One mood per day: a manual check-in outranks whatever chat inferred, and the latest of each wins.
+const moodsByDay = (checkIns: CheckIn[]) => {
+  const days = new Map<string, CheckIn>();
+  checkIns.forEach((item) => {
+    const key = entryDay(item);
+    const current = days.get(key);
+    if (!current || (current.source === "chat" && item.source !== "chat")) {
+      days.set(key, item);
+    }
+  });
+  return Array.from(days.values());
+};
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const { profile, settings, addCheckIn, weeklyGoal, updateWeeklyGoal, checkIns, safetyPlan } = useUser();
   const [note, setNote] = useState("");
   const [selectedMood, setSelectedMood] = useState<Mood | null>(null);
+  const [intensity, setIntensity] = useState(5);
+  const [energy, setEnergy] = useState(5);
+  const [sleepHours, setSleepHours] = useState("");
+  const [activities, setActivities] = useState("");
+  const [people, setPeople] = useState("");
+  const [editingToday, setEditingToday] = useState(false);
   const [goalTitle, setGoalTitle] = useState(weeklyGoal?.title ?? "");
   const [goalTarget, setGoalTarget] = useState<number>(weeklyGoal?.targetPerWeek ?? 4);
   const [analyticsStreak, setAnalyticsStreak] = useState<number | null>(null);
   const [dailySummary, setDailySummary] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<EarlyWarning[]>([]);
 
   useEffect(() => {
     const timezone = settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
@@ -41,6 +66,17 @@ const Dashboard = () => {
       .catch(() => setAnalyticsStreak(null));
   }, [settings.timezone]);
 
+  useEffect(() => {
+    apiFetch<{ warnings: EarlyWarning[] }>("/api/early-warnings")
+      .then((result) => setWarnings(result.warnings))
+      .catch(() => setWarnings([]));
+  }, []);
+
+  const dismissWarning = async (id: string) => {
+    setWarnings((prev) => prev.filter((item) => item.id !== id));
+    await apiFetch(`/api/early-warnings/${id}/dismiss`, { method: "POST", body: JSON.stringify({}) }).catch(() => null);
+  };
+
   useEffect(() => {
     apiFetch<{ summary: { summary?: string } | null }>("/api/chat/summary/today")
       .then((result) => setDailySummary(result.summary?.summary ?? null))
@@ -61,8 +97,23 @@ const Dashboard = () => {
     }
   }, [weeklyGoal]);
 
-  const latestMood = checkIns[0]?.mood ?? profile?.baselineMood ?? "neutral";
-  const latestMoodLabel = checkIns[0]?.moodLabel || latestMood;
+  const dailyMoods = useMemo(() => moodsByDay(checkIns), [checkIns]);
+  const latestMood = dailyMoods[0]?.mood ?? profile?.baselineMood ?? "neutral";
+  const latestMoodLabel = dailyMoods[0]?.moodLabel || latestMood;
+
+  const today = useMemo(() => {
+    const todayKey = new Date().toDateString();
+    const entries = checkIns.filter((item) => new Date(item.createdAt).toDateString() === todayKey);
+    const manual = entries.filter((item) => item.source !== "chat");
+    const energies = manual.map((item) => item.energy).filter((value): value is number => typeof value === "number");
+    return {
+      entries,
+      manual,
+      chatCount: entries.length - manual.length,
+      averageEnergy: energies.length ? (energies.reduce((sum, value) => sum + value, 0) / energies.length).toFixed(1) : null,
+      sleepHours: manual.find((item) => typeof item.sleepHours === "number")?.sleepHours ?? null,
+    };
+  }, [checkIns]);
 
   const streak = useMemo(() => {
     if (!checkIns.length) return 0;
@@ -99,7 +150,7 @@ const Dashboard = () => {
   }, [checkIns]);
 
   const moodTimeline = useMemo(() => {
-    return checkIns.slice(0, 7).reverse().map((item) => {
+    return dailyMoods.slice(0, 7).reverse().map((item) => {
       const mood = moods.find((m) => m.value === item.mood);
       return {
         id: item.id,
@@ -108,15 +159,15 @@ const Dashboard = () => {
         date: new Date(item.createdAt).toLocaleDateString(undefined, { weekday: "short" }),
       };
     });
-  }, [checkIns]);
+  }, [dailyMoods]);
 
   const showSupportPlan = useMemo(() => {
     if (!safetyPlan) return false;
     const lowMoods = new Set(["sad", "anxious", "frustrated"]);
-    const recent = checkIns.slice(0, 3);
+    const recent = dailyMoods.slice(0, 3);
     const lowCount = recent.filter((item) => lowMoods.has(item.mood)).length;
     return lowCount >= 2 || lowMoods.has(latestMood);
-  }, [checkIns, latestMood, safetyPlan]);
+  }, [dailyMoods, latestMood, safetyPlan]);
 
   const handleCheckIn = async () => {
     if (!selectedMood) return;
@@ -124,11 +175,22 @@ const Dashboard = () => {
       id: String(Date.now()),
       mood: selectedMood,
       note: note.trim() || undefined,
+      intensity,
+      energy,
+      sleepHours: sleepHours === "" ? null : Number(sleepHours),
+      activities: splitTags(activities),
+      people: splitTags(people),
+      source: "manual",
       createdAt: new Date().toISOString(),
     };
     await addCheckIn(newCheckIn);
     setNote("");
     setSelectedMood(null);
+    setIntensity(5);
+    setEnergy(5);
+    setSleepHours("");
+    setActivities("");
+    setPeople("");
     if (selectedMood === "anxious" || selectedMood === "sad") {
       navigate("/coping");
     }
@@ -205,6 +267,40 @@ const Dashboard = () => {
           </div>
 
           <div className="mt-6 rounded-2xl bg-surface/70 p-4">
+            {selectedMood && (
+              <div className="mb-4 grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-muted-foreground">How strongly? {intensity}/10</label>
+                  <Slider min={1} max={10} step={1} value={[intensity]} onValueChange={([value]) => setIntensity(value)} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold text-muted-foreground">Energy {energy}/10</label>
+                  <Slider min={1} max={10} step={1} value={[energy]} onValueChange={([value]) => setEnergy(value)} />
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={24}
+                  step={0.5}
+                  value={sleepHours}
+                  onChange={(e) => setSleepHours(e.target.value)}
+                  placeholder="Hours slept last night"
+                  className="bg-card"
+                />
+                <Input
+                  value={activities}
+                  onChange={(e) => setActivities(e.target.value)}
+                  placeholder="What were you doing? (work, walk, ...)"
+                  className="bg-card"
+                />
+                <Input
+                  value={people}
+                  onChange={(e) => setPeople(e.target.value)}
+                  placeholder="Who were you with? (family, friends, ...)"
+                  className="bg-card md:col-span-2"
+                />
+              </div>
+            )}
             <Textarea
               value={note}
               onChange={(e) => setNote(e.target.value)}
@@ -253,7 +349,62 @@ const Dashboard = () => {
         </Card>
       </div>
 
-      {showSupportPlan && (
+      <InsightsPanel limit={3} compact />
+
+      {today.manual.length > 0 && (
+        <Card className="card-elevated rounded-2xl">
+          <CardContent className="p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-semibold text-foreground">Today so far</p>
+                <Button size="sm" variant="ghost" onClick={() => setEditingToday(true)}>
+                  Edit
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                {today.averageEnergy && (
+                  <span className="rounded-full border border-border bg-surface px-2 py-1">Energy {today.averageEnergy}/10</span>
+                )}
+                {today.sleepHours !== null && (
+                  <span className="rounded-full border border-border bg-surface px-2 py-1">Slept {today.sleepHours}h</span>
+                )}
+                {today.chatCount > 0 && (
+                  <span className="rounded-full border border-border bg-surface px-2 py-1">
+                    {today.chatCount} from chat
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="mt-4 space-y-2">
+              {today.manual.map((item) => {
+                const mood = moods.find((m) => m.value === item.mood);
+                const tags = [...(item.activities ?? []), ...(item.people ?? [])];
+                return (
+                  <div key={item.id} className="flex flex-wrap items-center gap-3 rounded-2xl border border-border bg-surface px-3 py-2 text-sm">
+                    <span className="text-xl">{mood?.emoji ?? "🙂"}</span>
+                    <span className="font-semibold text-foreground">{mood?.label ?? item.mood}</span>
+                    {typeof item.intensity === "number" && (
+                      <span className="text-xs text-muted-foreground">{item.intensity}/10</span>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(item.createdAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                    </span>
+                    {tags.map((tag) => (
+                      <span key={tag} className="rounded-full border border-border/30 bg-card px-2 py-0.5 text-[10px] text-muted-foreground">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <CheckInDayDialog open={editingToday} onOpenChange={setEditingToday} title="Today's check-ins" entries={today.entries} />
+
+      {showSupportPlan && !warnings.length && (
         <Card className="card-elevated rounded-2xl">
           <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
             <div>
@@ -267,6 +418,25 @@ const Dashboard = () => {
         </Card>
       )}
 
+      {warnings[0] && (
+        <Card className="card-elevated rounded-2xl border border-peach">
+          <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
+            <div className="max-w-xl">
+              <p className="text-sm font-semibold text-foreground">{warnings[0].title}</p>
+              <p className="text-sm text-muted-foreground">{warnings[0].message}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => navigate("/safety")} className="rounded-xl">
+                Open safety plan
+              </Button>
+              <Button variant="ghost" onClick={() => dismissWarning(warnings[0].id)}>
+                I'm okay for now
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {dailySummary && (
         <Card className="card-elevated rounded-2xl">
           <CardContent className="p-6">
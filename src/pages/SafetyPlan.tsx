@@ -3,6 +3,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Phone, Plus, Trash2 } from "lucide-react";
 import { useUser } from "@/contexts/UserContext";
 import type { SafetyContact, SafetyPlan, SafetyResource } from "@/types";
@@ -38,6 +39,8 @@ const createContact = (): SafetyContact => ({
   name: "",
   relation: "",
   phone: "",
+  email: "",
+  alertInCrisis: false,
 });
 
 const createResource = (): SafetyResource => ({
@@ -106,7 +109,7 @@ const SafetyPlanPage = () => {
     setSavedAt(new Date(nextPlan.updatedAt).toLocaleString());
   };
 
-  const updateContact = (id: string, field: keyof SafetyContact, value: string) => {
+  const updateContact = (id: string, field: keyof SafetyContact, value: string | boolean) => {
     setContacts((prev) => prev.map((item) => (item.id === id ? { ...item, [field]: value } : item)));
   };
 
@@ -236,8 +239,28 @@ const SafetyPlanPage = () => {
                   <Trash2 className="h-4 w-4" />
                 </Button>
               </div>
+              <Input
+                type="email"
+                value={contact.email ?? ""}
+                onChange={(event) => updateContact(contact.id, "email", event.target.value)}
+                placeholder="Sahaay account email (optional)"
+                className="rounded-xl md:col-span-2"
+              />
+              <label className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                Alert them if I am in crisis
+                <Switch
+                  checked={Boolean(contact.alertInCrisis)}
+                  disabled={!contact.email?.trim()}
+                  onCheckedChange={(checked) => updateContact(contact.id, "alertInCrisis", checked)}
+                />
+              </label>
             </div>
           ))}
+          {contacts.some((contact) => contact.alertInCrisis) && (
+            <p className="text-xs text-muted-foreground">
+              Contacts with alerts on get a push notification through their own Sahaay account, at most once a day.
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Calendar, MessageSquare, NotebookPen, Search as SearchIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiFetch } from "@/lib/api";
+import type { SearchResult, SearchSource } from "@/types";
+
+const sourceOptions: Array<{ value: SearchSource; label: string; icon: typeof MessageSquare }> = [
+  { value: "message", label: "Messages", icon: MessageSquare },
+  { value: "journal", label: "Journal", icon: NotebookPen },
+  { value: "day", label: "Days", icon: Calendar },
+];
+
+const emotions = ["happy", "calm", "neutral", "sad", "anxious", "frustrated"];
+
+const resultLink = (result: SearchResult) => (result.source === "journal" ? "/journal" : `/chat?day=${result.dayKey}`);
+
+const formatDay = (dayKey: string) => {
+  try {
+    return format(parseISO(dayKey), "EEE, MMM d, yyyy");
+  } catch {
+    return dayKey;
+  }
+};
+
+const Search = () => {
+  const [query, setQuery] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [emotion, setEmotion] = useState("any");
+  const [sources, setSources] = useState<SearchSource[]>([]);
+  const [sort, setSort] = useState<"relevance" | "recent">("relevance");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const toggleSource = (source: SearchSource) =>
+    setSources((prev) => (prev.includes(source) ? prev.filter((item) => item !== source) : [...prev, source]));
+
+  const handleSearch = async (event: FormEvent) => {
+    event.preventDefault();
+    if (query.trim().length < 2) return;
+
+    const params = new URLSearchParams({ q: query.trim(), sort });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (emotion !== "any") params.set("emotion", emotion);
+    if (sources.length) params.set("source", sources.join(","));
+
+    setLoading(true);
+    try {
+      const data = await apiFetch<{ results: SearchResult[]; indexing: boolean }>(`/api/search?${params.toString()}`);
+      setResults(data.results);
+      setIndexing(data.indexing);
+    } catch {
+      setResults([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-8 pb-12 animate-fade-in">
+      <div>
+        <h1 className="font-display text-2xl font-bold text-foreground">Search</h1>
+        <p className="text-sm text-muted-foreground">
+          Ask in your own words, like "when did I last feel like this about work?"
+        </p>
+      </div>
+
+      <form onSubmit={handleSearch} className="space-y-4">
+        <div className="relative">
+          <SearchIcon className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search your messages, journal and past days..."
+            className="h-12 rounded-2xl border-border/50 bg-card pl-10 shadow-sm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {sourceOptions.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              type="button"
+              size="sm"
+              variant={sources.includes(value) ? "default" : "outline"}
+              onClick={() => toggleSource(value)}
+            >
+              <Icon className="mr-1.5 h-3.5 w-3.5" />
+              {label}
+            </Button>
+          ))}
+          <Select value={emotion} onValueChange={setEmotion}>
+            <SelectTrigger className="h-9 w-[150px] rounded-xl">
+              <SelectValue placeholder="Any feeling" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any feeling</SelectItem>
+              {emotions.map((item) => (
+                <SelectItem key={item} value={item} className="capitalize">
+                  {item}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sort} onValueChange={(value) => setSort(value as "relevance" | "recent")}>
+            <SelectTrigger className="h-9 w-[150px] rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="relevance">Best match</SelectItem>
+              <SelectItem value="recent">Most recent</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+          <span>From</span>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-[170px]" />
+          <span>to</span>
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-[170px]" />
+          <Button type="submit" disabled={loading || query.trim().length < 2}>
+            {loading ? "Searching..." : "Search"}
+          </Button>
+        </div>
+      </form>
+
+      {indexing && (
+        <p className="text-xs text-muted-foreground">
+          We're still indexing your older entries, so some results may appear later.
+        </p>
+      )}
+
+      {results && results.length === 0 && (
+        <p className="py-12 text-center text-sm text-muted-foreground">Nothing matched. Try different words or fewer filters.</p>
+      )}
+
+      {results && results.length > 0 && (
+        <div className="grid gap-4">
+          {results.map((result) => {
+            const option = sourceOptions.find((item) => item.value === result.source);
+            const Icon = option?.icon ?? MessageSquare;
+            return (
+              <Link
+                key={result.id}
+                to={resultLink(result)}
+                className="flex flex-col gap-2 rounded-2xl border border-border/50 bg-card p-5 shadow-sm transition-all hover:border-primary/30 hover:shadow-md"
+              >
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Icon className="h-3.5 w-3.5 text-primary" />
+                  <span>{option?.label}</span>
+                  <span>·</span>
+                  <span>{formatDay(result.dayKey)}</span>
+                </div>
+                {result.title && <p className="text-sm font-semibold text-foreground">{result.title}</p>}
+                <p className="text-sm leading-relaxed text-foreground">{result.snippet}</p>
+                {result.emotions.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {result.emotions.map((item) => (
+                      <span
+                        key={item}
+                        className="rounded-full border border-border/30 bg-surface-muted px-2.5 py-0.5 text-[10px] font-medium uppercase tracking-wider text-muted-foreground"
+                      >
+                        {item}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Search;
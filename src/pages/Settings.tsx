@@ -6,6 +6,7 @@ import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { useUser } from "@/contexts/UserContext";
 import { apiFetch } from "@/lib/api";
+import MemoryPanel from "@/components/MemoryPanel";
 
 const Settings = () => {
   const { settings, updateSettings, exportData, deleteAllData } = useUser();
@@ -145,6 +146,8 @@ const Settings = () => {
           </div>
         </CardContent>
       </Card>
+
+      <MemoryPanel privateMode={settings.privateMode} />
     </div>
   );
 };
@@ -20,12 +20,37 @@ export interface UserSettings {
   timezone?: string;
 }
 
+export type CheckInSource = "manual" | "chat";
+
 export interface CheckIn {
   id: string;
   mood: Mood;
   moodLabel?: string | null;
   note?: string;
+  intensity?: number | null;
+  energy?: number | null;
+  sleepHours?: number | null;
+  activities?: string[];
+  people?: string[];
+  source?: CheckInSource;
+  dayKey?: string;
   createdAt: string;
+  history?: Array<{ at: string; action: "edited" | "deleted"; before: Partial<CheckIn> }>;
+  // Saved on this device while offline and not yet sent.
+  pending?: boolean;
+}
+
+export type CheckInChanges = Partial<
+  Pick<CheckIn, "mood" | "note" | "intensity" | "energy" | "sleepHours" | "activities" | "people">
+>;
+
+export interface CheckInEdit {
+  id: string;
+  kind: "update" | "delete";
+  dayKey: string;
+  entryId: string;
+  changes?: CheckInChanges;
+  queuedAt: string;
 }
 
 export interface WeeklyGoal {
@@ -53,6 +78,8 @@ export interface SafetyContact {
   name: string;
   relation?: string;
   phone?: string;
+  email?: string;
+  alertInCrisis?: boolean;
 }
 
 export interface SafetyResource {
@@ -75,6 +102,62 @@ export interface SafetyPlan {
   groundingNotes?: string;
 }
 
+export interface Helpline {
+  name: string;
+  number: string;
+}
+
+export interface CrisisProtocol {
+  helplines: Helpline[];
+  copingSteps: string[];
+  contacts: Array<Pick<SafetyContact, "id" | "name" | "relation" | "phone">>;
+}
+
+export interface CrisisEvent {
+  id: string;
+  status: "open" | "resolved";
+  protocol: CrisisProtocol;
+  contactAlerts: Array<{ contactId: string; name: string; status: "sent" | "no_account"; at: string }>;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface ChatMemory {
+  id: string;
+  text: string;
+  category: "life_event" | "relationship" | "preference" | "goal" | "health" | "other";
+  source: "extracted" | "user";
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  status: "open" | "ended";
+  dayKey: string;
+  startedAt: string;
+  endedAt: string | null;
+  lastMessageAt: string;
+  messageCount: number;
+  summary: string | null;
+  topEmotions: string[];
+}
+
+export type SearchSource = "message" | "journal" | "day";
+
+export interface SearchResult {
+  id: string;
+  source: SearchSource;
+  sourceId: string;
+  title: string | null;
+  snippet: string;
+  dayKey: string;
+  createdAt: string;
+  emotions: string[];
+  score: number;
+}
+
 export interface CommunityPost {
   id: string;
   author: string;
@@ -86,3 +169,89 @@ export interface CommunityPost {
   category: "support" | "wins" | "questions" | "venting";
   isModerator?: boolean;
 }
+
+export type AssessmentType = "phq9" | "gad7";
+
+export interface Questionnaire {
+  type: AssessmentType;
+  title: string;
+  description: string;
+  prompt: string;
+  items: Array<{ id: string; text: string }>;
+  options: Array<{ value: number; label: string }>;
+  bands: Array<{ min: number; max: number; severity: string; label: string; message: string }>;
+  crisisItemIndex: number | null;
+}
+
+export interface AssessmentRecord {
+  id: string;
+  type: AssessmentType;
+  answers: number[];
+  score: number;
+  maxScore: number;
+  severity: string;
+  severityLabel: string;
+  crisisItemPositive: boolean;
+  createdAt: string;
+}
+
+export interface AssessmentSummary {
+  latest: AssessmentRecord | null;
+  change: number | null;
+  trend: "improving" | "worsening" | "steady" | null;
+  nextDueAt: string | null;
+  count: number;
+}
+
+export type InsightKind = "topic" | "activity" | "person" | "weekday" | "timeOfDay";
+
+export interface MoodInsight {
+  id: string;
+  kind: InsightKind;
+  factor: string;
+  direction: "better" | "worse";
+  averageWith: number;
+  averageWithout: number;
+  effect: number;
+  sampleSize: number;
+  confidence: "moderate" | "strong";
+  explanation: string;
+}
+
+export interface InsightsReport {
+  window: { from: string; to: string; days: number };
+  observationCount: number;
+  minimumSamples: number;
+  insights: MoodInsight[];
+}
+
+export interface EarlyWarning {
+  id: string;
+  rule: "decline" | "missedAfterLow" | "repeatedCrisis";
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+export interface CopingSession {
+  id: string;
+  toolId: string;
+  durationSeconds: number;
+  completed: boolean;
+  preMood: number | null;
+  postMood: number | null;
+  moodChange: number | null;
+  startedAt: string;
+  createdAt: string;
+}
+
+export interface CopingToolStats {
+  toolId: string;
+  sessions: number;
+  completed: number;
+  completionRate: number;
+  averageDurationSeconds: number;
+  ratedSessions: number;
+  averageMoodChange: number | null;
+  lastUsedAt: string;
+}